@@ -0,0 +1,6 @@
+CREATE TABLE `provider_sync_state` (
+	`provider` text(50) PRIMARY KEY NOT NULL,
+	`lastSyncedAt` integer,
+	`lastFullSyncAt` integer,
+	`updatedAt` integer
+);
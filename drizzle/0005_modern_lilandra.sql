@@ -0,0 +1,2 @@
+ALTER TABLE `ticket` ADD `archivedAt` integer;--> statement-breakpoint
+CREATE INDEX `ticket_archived_at_idx` ON `ticket` (`archivedAt`);
\ No newline at end of file
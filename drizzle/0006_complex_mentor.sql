@@ -0,0 +1,16 @@
+CREATE TABLE `ticket_sync_conflict` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`ticketId` text(255) NOT NULL,
+	`field` text(50) NOT NULL,
+	`localValue` text,
+	`providerValue` text,
+	`status` text(50) DEFAULT 'open' NOT NULL,
+	`resolution` text(50),
+	`detectedAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`resolvedAt` integer,
+	FOREIGN KEY (`ticketId`) REFERENCES `ticket`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `sync_conflict_ticket_idx` ON `ticket_sync_conflict` (`ticketId`);--> statement-breakpoint
+CREATE INDEX `sync_conflict_status_idx` ON `ticket_sync_conflict` (`status`);--> statement-breakpoint
+ALTER TABLE `ticket` ADD `syncedFields` text;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `sync_run` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`provider` text(50) NOT NULL,
+	`startedAt` integer NOT NULL,
+	`finishedAt` integer NOT NULL,
+	`incremental` integer DEFAULT false NOT NULL,
+	`fetched` integer DEFAULT 0 NOT NULL,
+	`created` integer DEFAULT 0 NOT NULL,
+	`updated` integer DEFAULT 0 NOT NULL,
+	`orphaned` integer DEFAULT 0 NOT NULL,
+	`conflicts` integer DEFAULT 0 NOT NULL,
+	`errored` integer DEFAULT 0 NOT NULL,
+	`errors` text DEFAULT '[]'
+);
+--> statement-breakpoint
+CREATE INDEX `sync_run_provider_idx` ON `sync_run` (`provider`);--> statement-breakpoint
+CREATE INDEX `sync_run_started_idx` ON `sync_run` (`startedAt`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `provider_sync_state` ADD `schedulePaused` integer DEFAULT false NOT NULL;
\ No newline at end of file
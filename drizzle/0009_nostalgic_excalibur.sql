@@ -0,0 +1,12 @@
+CREATE TABLE `provider_value_mapping` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`provider` text(50) NOT NULL,
+	`field` text(50) NOT NULL,
+	`externalValue` text(255) NOT NULL,
+	`internalValue` text(50),
+	`lastSeenAt` integer,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `value_mapping_unique_idx` ON `provider_value_mapping` (`provider`,`field`,`externalValue`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `ticket_comment` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`ticketId` text(255) NOT NULL,
+	`externalId` text(255) NOT NULL,
+	`author` text(255),
+	`body` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer,
+	FOREIGN KEY (`ticketId`) REFERENCES `ticket`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `comment_ticket_idx` ON `ticket_comment` (`ticketId`);--> statement-breakpoint
+CREATE UNIQUE INDEX `comment_external_idx` ON `ticket_comment` (`ticketId`,`externalId`);
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `provider_connection` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`provider` text(50) NOT NULL,
+	`name` text(255) NOT NULL,
+	`baseUrl` text(500),
+	`apiToken` text,
+	`projectKey` text(255),
+	`config` text DEFAULT '{}',
+	`enabled` integer DEFAULT true NOT NULL,
+	`lastSyncedAt` integer,
+	`lastFullSyncAt` integer,
+	`schedulePaused` integer DEFAULT false NOT NULL,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `provider_connection_name_idx` ON `provider_connection` (`provider`,`name`);--> statement-breakpoint
+ALTER TABLE `sync_run` ADD `connectionId` text(255) REFERENCES provider_connection(id);--> statement-breakpoint
+CREATE INDEX `sync_run_connection_idx` ON `sync_run` (`connectionId`);--> statement-breakpoint
+ALTER TABLE `ticket` ADD `connectionId` text(255) REFERENCES provider_connection(id);--> statement-breakpoint
+CREATE INDEX `ticket_connection_idx` ON `ticket` (`connectionId`);--> statement-breakpoint
+INSERT INTO `provider_connection` (`id`, `provider`, `name`, `enabled`, `lastSyncedAt`, `lastFullSyncAt`, `schedulePaused`)
+SELECT lower(hex(randomblob(16))), `provider`, CASE `provider` WHEN 'jira' THEN 'Jira' WHEN 'linear' THEN 'Linear' WHEN 'github' THEN 'GitHub' WHEN 'gitlab' THEN 'GitLab' WHEN 'docker' THEN 'Repository analysis' ELSE `provider` END, false, `lastSyncedAt`, `lastFullSyncAt`, `schedulePaused`
+FROM `provider_sync_state`;--> statement-breakpoint
+UPDATE `ticket` SET `connectionId` = (SELECT `id` FROM `provider_connection` WHERE `provider_connection`.`provider` = `ticket`.`provider`) WHERE `connectionId` IS NULL;--> statement-breakpoint
+DROP TABLE `provider_sync_state`;
\ No newline at end of file
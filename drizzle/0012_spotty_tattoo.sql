@@ -0,0 +1,6 @@
+CREATE TABLE `opencode_provider_key` (
+	`providerId` text(255) PRIMARY KEY NOT NULL,
+	`apiKey` text NOT NULL,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer
+);
@@ -0,0 +1,17 @@
+CREATE TABLE `repo_scan` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`repoPath` text(1000) NOT NULL,
+	`status` text(50) DEFAULT 'pending' NOT NULL,
+	`agentSessionId` text(255),
+	`summary` text,
+	`stackInfo` text,
+	`files` text DEFAULT '[]',
+	`potentialOwners` text DEFAULT '[]',
+	`findings` text DEFAULT '[]',
+	`error` text,
+	`startedAt` integer,
+	`completedAt` integer,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `repo_scan_repo_idx` ON `repo_scan` (`repoPath`,`createdAt`);
\ No newline at end of file
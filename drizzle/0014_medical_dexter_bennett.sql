@@ -0,0 +1,12 @@
+CREATE TABLE `ticket_link` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`ticketId` text(255) NOT NULL,
+	`type` text(50) NOT NULL,
+	`targetExternalId` text(255) NOT NULL,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`ticketId`) REFERENCES `ticket`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `link_ticket_idx` ON `ticket_link` (`ticketId`);--> statement-breakpoint
+CREATE INDEX `link_target_idx` ON `ticket_link` (`targetExternalId`);--> statement-breakpoint
+CREATE UNIQUE INDEX `link_unique_idx` ON `ticket_link` (`ticketId`,`type`,`targetExternalId`);
\ No newline at end of file
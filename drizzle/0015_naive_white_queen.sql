@@ -0,0 +1,2 @@
+ALTER TABLE `ticket` ADD `parentExternalId` text(255);--> statement-breakpoint
+CREATE INDEX `ticket_parent_idx` ON `ticket` (`parentExternalId`);
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `sprint_ticket` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`sprintId` text(255) NOT NULL,
+	`ticketId` text(255) NOT NULL,
+	`position` integer DEFAULT 0 NOT NULL,
+	`source` text(50) DEFAULT 'local' NOT NULL,
+	`addedAt` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`sprintId`) REFERENCES `sprint`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`ticketId`) REFERENCES `ticket`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `sprint_ticket_ticket_idx` ON `sprint_ticket` (`ticketId`);--> statement-breakpoint
+CREATE UNIQUE INDEX `sprint_ticket_unique_idx` ON `sprint_ticket` (`sprintId`,`ticketId`);--> statement-breakpoint
+CREATE TABLE `sprint` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`connectionId` text(255),
+	`externalId` text(255),
+	`name` text(255) NOT NULL,
+	`goal` text,
+	`state` text(50) DEFAULT 'future' NOT NULL,
+	`startDate` integer,
+	`endDate` integer,
+	`capacity` real,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer,
+	FOREIGN KEY (`connectionId`) REFERENCES `provider_connection`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `sprint_state_idx` ON `sprint` (`state`);--> statement-breakpoint
+CREATE UNIQUE INDEX `sprint_external_idx` ON `sprint` (`connectionId`,`externalId`);--> statement-breakpoint
+ALTER TABLE `ticket` ADD `estimate` real;
\ No newline at end of file
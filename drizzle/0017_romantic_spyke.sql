@@ -0,0 +1,20 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_provider_value_mapping` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`connectionId` text(255) NOT NULL,
+	`field` text(50) NOT NULL,
+	`externalValue` text(255) NOT NULL,
+	`internalValue` text(50),
+	`lastSeenAt` integer,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer,
+	FOREIGN KEY (`connectionId`) REFERENCES `provider_connection`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_provider_value_mapping`(`id`, `connectionId`, `field`, `externalValue`, `internalValue`, `lastSeenAt`, `createdAt`, `updatedAt`)
+SELECT lower(hex(randomblob(16))), `provider_connection`.`id`, `field`, `externalValue`, `internalValue`, `lastSeenAt`, `provider_value_mapping`.`createdAt`, `provider_value_mapping`.`updatedAt`
+FROM `provider_value_mapping` INNER JOIN `provider_connection` ON `provider_connection`.`provider` = `provider_value_mapping`.`provider`;--> statement-breakpoint
+DROP TABLE `provider_value_mapping`;--> statement-breakpoint
+ALTER TABLE `__new_provider_value_mapping` RENAME TO `provider_value_mapping`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `value_mapping_unique_idx` ON `provider_value_mapping` (`connectionId`,`field`,`externalValue`);
@@ -0,0 +1,273 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/trpc/react";
+
+type ImportField =
+	| "title"
+	| "description"
+	| "status"
+	| "priority"
+	| "assignee"
+	| "labels";
+type ImportMapping = Partial<Record<ImportField, string>>;
+
+const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+	{ field: "title", label: "Title" },
+	{ field: "description", label: "Description" },
+	{ field: "status", label: "Status" },
+	{ field: "priority", label: "Priority" },
+	{ field: "assignee", label: "Assignee" },
+	{ field: "labels", label: "Labels" },
+];
+
+// Select items cannot have an empty value
+const UNMAPPED = "__none__";
+
+interface ImportFile {
+	name: string;
+	format: "csv" | "json";
+	content: string;
+}
+
+interface ImportTicketsDialogProps {
+	onSuccess?: () => void;
+}
+
+export function ImportTicketsDialog({ onSuccess }: ImportTicketsDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [file, setFile] = useState<ImportFile | null>(null);
+	const [mapping, setMapping] = useState<ImportMapping>({});
+
+	const utils = api.useUtils();
+
+	const previewMutation = api.ticket.previewImport.useMutation({
+		onSuccess: (preview) => setMapping(preview.mapping),
+		onError: (error) => {
+			toast.error("Could not read file", { description: error.message });
+		},
+	});
+	const preview = previewMutation.data;
+
+	const reset = () => {
+		setFile(null);
+		setMapping({});
+		previewMutation.reset();
+	};
+
+	const importMutation = api.ticket.importTickets.useMutation({
+		onSuccess: ({ created, skipped }) => {
+			toast.success(
+				`Imported ${created} ticket${created === 1 ? "" : "s"}`,
+				skipped > 0
+					? { description: `${skipped} rows with errors were skipped` }
+					: undefined,
+			);
+			setOpen(false);
+			reset();
+			void utils.ticket.list.invalidate();
+			onSuccess?.();
+		},
+		onError: (error) => {
+			toast.error("Import failed", { description: error.message });
+		},
+	});
+
+	const handleFile = async (selected: File | undefined) => {
+		if (!selected) return;
+		const next: ImportFile = {
+			name: selected.name,
+			format: selected.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+			content: await selected.text(),
+		};
+		setFile(next);
+		// No mapping yet: the server suggests one from the column names
+		previewMutation.mutate({ format: next.format, content: next.content });
+	};
+
+	const handleMappingChange = (field: ImportField, column: string) => {
+		if (!file) return;
+		const next = { ...mapping };
+		if (column === UNMAPPED) {
+			delete next[field];
+		} else {
+			next[field] = column;
+		}
+		setMapping(next);
+		previewMutation.mutate({
+			format: file.format,
+			content: file.content,
+			mapping: next,
+		});
+	};
+
+	return (
+		<Dialog
+			onOpenChange={(next) => {
+				setOpen(next);
+				if (!next) reset();
+			}}
+			open={open}
+		>
+			<DialogTrigger asChild>
+				<Button size="sm" variant="outline">
+					Import
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="border-border/40 bg-background sm:max-w-2xl">
+				<DialogHeader>
+					<DialogTitle className="font-semibold text-lg">
+						Import Tickets
+					</DialogTitle>
+					<DialogDescription>
+						Upload a CSV file with a header row or a JSON array of objects. Rows
+						are added as manual tickets.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="mt-4 space-y-4">
+					<input
+						accept=".csv,.json,text/csv,application/json"
+						className="block w-full text-muted-foreground text-sm file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-1.5 file:text-foreground file:text-sm"
+						onChange={(e) => void handleFile(e.target.files?.[0])}
+						type="file"
+					/>
+
+					{file && preview && (
+						<>
+							<div className="space-y-2">
+								<span className="text-muted-foreground text-xs uppercase tracking-wider">
+									Columns
+								</span>
+								<div className="grid grid-cols-2 gap-x-4 gap-y-2">
+									{IMPORT_FIELDS.map(({ field, label }) => (
+										<div className="flex items-center gap-2" key={field}>
+											<span className="w-24 shrink-0 text-sm">{label}</span>
+											<Select
+												onValueChange={(v) => handleMappingChange(field, v)}
+												value={mapping[field] ?? UNMAPPED}
+											>
+												<SelectTrigger className="h-8 flex-1 text-xs">
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													<SelectItem value={UNMAPPED}>Not imported</SelectItem>
+													{preview.columns.map((column) => (
+														<SelectItem key={column} value={column}>
+															{column}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+										</div>
+									))}
+								</div>
+							</div>
+
+							<div className="flex items-center gap-2 text-sm">
+								<Badge className="font-normal" variant="secondary">
+									{preview.validCount} ready
+								</Badge>
+								{preview.errors.length > 0 && (
+									<Badge className="font-normal" variant="destructive">
+										{preview.errors.length} with errors
+									</Badge>
+								)}
+								<span className="text-muted-foreground text-xs">
+									of {preview.rowCount} rows in {file.name}
+								</span>
+							</div>
+
+							{preview.errors.length > 0 && (
+								<ScrollArea className="max-h-40 rounded-md border border-border/40">
+									<div className="divide-y divide-border/40 text-sm">
+										{preview.errors.map((error) => (
+											<div className="flex gap-3 px-3 py-1.5" key={error.row}>
+												<span className="w-14 shrink-0 text-muted-foreground tabular-nums">
+													Row {error.row}
+												</span>
+												<span>{error.message}</span>
+											</div>
+										))}
+									</div>
+								</ScrollArea>
+							)}
+
+							{preview.sample.length > 0 && (
+								<div className="space-y-1">
+									<span className="text-muted-foreground text-xs uppercase tracking-wider">
+										Preview
+									</span>
+									{preview.sample.map((ticket) => (
+										<div
+											className="flex items-center gap-2 text-sm"
+											key={ticket.row}
+										>
+											<span className="min-w-0 flex-1 truncate">
+												{ticket.title}
+											</span>
+											<span className="text-muted-foreground text-xs">
+												{ticket.status.replace("_", " ")} · {ticket.priority}
+												{ticket.assignee ? ` · ${ticket.assignee}` : ""}
+											</span>
+										</div>
+									))}
+								</div>
+							)}
+						</>
+					)}
+
+					<div className="flex justify-end gap-2 pt-4">
+						<Button
+							onClick={() => setOpen(false)}
+							type="button"
+							variant="outline"
+						>
+							Cancel
+						</Button>
+						<Button
+							disabled={
+								!file ||
+								!mapping.title ||
+								!preview?.validCount ||
+								previewMutation.isPending ||
+								importMutation.isPending
+							}
+							onClick={() =>
+								file &&
+								importMutation.mutate({
+									format: file.format,
+									content: file.content,
+									mapping,
+								})
+							}
+						>
+							{importMutation.isPending
+								? "Importing..."
+								: `Import ${preview?.validCount ?? 0} tickets`}
+						</Button>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
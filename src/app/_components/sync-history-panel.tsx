@@ -0,0 +1,117 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { api } from "@/trpc/react";
+
+function formatDuration(startedAt: Date, finishedAt: Date): string {
+	const ms = new Date(finishedAt).getTime() - new Date(startedAt).getTime();
+	return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Distinct error messages in first-seen order, each with how often it occurred */
+function countErrors(errors: string[]): [string, number][] {
+	const counts = new Map<string, number>();
+	for (const error of errors) {
+		counts.set(error, (counts.get(error) ?? 0) + 1);
+	}
+	return Array.from(counts);
+}
+
+export function SyncHistoryPanel() {
+	const utils = api.useUtils();
+	const syncRunsQuery = api.ticket.getSyncRuns.useQuery({ limit: 10 });
+	const scheduleQuery = api.ticket.getSyncSchedule.useQuery(undefined, {
+		refetchInterval: 60_000,
+	});
+	const pauseMutation = api.ticket.setSyncSchedulePaused.useMutation({
+		onSuccess: (schedule) => {
+			utils.ticket.getSyncSchedule.setData(undefined, schedule);
+		},
+	});
+
+	const runs = syncRunsQuery.data ?? [];
+	const schedule = scheduleQuery.data ?? [];
+	const allPaused = schedule.length > 0 && schedule.every((s) => s.paused);
+
+	if (runs.length === 0 && schedule.length === 0) return null;
+
+	return (
+		<div className="mb-8 rounded-lg border border-border/40 bg-card/30 px-4 py-3">
+			<div className="flex flex-wrap items-center gap-3">
+				<span className="text-muted-foreground text-xs uppercase tracking-wider">
+					Recent syncs
+				</span>
+				{schedule.map((s) => (
+					<span className="text-muted-foreground text-xs" key={s.connectionId}>
+						{s.connectionName} every {s.intervalMinutes}m
+						{s.paused
+							? " · paused"
+							: s.running
+								? " · running"
+								: s.nextRunAt &&
+									` · next ${new Date(s.nextRunAt).toLocaleTimeString()}`}
+					</span>
+				))}
+				{schedule.length > 0 && (
+					<Button
+						className="ml-auto h-7 text-xs"
+						disabled={pauseMutation.isPending}
+						onClick={() => pauseMutation.mutate({ paused: !allPaused })}
+						size="sm"
+						variant="ghost"
+					>
+						{allPaused ? "Resume schedule" : "Pause schedule"}
+					</Button>
+				)}
+			</div>
+			<div className="mt-2 divide-y divide-border/40">
+				{runs.map((run) => (
+					<div className="py-2 text-sm" key={run.id}>
+						<div className="flex flex-wrap items-center gap-3">
+							<Badge
+								className="font-normal"
+								variant={run.errored > 0 ? "destructive" : "secondary"}
+							>
+								{run.connection?.name ?? run.provider}
+							</Badge>
+							<span className="text-muted-foreground tabular-nums">
+								{new Date(run.startedAt).toLocaleString()}
+							</span>
+							<span className="text-muted-foreground text-xs tabular-nums">
+								{formatDuration(run.startedAt, run.finishedAt)}
+								{run.incremental ? " · incremental" : " · full"}
+							</span>
+							<span className="tabular-nums">
+								{run.fetched} fetched, {run.created} created, {run.updated}{" "}
+								updated
+								{run.orphaned > 0 && `, ${run.orphaned} orphaned`}
+								{run.conflicts > 0 && `, ${run.conflicts} conflicts`}
+							</span>
+							{run.errored > 0 && (
+								<span className="text-destructive tabular-nums">
+									{run.errored} errors
+								</span>
+							)}
+						</div>
+						{run.errors && run.errors.length > 0 && (
+							<details className="mt-1.5">
+								<summary className="cursor-pointer text-muted-foreground text-xs">
+									Show errors
+								</summary>
+								<ul className="mt-1 space-y-0.5 font-mono text-destructive text-xs">
+									{countErrors(run.errors).map(([error, times]) => (
+										<li key={error}>
+											{error}
+											{times > 1 && ` (×${times})`}
+										</li>
+									))}
+								</ul>
+							</details>
+						)}
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -6,26 +6,47 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { TabsContent } from "@/components/ui/tabs";
 import type {
+	TicketLinkType,
+	ticketComments,
 	ticketMessages,
 	ticketRankings,
 	ticketRecommendations,
 	tickets,
 } from "@/server/db/schema";
+import type { TicketChild, TicketLink, TicketProgress } from "@/types";
+import { STATUS_STYLES } from "./constants";
+import { TicketProgressBar } from "./ticket-progress";
+import { TicketSyncConflicts } from "./ticket-sync-conflicts";
 
 type Ticket = typeof tickets.$inferSelect & {
 	recommendations?: (typeof ticketRecommendations.$inferSelect)[];
 	rankings?: (typeof ticketRankings.$inferSelect)[];
 	messages?: (typeof ticketMessages.$inferSelect)[];
+	comments?: (typeof ticketComments.$inferSelect)[];
+	links?: TicketLink[];
+	children?: TicketChild[];
+	progress?: TicketProgress;
+};
+
+const LINK_TYPE_LABELS: Record<TicketLinkType, string> = {
+	blocks: "Blocks",
+	"blocked-by": "Blocked by",
+	duplicates: "Duplicates",
+	"duplicated-by": "Duplicated by",
+	"relates-to": "Relates to",
 };
 
 interface TicketDetailsTabProps {
 	ticket: Ticket;
 	latestRanking?: typeof ticketRankings.$inferSelect | null;
+	// Open a linked, parent or child ticket in the modal
+	onSelectTicket: (ticketId: string) => void;
 }
 
 export function TicketDetailsTab({
 	ticket,
 	latestRanking,
+	onSelectTicket,
 }: TicketDetailsTabProps) {
 	return (
 		<TabsContent
@@ -33,6 +54,13 @@ export function TicketDetailsTab({
 			value="details"
 		>
 			<div className="space-y-6">
+				{ticket.provider !== "manual" && (
+					<TicketSyncConflicts
+						provider={ticket.provider}
+						ticketId={ticket.id}
+					/>
+				)}
+
 				{/* Metadata */}
 				<div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
 					<div>
@@ -91,6 +119,97 @@ export function TicketDetailsTab({
 					</div>
 				)}
 
+				{/* Linked Tickets */}
+				{ticket.links && ticket.links.length > 0 && (
+					<div>
+						<span className="text-muted-foreground text-xs uppercase tracking-wider">
+							Linked tickets
+						</span>
+						<div className="mt-2 space-y-1.5">
+							{ticket.links.map((link) => (
+								<div
+									className="grid grid-cols-[7rem_auto_1fr_auto] items-center gap-3 text-sm"
+									key={link.id}
+								>
+									<span
+										className={
+											link.type === "blocked-by"
+												? "text-amber-600 dark:text-amber-400"
+												: "text-muted-foreground"
+										}
+									>
+										{LINK_TYPE_LABELS[link.type]}
+									</span>
+									<span className="font-mono text-xs">
+										{link.targetExternalId}
+									</span>
+									{link.target ? (
+										<button
+											className="truncate text-left hover:underline"
+											onClick={() =>
+												link.target && onSelectTicket(link.target.id)
+											}
+											type="button"
+										>
+											{link.target.title}
+										</button>
+									) : (
+										<span className="text-muted-foreground">Not synced</span>
+									)}
+									{link.target && (
+										<Badge
+											className={`font-normal text-xs ${STATUS_STYLES[link.target.status]}`}
+											variant="secondary"
+										>
+											{link.target.status.replace("_", " ")}
+										</Badge>
+									)}
+								</div>
+							))}
+						</div>
+					</div>
+				)}
+
+				{/* Child Tickets */}
+				{ticket.children && ticket.children.length > 0 && (
+					<div>
+						<div className="flex items-center justify-between gap-3">
+							<span className="text-muted-foreground text-xs uppercase tracking-wider">
+								Child tickets ({ticket.children.length})
+							</span>
+							{ticket.progress && (
+								<TicketProgressBar progress={ticket.progress} />
+							)}
+						</div>
+						<div className="mt-2 space-y-1.5">
+							{ticket.children.map((child) => (
+								<button
+									className="grid w-full grid-cols-[auto_1fr_auto_auto] items-center gap-3 rounded-md px-2 py-1 text-left text-sm hover:bg-secondary/40"
+									key={child.id}
+									onClick={() => onSelectTicket(child.id)}
+									type="button"
+								>
+									<span className="font-mono text-muted-foreground text-xs">
+										{child.externalId}
+									</span>
+									<span className="truncate">{child.title}</span>
+									{child.progress.total > 0 ? (
+										<TicketProgressBar progress={child.progress} />
+									) : (
+										<span />
+									)}
+									<Badge
+										className={`font-normal text-xs ${STATUS_STYLES[child.status]}`}
+										variant="secondary"
+									>
+										{child.status.replace("_", " ")}
+									</Badge>
+								</button>
+							))}
+						</div>
+					</div>
+				)}
+
 				<div className="h-px bg-border/40" />
 
 				{/* Description */}
@@ -105,6 +224,40 @@ export function TicketDetailsTab({
 					</div>
 				</div>
 
+				{/* Provider Comments */}
+				{ticket.comments && ticket.comments.length > 0 && (
+					<>
+						<div className="h-px bg-border/40" />
+						<div>
+							<span className="text-muted-foreground text-xs uppercase tracking-wider">
+								Comments ({ticket.comments.length})
+							</span>
+							<div className="mt-3 space-y-4">
+								{ticket.comments.map((comment) => (
+									<div
+										className="border-border/60 border-l-2 pl-3"
+										key={comment.id}
+									>
+										<div className="flex items-center gap-2 text-xs">
+											<span className="font-medium">
+												{comment.author ?? "Unknown"}
+											</span>
+											<span className="text-muted-foreground tabular-nums">
+												{new Date(comment.createdAt).toLocaleString()}
+											</span>
+										</div>
+										<div className="prose prose-sm prose-invert mt-1 max-w-none prose-code:rounded prose-code:bg-secondary prose-code:px-1 prose-code:py-0.5 prose-code:text-foreground prose-p:text-muted-foreground prose-code:before:content-none prose-code:after:content-none">
+											<Markdown rehypePlugins={[rehypeSanitize]}>
+												{comment.body}
+											</Markdown>
+										</div>
+									</div>
+								))}
+							</div>
+						</div>
+					</>
+				)}
+
 				{/* AI Ranking Details */}
 				{latestRanking && (
 					<>
@@ -71,6 +71,11 @@ export function TicketModal({
 		updateSearchParams({ tab });
 	};
 
+	// Moving to a parent, child or linked ticket keeps the modal open
+	const selectTicket = (ticketId: string) => {
+		updateSearchParams({ ticketId });
+	};
+
 	const [opencodeChatSessionId, setOpencodeChatSessionId] = useState<
 		string | null
 	>(null);
@@ -191,6 +196,24 @@ export function TicketModal({
 				<DialogHeader className="shrink-0 border-border/40 border-b px-6 py-4">
 					<DialogTitle className="flex items-start justify-between gap-4">
 						<div className="min-w-0 flex-1">
+							{fullTicket?.ancestors && fullTicket.ancestors.length > 0 && (
+								<nav className="mb-1 flex flex-wrap items-center gap-1 font-normal text-muted-foreground text-xs">
+									{fullTicket.ancestors.map((ancestor) => (
+										<span className="flex items-center gap-1" key={ancestor.id}>
+											<button
+												className="max-w-[16rem] truncate hover:text-foreground hover:underline"
+												onClick={() => selectTicket(ancestor.id)}
+												title={ancestor.title}
+												type="button"
+											>
+												<span className="font-mono">{ancestor.externalId}</span>{" "}
+												{ancestor.title}
+											</button>
+											<span aria-hidden="true">/</span>
+										</span>
+									))}
+								</nav>
+							)}
 							<h2 className="truncate font-semibold text-lg">{ticket.title}</h2>
 							<div className="mt-2 flex flex-wrap items-center gap-2">
 								<Badge
@@ -205,14 +228,22 @@ export function TicketModal({
 								>
 									{ticket.priority}
 								</Badge>
-								<span className="text-muted-foreground text-xs capitalize">
-									via {ticket.provider}
+								<span className="text-muted-foreground text-xs">
+									via{" "}
+									{ticket.connection?.name ?? (
+										<span className="capitalize">{ticket.provider}</span>
+									)}
 								</span>
 								{ticket.externalId && (
 									<span className="font-mono text-muted-foreground text-xs">
 										#{ticket.externalId}
 									</span>
 								)}
+								{ticket.archivedAt && (
+									<Badge className="font-normal text-xs" variant="outline">
+										no longer in {ticket.connection?.name ?? ticket.provider}
+									</Badge>
+								)}
 							</div>
 						</div>
 						{latestRanking && (
@@ -251,6 +282,7 @@ export function TicketModal({
 					{fullTicket && (
 						<TicketDetailsTab
 							latestRanking={latestRanking}
+							onSelectTicket={selectTicket}
 							ticket={fullTicket}
 						/>
 					)}
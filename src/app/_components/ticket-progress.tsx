@@ -0,0 +1,36 @@
+"use client";
+
+import type { TicketProgress } from "@/types";
+
+interface TicketProgressBarProps {
+	progress: TicketProgress;
+	className?: string;
+}
+
+/**
+ * Finished child tickets out of all descendants, as a bar and a count
+ */
+export function TicketProgressBar({
+	progress,
+	className,
+}: TicketProgressBarProps) {
+	const percent =
+		progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+	return (
+		<div
+			className={`flex items-center gap-2 ${className ?? ""}`}
+			title={`${progress.done} of ${progress.total} done`}
+		>
+			<div className="h-1.5 w-20 overflow-hidden rounded-full bg-secondary">
+				<div
+					className="h-full rounded-full bg-emerald-500"
+					style={{ width: `${percent}%` }}
+				/>
+			</div>
+			<span className="text-muted-foreground text-xs tabular-nums">
+				{progress.done}/{progress.total}
+			</span>
+		</div>
+	);
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { TicketProvider } from "@/server/db/schema";
+import { api } from "@/trpc/react";
+
+interface TicketSyncConflictsProps {
+	ticketId: string;
+	provider: TicketProvider;
+}
+
+function formatValue(value: unknown): string {
+	if (value === null || value === undefined || value === "") return "(empty)";
+	if (Array.isArray(value)) return value.length ? value.join(", ") : "(none)";
+	return String(value).replace("_", " ");
+}
+
+export function TicketSyncConflicts({
+	ticketId,
+	provider,
+}: TicketSyncConflictsProps) {
+	const utils = api.useUtils();
+	const conflictsQuery = api.ticket.getSyncConflicts.useQuery({ ticketId });
+
+	const resolveMutation = api.ticket.resolveSyncConflict.useMutation({
+		onSuccess: () => {
+			void utils.ticket.getSyncConflicts.invalidate({ ticketId });
+			void utils.ticket.byId.invalidate({ id: ticketId });
+			void utils.ticket.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error("Failed to resolve conflict", {
+				description: error.message,
+			});
+		},
+	});
+
+	const conflicts = conflictsQuery.data ?? [];
+	if (conflicts.length === 0) return null;
+
+	return (
+		<div className="rounded-lg border border-amber-500/40 bg-amber-500/5 p-4">
+			<span className="text-amber-600 text-xs uppercase tracking-wider dark:text-amber-400">
+				Sync conflicts
+			</span>
+			<p className="mt-1 text-muted-foreground text-sm">
+				These fields changed here and in {provider} since the last sync.
+			</p>
+			<div className="mt-3 space-y-3">
+				{conflicts.map((conflict) => (
+					<div
+						className="grid grid-cols-[6rem_1fr_1fr] items-start gap-3 text-sm"
+						key={conflict.id}
+					>
+						<span className="text-muted-foreground capitalize">
+							{conflict.field}
+						</span>
+						<div className="min-w-0 space-y-1.5">
+							<p className="line-clamp-3 break-words">
+								{formatValue(conflict.localValue)}
+							</p>
+							<Button
+								disabled={resolveMutation.isPending}
+								onClick={() =>
+									resolveMutation.mutate({ id: conflict.id, keep: "local" })
+								}
+								size="sm"
+								variant="outline"
+							>
+								Keep local
+							</Button>
+						</div>
+						<div className="min-w-0 space-y-1.5">
+							<p className="line-clamp-3 break-words">
+								{formatValue(conflict.providerValue)}
+							</p>
+							<Button
+								className="capitalize"
+								disabled={resolveMutation.isPending}
+								onClick={() =>
+									resolveMutation.mutate({
+										id: conflict.id,
+										keep: "provider",
+									})
+								}
+								size="sm"
+								variant="outline"
+							>
+								Use {provider}
+							</Button>
+						</div>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -14,12 +14,19 @@ interface ControlBarProps {
 	sortBy: "createdAt" | "priority" | "aiScore";
 	sortOrder: "asc" | "desc";
 	statusFilter: string;
+	connectionFilter: string;
+	groupBy: "none" | "epic";
+	connections: { id: string; name: string }[];
 	onViewModeChange: (view: "standard" | "ai-ranked") => void;
 	onSortByChange: (sort: "createdAt" | "priority" | "aiScore") => void;
 	onSortOrderChange: (order: "asc" | "desc") => void;
 	onStatusFilterChange: (status: string) => void;
+	onConnectionFilterChange: (connectionId: string) => void;
+	onGroupByChange: (group: "none" | "epic") => void;
 	onRankAll: () => void;
+	onExport: (format: "csv" | "json" | "markdown") => void;
 	isRanking: boolean;
+	isExporting: boolean;
 	hasTickets: boolean;
 }
 
@@ -28,12 +35,19 @@ export function ControlBar({
 	sortBy,
 	sortOrder,
 	statusFilter,
+	connectionFilter,
+	groupBy,
+	connections,
 	onViewModeChange,
 	onSortByChange,
 	onSortOrderChange,
 	onStatusFilterChange,
+	onConnectionFilterChange,
+	onGroupByChange,
 	onRankAll,
+	onExport,
 	isRanking,
+	isExporting,
 	hasTickets,
 }: ControlBarProps) {
 	return (
@@ -105,10 +119,69 @@ export function ControlBar({
 							</SelectContent>
 						</Select>
 					</div>
+
+					<div className="flex items-center gap-2">
+						<span className="text-muted-foreground text-xs uppercase tracking-wider">
+							Group
+						</span>
+						<Select
+							onValueChange={(v) => onGroupByChange(v as typeof groupBy)}
+							value={groupBy}
+						>
+							<SelectTrigger className="h-8 w-[100px] text-xs">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="none">None</SelectItem>
+								<SelectItem value="epic">Epic</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+
+					{connections.length > 1 && (
+						<div className="flex items-center gap-2">
+							<span className="text-muted-foreground text-xs uppercase tracking-wider">
+								Source
+							</span>
+							<Select
+								onValueChange={onConnectionFilterChange}
+								value={connectionFilter}
+							>
+								<SelectTrigger className="h-8 w-[140px] text-xs">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="all">All</SelectItem>
+									{connections.map((connection) => (
+										<SelectItem key={connection.id} value={connection.id}>
+											{connection.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					)}
 				</>
 			)}
 
-			<div className="ml-auto">
+			<div className="ml-auto flex items-center gap-2">
+				{/* Acts as a menu: picking a format starts the download */}
+				<Select
+					disabled={isExporting || !hasTickets}
+					onValueChange={(v) => onExport(v as "csv" | "json" | "markdown")}
+					value=""
+				>
+					<SelectTrigger className="h-8 w-[110px] text-xs">
+						<SelectValue
+							placeholder={isExporting ? "Exporting..." : "Export"}
+						/>
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value="csv">CSV</SelectItem>
+						<SelectItem value="json">JSON</SelectItem>
+						<SelectItem value="markdown">Markdown report</SelectItem>
+					</SelectContent>
+				</Select>
 				<Button
 					disabled={isRanking || !hasTickets}
 					onClick={onRankAll}
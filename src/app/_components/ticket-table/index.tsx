@@ -1,5 +1,7 @@
 "use client";
 
+import { Fragment, useState } from "react";
+import { toast } from "sonner";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
 	Table,
@@ -11,6 +13,7 @@ import {
 } from "@/components/ui/table";
 import { api } from "@/trpc/react";
 import type { TicketWithRelations } from "@/types";
+import { TicketProgressBar } from "../ticket-progress";
 import { ControlBar } from "./control-bar";
 import { TicketRow } from "./table-row";
 
@@ -18,48 +21,68 @@ type Ticket = TicketWithRelations;
 
 interface TicketTableProps {
 	onTicketSelect: (ticket: Ticket) => void;
+	// Open a ticket that is not a loaded row, such as an epic heading
+	onTicketOpen: (ticketId: string) => void;
 	viewMode: "standard" | "ai-ranked";
 	sortBy: "createdAt" | "priority" | "aiScore";
 	sortOrder: "asc" | "desc";
 	statusFilter: string;
+	connectionFilter: string;
+	groupBy: "none" | "epic";
 	onViewModeChange: (view: "standard" | "ai-ranked") => void;
 	onSortByChange: (sort: "createdAt" | "priority" | "aiScore") => void;
 	onSortOrderChange: (order: "asc" | "desc") => void;
 	onStatusFilterChange: (status: string) => void;
+	onConnectionFilterChange: (connectionId: string) => void;
+	onGroupByChange: (group: "none" | "epic") => void;
 	pendingAskTicketIds: Set<string>;
 }
 
 export function TicketTable({
 	onTicketSelect,
+	onTicketOpen,
 	viewMode,
 	sortBy,
 	sortOrder,
 	statusFilter,
+	connectionFilter,
+	groupBy,
 	onViewModeChange,
 	onSortByChange,
 	onSortOrderChange,
 	onStatusFilterChange,
+	onConnectionFilterChange,
+	onGroupByChange,
 	pendingAskTicketIds,
 }: TicketTableProps) {
+	const connectionsQuery = api.ticket.getConnections.useQuery();
+
+	const listFilters = {
+		sortBy,
+		sortOrder,
+		status:
+			statusFilter !== "all"
+				? (statusFilter as
+						| "open"
+						| "in_progress"
+						| "review"
+						| "done"
+						| "closed")
+				: undefined,
+		connectionId: connectionFilter !== "all" ? connectionFilter : undefined,
+	};
+
 	const ticketsQuery = api.ticket.list.useQuery(
-		viewMode === "ai-ranked"
-			? undefined
-			: {
-					sortBy,
-					sortOrder,
-					status:
-						statusFilter !== "all"
-							? (statusFilter as
-									| "open"
-									| "in_progress"
-									| "review"
-									| "done"
-									| "closed")
-							: undefined,
-				},
+		viewMode === "ai-ranked" ? undefined : listFilters,
 		{ refetchInterval: 30000 },
 	);
 
+	const groupByEpic = viewMode === "standard" && groupBy === "epic";
+	const epicGroupsQuery = api.ticket.listByEpic.useQuery(listFilters, {
+		enabled: groupByEpic,
+		refetchInterval: 30000,
+	});
+
 	const aiRankedQuery = api.ticket.listByAIRank.useQuery(
 		{ limit: 50 },
 		{ enabled: viewMode === "ai-ranked" },
@@ -79,10 +102,60 @@ export function TicketTable({
 		},
 	});
 
+	const utils = api.useUtils();
+	const [isExporting, setIsExporting] = useState(false);
+
+	const handleExport = async (format: "csv" | "json" | "markdown") => {
+		setIsExporting(true);
+		try {
+			// The AI-ranked view is unfiltered and ordered by score
+			const file = await utils.ticket.exportTickets.fetch(
+				viewMode === "ai-ranked"
+					? { format, sortBy: "aiScore", sortOrder: "desc" }
+					: { format, ...listFilters },
+			);
+			const url = URL.createObjectURL(
+				new Blob([file.content], { type: file.mimeType }),
+			);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = file.filename;
+			link.click();
+			URL.revokeObjectURL(url);
+			if (file.total > file.count) {
+				toast.warning(
+					`Exported the first ${file.count} of ${file.total} tickets`,
+					{ description: "Narrow the filters to export the rest." },
+				);
+			}
+		} catch (error) {
+			toast.error("Export failed", {
+				description: error instanceof Error ? error.message : undefined,
+			});
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
 	const tickets =
 		viewMode === "ai-ranked" ? aiRankedQuery.data : ticketsQuery.data;
 	const isLoading =
-		viewMode === "ai-ranked" ? aiRankedQuery.isLoading : ticketsQuery.isLoading;
+		viewMode === "ai-ranked"
+			? aiRankedQuery.isLoading
+			: groupByEpic
+				? epicGroupsQuery.isLoading
+				: ticketsQuery.isLoading;
+	const columnCount = viewMode === "ai-ranked" ? 6 : 5;
+
+	const renderRow = (ticket: Ticket) => (
+		<TicketRow
+			isPendingAnalysis={pendingAskTicketIds.has(ticket.id)}
+			key={ticket.id}
+			onSelect={() => onTicketSelect(ticket)}
+			showAiScore={viewMode === "ai-ranked"}
+			ticket={ticket}
+		/>
+	);
 
 	const handleRankAll = () => {
 		if (!ticketsQuery.data?.length) return;
@@ -105,8 +178,15 @@ export function TicketTable({
 	return (
 		<div className="space-y-4">
 			<ControlBar
+				connectionFilter={connectionFilter}
+				connections={connectionsQuery.data ?? []}
+				groupBy={groupBy}
 				hasTickets={!!ticketsQuery.data?.length}
+				isExporting={isExporting}
 				isRanking={rankMutation.isPending}
+				onConnectionFilterChange={onConnectionFilterChange}
+				onExport={(format) => void handleExport(format)}
+				onGroupByChange={onGroupByChange}
 				onRankAll={handleRankAll}
 				onSortByChange={onSortByChange}
 				onSortOrderChange={onSortOrderChange}
@@ -145,25 +225,50 @@ export function TicketTable({
 						</TableRow>
 					</TableHeader>
 					<TableBody>
-						{tickets?.length === 0 ? (
+						{(groupByEpic ? epicGroupsQuery.data : tickets)?.length === 0 ? (
 							<TableRow>
 								<TableCell
 									className="py-12 text-center text-muted-foreground"
-									colSpan={viewMode === "ai-ranked" ? 6 : 5}
+									colSpan={columnCount}
 								>
 									No tickets found. Create one or sync from a provider.
 								</TableCell>
 							</TableRow>
-						) : (
-							tickets?.map((ticket) => (
-								<TicketRow
-									isPendingAnalysis={pendingAskTicketIds.has(ticket.id)}
-									key={ticket.id}
-									onSelect={() => onTicketSelect(ticket)}
-									showAiScore={viewMode === "ai-ranked"}
-									ticket={ticket}
-								/>
+						) : groupByEpic ? (
+							epicGroupsQuery.data?.map((group) => (
+								<Fragment key={group.epic?.id ?? "no-epic"}>
+									<TableRow className="border-border/40 bg-secondary/20 hover:bg-secondary/30">
+										<TableCell className="py-2" colSpan={columnCount}>
+											{group.epic ? (
+												<div className="flex items-center justify-between gap-4">
+													<button
+														className="min-w-0 truncate text-left font-medium text-sm hover:underline"
+														onClick={() =>
+															group.epic && onTicketOpen(group.epic.id)
+														}
+														type="button"
+													>
+														<span className="mr-2 font-mono text-muted-foreground text-xs">
+															{group.epic.externalId}
+														</span>
+														{group.epic.title}
+													</button>
+													{group.progress && (
+														<TicketProgressBar progress={group.progress} />
+													)}
+												</div>
+											) : (
+												<span className="text-muted-foreground text-xs uppercase tracking-wider">
+													No epic
+												</span>
+											)}
+										</TableCell>
+									</TableRow>
+									{group.tickets.map(renderRow)}
+								</Fragment>
 							))
+						) : (
+							tickets?.map(renderRow)
 						)}
 					</TableBody>
 				</Table>
@@ -74,8 +74,10 @@ export function TicketRow({
 				</Badge>
 			</TableCell>
 			<TableCell>
-				<span className="text-muted-foreground text-xs capitalize">
-					{ticket.provider}
+				<span className="text-muted-foreground text-xs">
+					{ticket.connection?.name ?? (
+						<span className="capitalize">{ticket.provider}</span>
+					)}
 				</span>
 			</TableCell>
 			{showAiScore && (
@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import { env } from "@/env";
 import { getOpencodeClient } from "@/lib/opencode-client";
+import {
+	listOpencodeProviderKeys,
+	saveOpencodeProviderKey,
+} from "@/server/opencode/provider-keys";
 
 async function configureProviderAuth(providerId: string, apiKey: string) {
 	const client = getOpencodeClient();
@@ -20,21 +24,31 @@ async function configureProviderAuth(providerId: string, apiKey: string) {
 	return true;
 }
 
-// GET /api/opencode/auth - Auto-configure auth from env vars
+// GET /api/opencode/auth - Auto-configure auth from env vars and stored keys
 export async function GET() {
-	const providerId = env.OPENCODE_PROVIDER_ID;
-	const apiKey = env.OPENCODE_PROVIDER_API_KEY;
-
-	if (!providerId || !apiKey) {
-		return NextResponse.json({
-			configured: false,
-			message:
-				"No provider credentials in environment. Set OPENCODE_PROVIDER_ID and OPENCODE_PROVIDER_API_KEY.",
-		});
+	const credentials = new Map<string, string>();
+	if (env.OPENCODE_PROVIDER_ID && env.OPENCODE_PROVIDER_API_KEY) {
+		credentials.set(env.OPENCODE_PROVIDER_ID, env.OPENCODE_PROVIDER_API_KEY);
 	}
 
 	try {
-		await configureProviderAuth(providerId, apiKey);
+		// Keys entered through POST take precedence over the environment
+		for (const { providerId, apiKey } of await listOpencodeProviderKeys()) {
+			credentials.set(providerId, apiKey);
+		}
+
+		if (credentials.size === 0) {
+			return NextResponse.json({
+				configured: false,
+				message:
+					"No provider credentials stored or in environment. Set OPENCODE_PROVIDER_ID and OPENCODE_PROVIDER_API_KEY.",
+			});
+		}
+
+		for (const [providerId, apiKey] of credentials) {
+			await configureProviderAuth(providerId, apiKey);
+		}
+		const providerId = Array.from(credentials.keys()).join(", ");
 		return NextResponse.json({
 			configured: true,
 			providerId,
@@ -49,7 +63,8 @@ export async function GET() {
 	}
 }
 
-// POST /api/opencode/auth - Set API key for a provider manually
+// POST /api/opencode/auth - Set API key for a provider manually; the key is
+// stored encrypted and re-applied by GET after opencode restarts
 export async function POST(request: Request) {
 	try {
 		const body = await request.json();
@@ -63,6 +78,7 @@ export async function POST(request: Request) {
 		}
 
 		await configureProviderAuth(providerId, key);
+		await saveOpencodeProviderKey(providerId, key);
 		return NextResponse.json({
 			success: true,
 			message: `API key configured for provider: ${providerId}`,
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { env } from "@/env";
+import {
+	verifyHmacSignature,
+	verifySharedSecret,
+} from "@/server/tickets/webhook-signature";
+import { handleProviderWebhook } from "@/server/tickets/webhooks";
+
+// POST /api/webhooks/jira - Receive Jira issue events
+// Register with a secret (signed via X-Hub-Signature) or append ?secret=<JIRA_WEBHOOK_SECRET>
+// With several Jira connections, append ?connection=<connection id> as well
+export async function POST(request: Request) {
+	const secret = env.JIRA_WEBHOOK_SECRET;
+	if (!secret) {
+		return NextResponse.json(
+			{ error: "JIRA_WEBHOOK_SECRET is not configured" },
+			{ status: 503 },
+		);
+	}
+
+	const rawBody = await request.text();
+	const signature = request.headers.get("x-hub-signature");
+	const verified = signature
+		? verifyHmacSignature(rawBody, secret, signature)
+		: verifySharedSecret(
+				secret,
+				new URL(request.url).searchParams.get("secret"),
+			);
+
+	if (!verified) {
+		return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+	}
+
+	// A malformed body will never parse, so do not invite retries with a 500
+	let payload: unknown;
+	try {
+		payload = JSON.parse(rawBody);
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+	}
+
+	try {
+		const result = await handleProviderWebhook(
+			"jira",
+			payload,
+			new URL(request.url).searchParams.get("connection"),
+		);
+		return NextResponse.json(result);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error";
+		console.error("[webhooks/jira] Failed to handle event:", error);
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { env } from "@/env";
+import { verifyHmacSignature } from "@/server/tickets/webhook-signature";
+import { handleProviderWebhook } from "@/server/tickets/webhooks";
+
+// Linear recommends rejecting deliveries older than a minute to prevent replays
+const MAX_WEBHOOK_AGE_MS = 60_000;
+
+// POST /api/webhooks/linear - Receive Linear issue events
+// With several Linear workspaces, append ?connection=<connection id> to the URL
+export async function POST(request: Request) {
+	const secret = env.LINEAR_WEBHOOK_SECRET;
+	if (!secret) {
+		return NextResponse.json(
+			{ error: "LINEAR_WEBHOOK_SECRET is not configured" },
+			{ status: 503 },
+		);
+	}
+
+	const rawBody = await request.text();
+	if (
+		!verifyHmacSignature(
+			rawBody,
+			secret,
+			request.headers.get("linear-signature"),
+		)
+	) {
+		return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+	}
+
+	// A malformed body will never parse, so do not invite retries with a 500
+	let payload: { webhookTimestamp?: number } | null;
+	try {
+		payload = JSON.parse(rawBody);
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+	}
+
+	try {
+		if (
+			payload?.webhookTimestamp &&
+			Math.abs(Date.now() - payload.webhookTimestamp) > MAX_WEBHOOK_AGE_MS
+		) {
+			return NextResponse.json(
+				{ error: "Webhook timestamp too old" },
+				{ status: 401 },
+			);
+		}
+
+		const result = await handleProviderWebhook(
+			"linear",
+			payload,
+			new URL(request.url).searchParams.get("connection"),
+		);
+		return NextResponse.json(result);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error";
+		console.error("[webhooks/linear] Failed to handle event:", error);
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
@@ -5,6 +5,8 @@ import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
 import { toast } from "sonner";
 import { CreateTicketDialog } from "@/app/_components/create-ticket-dialog";
+import { ImportTicketsDialog } from "@/app/_components/import-tickets-dialog";
+import { SyncHistoryPanel } from "@/app/_components/sync-history-panel";
 import { TicketModal } from "@/app/_components/ticket-modal";
 import { TicketTable } from "@/app/_components/ticket-table";
 import { Badge } from "@/components/ui/badge";
@@ -43,6 +45,8 @@ function DashboardContent() {
 		"createdAt";
 	const sortOrder = (searchParams.get("sortOrder") as "asc" | "desc") || "desc";
 	const statusFilter = searchParams.get("status") || "all";
+	const connectionFilter = searchParams.get("connection") || "all";
+	const groupBy = searchParams.get("group") === "epic" ? "epic" : "none";
 
 	const validViewMode = viewMode === "ai-ranked" ? "ai-ranked" : "standard";
 	const validSortBy = ["createdAt", "priority", "aiScore"].includes(sortBy)
@@ -91,26 +95,34 @@ function DashboardContent() {
 
 	const deepLinkedTicketQuery = api.ticket.byId.useQuery(
 		{ id: ticketIdParam ?? "" },
-		{ enabled: !!ticketIdParam && !selectedTicket },
+		{
+			enabled: !!ticketIdParam && !selectedTicket,
+			// Keep showing the previous ticket while moving to another one
+			placeholderData: (previous) => previous,
+		},
 	);
 
 	const modalTicket = selectedTicket ?? deepLinkedTicketQuery.data ?? null;
 
+	// Drop the row the modal was opened from once the URL points elsewhere
+	// (closed, or moved to a parent, child or linked ticket)
 	useEffect(() => {
-		if (!ticketIdParam) {
-			setSelectedTicket(null);
-		}
+		setSelectedTicket((current) =>
+			current?.id === ticketIdParam ? current : null,
+		);
 	}, [ticketIdParam]);
 
 	const utils = api.useUtils();
 
 	const providerStatus = api.ticket.getProviderStatus.useQuery();
+	const connectionsQuery = api.ticket.getConnections.useQuery();
 	const aiStatus = api.ticket.getAIStatus.useQuery();
 	const ticketsQuery = api.ticket.list.useQuery();
 
 	const syncMutation = api.ticket.syncAll.useMutation({
 		onSuccess: () => {
 			void utils.ticket.list.invalidate();
+			void utils.ticket.getSyncRuns.invalidate();
 		},
 	});
 
@@ -174,6 +186,20 @@ function DashboardContent() {
 		updateSearchParams({ status: status === "all" ? null : status });
 	};
 
+	const handleGroupByChange = (group: "none" | "epic") => {
+		updateSearchParams({ group: group === "none" ? null : group });
+	};
+
+	const handleTicketOpen = (ticketId: string) => {
+		updateSearchParams({ ticketId });
+	};
+
+	const handleConnectionFilterChange = (connectionId: string) => {
+		updateSearchParams({
+			connection: connectionId === "all" ? null : connectionId,
+		});
+	};
+
 	const ticketCounts = ticketsQuery.data?.reduce<{
 		total: number;
 		[key: string]: number;
@@ -202,12 +228,30 @@ function DashboardContent() {
 						</div>
 						{/* Navigation */}
 						<nav className="hidden items-center gap-1 md:flex">
+							<Link
+								className="rounded-md px-3 py-1.5 text-muted-foreground text-sm transition-colors hover:bg-secondary hover:text-foreground"
+								href="/planning"
+							>
+								Planning
+							</Link>
 							<Link
 								className="rounded-md px-3 py-1.5 text-muted-foreground text-sm transition-colors hover:bg-secondary hover:text-foreground"
 								href="/admin/chats"
 							>
 								Chat
 							</Link>
+							<Link
+								className="rounded-md px-3 py-1.5 text-muted-foreground text-sm transition-colors hover:bg-secondary hover:text-foreground"
+								href="/settings/mappings"
+							>
+								Mappings
+							</Link>
+							<Link
+								className="rounded-md px-3 py-1.5 text-muted-foreground text-sm transition-colors hover:bg-secondary hover:text-foreground"
+								href="/settings/connections"
+							>
+								Connections
+							</Link>
 							<a
 								className="rounded-md px-3 py-1.5 text-muted-foreground text-sm transition-colors hover:bg-secondary hover:text-foreground"
 								href="http://localhost:4096"
@@ -228,6 +272,7 @@ function DashboardContent() {
 						>
 							{syncMutation.isPending ? "Syncing..." : "Sync"}
 						</Button>
+						<ImportTicketsDialog />
 						<CreateTicketDialog />
 					</div>
 				</div>
@@ -284,15 +329,30 @@ function DashboardContent() {
 						Integrations
 					</span>
 					<div className="flex flex-wrap gap-1.5">
-						{providerStatus.data?.map((provider) => (
+						{connectionsQuery.data?.map((connection) => (
 							<Badge
-								className="font-normal capitalize"
-								key={provider.name}
-								variant={provider.configured ? "default" : "outline"}
+								className="font-normal"
+								key={connection.id}
+								variant={
+									connection.enabled && connection.configured
+										? "default"
+										: "outline"
+								}
 							>
-								{provider.name}
+								{connection.name}
 							</Badge>
 						))}
+						{providerStatus.data
+							?.filter((provider) => provider.connections === 0)
+							.map((provider) => (
+								<Badge
+									className="font-normal"
+									key={provider.name}
+									variant="outline"
+								>
+									{provider.displayName}
+								</Badge>
+							))}
 					</div>
 					<div className="mx-2 h-4 w-px bg-border" />
 					<span className="text-muted-foreground text-xs uppercase tracking-wider">
@@ -323,6 +383,10 @@ function DashboardContent() {
 					<div className="mb-6 rounded-lg border border-border/40 bg-card/30 px-4 py-3">
 						<p className="text-muted-foreground text-sm">
 							Sync complete:{" "}
+							<span className="text-foreground">
+								{syncMutation.data.totalFetched} fetched
+							</span>
+							,{" "}
 							<span className="text-foreground">
 								{syncMutation.data.totalCreated} created
 							</span>
@@ -330,6 +394,16 @@ function DashboardContent() {
 							<span className="text-foreground">
 								{syncMutation.data.totalUpdated} updated
 							</span>
+							{syncMutation.data.totalOrphaned > 0 && (
+								<span className="text-foreground">
+									, {syncMutation.data.totalOrphaned} no longer at source
+								</span>
+							)}
+							{syncMutation.data.totalConflicts > 0 && (
+								<span className="text-amber-600 dark:text-amber-400">
+									, {syncMutation.data.totalConflicts} conflicts
+								</span>
+							)}
 							{syncMutation.data.totalErrors > 0 && (
 								<span className="text-destructive">
 									{" "}
@@ -340,11 +414,19 @@ function DashboardContent() {
 					</div>
 				)}
 
+				{/* Sync History */}
+				<SyncHistoryPanel />
+
 				{/* Ticket Table */}
 				<TicketTable
+					connectionFilter={connectionFilter}
+					groupBy={groupBy}
+					onConnectionFilterChange={handleConnectionFilterChange}
+					onGroupByChange={handleGroupByChange}
 					onSortByChange={handleSortByChange}
 					onSortOrderChange={handleSortOrderChange}
 					onStatusFilterChange={handleStatusFilterChange}
+					onTicketOpen={handleTicketOpen}
 					onTicketSelect={handleTicketSelect}
 					onViewModeChange={handleViewModeChange}
 					pendingAskTicketIds={combinedPendingAskTicketIds}
@@ -0,0 +1,567 @@
+"use client";
+
+import Link from "next/link";
+import { type DragEvent, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { PRIORITY_STYLES } from "@/app/_components/constants";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import type { SprintLoad } from "@/server/tickets/sprint-planning";
+import { api } from "@/trpc/react";
+
+type DragSource = "backlog" | "sprint";
+
+interface PlanningTicket {
+	id: string;
+	externalId: string | null;
+	title: string;
+	priority: string | null;
+	estimate: number | null;
+	aiScore: number | null;
+}
+
+const BACKLOG_LIMIT = 100;
+
+function formatPoints(points: number): string {
+	return Number.isInteger(points) ? String(points) : points.toFixed(1);
+}
+
+function formatDateRange(start: Date | null, end: Date | null): string | null {
+	if (!start && !end) return null;
+	const format = (date: Date | null) =>
+		date ? new Date(date).toLocaleDateString() : "…";
+	return `${format(start)} – ${format(end)}`;
+}
+
+function PlanningTicketRow({
+	ticket,
+	source,
+	onDragStart,
+	onDragEnd,
+	action,
+}: {
+	ticket: PlanningTicket;
+	source: DragSource;
+	onDragStart: (ticketId: string, source: DragSource) => void;
+	onDragEnd: () => void;
+	action?: React.ReactNode;
+}) {
+	return (
+		<li
+			className="flex cursor-grab items-center gap-3 rounded-md border border-border/60 bg-background px-3 py-2 text-sm active:cursor-grabbing"
+			draggable
+			onDragEnd={onDragEnd}
+			onDragStart={(e) => {
+				e.dataTransfer.effectAllowed = "move";
+				e.dataTransfer.setData("text/plain", ticket.id);
+				onDragStart(ticket.id, source);
+			}}
+		>
+			{ticket.externalId && (
+				<span className="shrink-0 font-mono text-muted-foreground text-xs">
+					{ticket.externalId}
+				</span>
+			)}
+			<span className="min-w-0 flex-1 truncate">{ticket.title}</span>
+			{ticket.priority && (
+				<Badge
+					className={`shrink-0 font-normal text-xs ${PRIORITY_STYLES[ticket.priority] ?? ""}`}
+					variant="outline"
+				>
+					{ticket.priority}
+				</Badge>
+			)}
+			{source === "backlog" && ticket.aiScore !== null && (
+				<span
+					className="w-8 shrink-0 text-right text-muted-foreground text-xs tabular-nums"
+					title="AI score"
+				>
+					{ticket.aiScore.toFixed(1)}
+				</span>
+			)}
+			<span
+				className="w-10 shrink-0 text-right text-xs tabular-nums"
+				title="Estimate"
+			>
+				{ticket.estimate === null ? "–" : `${formatPoints(ticket.estimate)} pt`}
+			</span>
+			{action}
+		</li>
+	);
+}
+
+/**
+ * Planned effort against capacity; the bar turns red when overcommitted
+ */
+function SprintLoadBar({ load }: { load: SprintLoad }) {
+	const over = load.remaining !== null && load.remaining < 0;
+	const percent =
+		load.capacity && load.capacity > 0
+			? Math.min(100, Math.round((load.effort / load.capacity) * 100))
+			: 0;
+
+	return (
+		<div className="space-y-1.5">
+			<div className="flex items-baseline justify-between text-sm">
+				<span className="tabular-nums">
+					<span className="font-semibold">{formatPoints(load.effort)}</span>
+					{load.capacity !== null && ` / ${formatPoints(load.capacity)}`} pt
+				</span>
+				<span
+					className={`text-xs tabular-nums ${over ? "text-destructive" : "text-muted-foreground"}`}
+				>
+					{load.remaining === null
+						? "No capacity set"
+						: over
+							? `${formatPoints(-load.remaining)} pt over capacity`
+							: `${formatPoints(load.remaining)} pt left`}
+				</span>
+			</div>
+			<div className="h-2 overflow-hidden rounded-full bg-secondary">
+				<div
+					className={`h-full rounded-full ${over ? "bg-destructive" : "bg-emerald-500"}`}
+					style={{ width: `${load.capacity === null ? 0 : percent}%` }}
+				/>
+			</div>
+			{load.unestimated > 0 && (
+				<p className="text-muted-foreground text-xs">
+					{load.unestimated} ticket{load.unestimated === 1 ? "" : "s"} without
+					an estimate
+				</p>
+			)}
+		</div>
+	);
+}
+
+function CreateSprintForm({
+	onCreated,
+	onCancel,
+}: {
+	onCreated: (sprintId: string) => void;
+	onCancel: () => void;
+}) {
+	const [name, setName] = useState("");
+	const [goal, setGoal] = useState("");
+	const [startDate, setStartDate] = useState("");
+	const [endDate, setEndDate] = useState("");
+	const [capacity, setCapacity] = useState("");
+
+	const createMutation = api.sprint.create.useMutation({
+		onSuccess: (sprint) => onCreated(sprint.id),
+		onError: (error) => {
+			toast.error("Failed to create sprint", { description: error.message });
+		},
+	});
+
+	return (
+		<form
+			className="grid gap-3 rounded-md border border-border/60 p-4 sm:grid-cols-2"
+			onSubmit={(e) => {
+				e.preventDefault();
+				createMutation.mutate({
+					name,
+					goal: goal.trim() || null,
+					startDate: startDate ? new Date(startDate) : null,
+					endDate: endDate ? new Date(endDate) : null,
+					capacity: capacity ? Number(capacity) : null,
+				});
+			}}
+		>
+			<Input
+				className="sm:col-span-2"
+				onChange={(e) => setName(e.target.value)}
+				placeholder="Sprint name, e.g. Sprint 14"
+				value={name}
+			/>
+			<Textarea
+				className="sm:col-span-2"
+				onChange={(e) => setGoal(e.target.value)}
+				placeholder="Sprint goal"
+				rows={2}
+				value={goal}
+			/>
+			<Input
+				aria-label="Start date"
+				onChange={(e) => setStartDate(e.target.value)}
+				type="date"
+				value={startDate}
+			/>
+			<Input
+				aria-label="End date"
+				onChange={(e) => setEndDate(e.target.value)}
+				type="date"
+				value={endDate}
+			/>
+			<Input
+				min={0}
+				onChange={(e) => setCapacity(e.target.value)}
+				placeholder="Capacity (story points)"
+				step="any"
+				type="number"
+				value={capacity}
+			/>
+			<div className="flex justify-end gap-2">
+				<Button onClick={onCancel} size="sm" type="button" variant="ghost">
+					Cancel
+				</Button>
+				<Button
+					disabled={!name.trim() || createMutation.isPending}
+					size="sm"
+					type="submit"
+				>
+					Create sprint
+				</Button>
+			</div>
+		</form>
+	);
+}
+
+export default function SprintPlanningPage() {
+	const utils = api.useUtils();
+	const sprintsQuery = api.sprint.list.useQuery();
+	const sprintList = sprintsQuery.data ?? [];
+
+	const [selectedSprintId, setSelectedSprintId] = useState<string | null>(null);
+	const [creating, setCreating] = useState(false);
+	const [dragging, setDragging] = useState<{
+		ticketId: string;
+		source: DragSource;
+	} | null>(null);
+	const [dropTarget, setDropTarget] = useState<DragSource | null>(null);
+	const [capacityDraft, setCapacityDraft] = useState("");
+
+	// Open the active sprint, or the next one, until one is picked
+	const sprintId = selectedSprintId ?? sprintList[0]?.id ?? null;
+
+	const sprintQuery = api.sprint.byId.useQuery(
+		{ id: sprintId ?? "" },
+		{ enabled: sprintId !== null },
+	);
+	const sprint = sprintId ? sprintQuery.data : undefined;
+
+	const backlogQuery = api.ticket.listByAIRank.useQuery({
+		limit: BACKLOG_LIMIT,
+		unfinishedOnly: true,
+	});
+	const plannedIds = new Set(sprint?.tickets.map((t) => t.id));
+	const backlog = (backlogQuery.data ?? []).filter(
+		(t) => !plannedIds.has(t.id),
+	);
+
+	useEffect(() => {
+		setCapacityDraft(
+			sprint?.capacity === null || sprint?.capacity === undefined
+				? ""
+				: String(sprint.capacity),
+		);
+	}, [sprint?.capacity]);
+
+	const onError = (error: { message: string }) => {
+		toast.error("Failed to update sprint", { description: error.message });
+	};
+	const refreshSprint = () => {
+		void utils.sprint.byId.invalidate();
+		void utils.sprint.list.invalidate();
+	};
+
+	const addMutation = api.sprint.addTicket.useMutation({
+		onSuccess: refreshSprint,
+		onError,
+	});
+	const removeMutation = api.sprint.removeTicket.useMutation({
+		onSuccess: refreshSprint,
+		onError,
+	});
+	const updateMutation = api.sprint.update.useMutation({
+		onSuccess: refreshSprint,
+		onError,
+	});
+	const deleteMutation = api.sprint.delete.useMutation({
+		onSuccess: () => {
+			setSelectedSprintId(null);
+			void utils.sprint.list.invalidate();
+		},
+		onError,
+	});
+
+	const planningOpen = sprint !== undefined && sprint.state !== "closed";
+	const mutating = addMutation.isPending || removeMutation.isPending;
+
+	const addTicket = (ticketId: string) => {
+		if (sprint) addMutation.mutate({ sprintId: sprint.id, ticketId });
+	};
+	const removeTicket = (ticketId: string) => {
+		if (sprint) removeMutation.mutate({ sprintId: sprint.id, ticketId });
+	};
+
+	const saveCapacity = () => {
+		if (!sprint) return;
+		const capacity = capacityDraft.trim() ? Number(capacityDraft) : null;
+		if (capacity === sprint.capacity) return;
+		if (capacity !== null && (Number.isNaN(capacity) || capacity < 0)) {
+			toast.error("Capacity must be a positive number of story points");
+			return;
+		}
+		updateMutation.mutate({ id: sprint.id, capacity });
+	};
+
+	const startDrag = (ticketId: string, source: DragSource) => {
+		setDragging({ ticketId, source });
+	};
+	const endDrag = () => {
+		setDragging(null);
+		setDropTarget(null);
+	};
+
+	// Tickets move between the two lists; dropping onto the list they came
+	// from does nothing
+	const dropZoneProps = (target: DragSource) => ({
+		onDragOver: (e: DragEvent) => {
+			if (!dragging || dragging.source === target || !planningOpen) return;
+			e.preventDefault();
+			e.dataTransfer.dropEffect = "move";
+			setDropTarget(target);
+		},
+		onDragLeave: () => setDropTarget(null),
+		onDrop: (e: DragEvent) => {
+			e.preventDefault();
+			if (dragging && dragging.source !== target) {
+				if (target === "sprint") addTicket(dragging.ticketId);
+				else removeTicket(dragging.ticketId);
+			}
+			endDrag();
+		},
+	});
+	const dropZoneClass = (target: DragSource) =>
+		`min-h-64 space-y-1.5 rounded-md border border-dashed p-2 transition-colors ${
+			dropTarget === target
+				? "border-foreground/60 bg-secondary/60"
+				: "border-border/60"
+		}`;
+
+	return (
+		<div className="min-h-screen">
+			<header className="sticky top-0 z-50 border-border/40 border-b bg-background/80 backdrop-blur-sm">
+				<div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-6">
+					<span className="font-semibold text-lg tracking-tight">
+						Sprint planning
+					</span>
+					<Link
+						className="text-muted-foreground text-sm hover:text-foreground"
+						href="/"
+					>
+						Back to dashboard
+					</Link>
+				</div>
+			</header>
+
+			<main className="mx-auto max-w-7xl space-y-6 px-6 py-8">
+				<div className="flex flex-wrap items-center gap-3">
+					<Select
+						disabled={sprintList.length === 0}
+						onValueChange={(id) => setSelectedSprintId(id)}
+						value={sprintId ?? undefined}
+					>
+						<SelectTrigger className="h-8 w-72 text-sm">
+							<SelectValue
+								placeholder={
+									sprintsQuery.isLoading ? "Loading sprints…" : "No sprints yet"
+								}
+							/>
+						</SelectTrigger>
+						<SelectContent>
+							{sprintList.map((s) => (
+								<SelectItem key={s.id} value={s.id}>
+									{s.name}
+									<span className="ml-2 text-muted-foreground text-xs">
+										{s.state} · {s.ticketCount}
+									</span>
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Button
+						onClick={() => setCreating((open) => !open)}
+						size="sm"
+						variant="outline"
+					>
+						New sprint
+					</Button>
+				</div>
+
+				{creating && (
+					<CreateSprintForm
+						onCancel={() => setCreating(false)}
+						onCreated={(id) => {
+							setCreating(false);
+							setSelectedSprintId(id);
+							void utils.sprint.list.invalidate();
+						}}
+					/>
+				)}
+
+				<div className="grid gap-6 lg:grid-cols-2">
+					<section>
+						<div className="mb-2 flex items-baseline justify-between">
+							<span className="text-muted-foreground text-xs uppercase tracking-wider">
+								Backlog by AI rank
+							</span>
+							<span className="text-muted-foreground text-xs tabular-nums">
+								{backlog.length} tickets
+							</span>
+						</div>
+						<ul
+							className={dropZoneClass("backlog")}
+							{...dropZoneProps("backlog")}
+						>
+							{backlogQuery.isLoading ? (
+								<Skeleton className="h-9 w-full" />
+							) : backlog.length === 0 ? (
+								<li className="p-2 text-muted-foreground text-sm">
+									No unplanned open tickets.
+								</li>
+							) : (
+								backlog.map((ticket) => (
+									<PlanningTicketRow
+										action={
+											planningOpen && (
+												<Button
+													className="h-6 px-2 text-xs"
+													disabled={mutating}
+													onClick={() => addTicket(ticket.id)}
+													size="sm"
+													variant="ghost"
+												>
+													Add
+												</Button>
+											)
+										}
+										key={ticket.id}
+										onDragEnd={endDrag}
+										onDragStart={startDrag}
+										source="backlog"
+										ticket={ticket}
+									/>
+								))
+							)}
+						</ul>
+					</section>
+
+					<section className="space-y-4">
+						{!sprint ? (
+							<div className="rounded-md border border-border/60 border-dashed p-6 text-muted-foreground text-sm">
+								{sprintId
+									? "Loading sprint…"
+									: "Create a sprint, or sync Jira, to start planning."}
+							</div>
+						) : (
+							<>
+								<div className="space-y-1">
+									<div className="flex items-center gap-2">
+										<span className="font-semibold">{sprint.name}</span>
+										<Badge className="font-normal" variant="outline">
+											{sprint.state}
+										</Badge>
+										{sprint.connection && (
+											<span className="text-muted-foreground text-xs">
+												synced from {sprint.connection.name}
+											</span>
+										)}
+										{!sprint.connectionId && (
+											<Button
+												className="ml-auto h-7 text-xs"
+												disabled={deleteMutation.isPending}
+												onClick={() => deleteMutation.mutate({ id: sprint.id })}
+												size="sm"
+												variant="ghost"
+											>
+												Delete
+											</Button>
+										)}
+									</div>
+									{formatDateRange(sprint.startDate, sprint.endDate) && (
+										<p className="text-muted-foreground text-xs">
+											{formatDateRange(sprint.startDate, sprint.endDate)}
+										</p>
+									)}
+									{sprint.goal && <p className="text-sm">{sprint.goal}</p>}
+								</div>
+
+								<div className="flex items-center gap-3">
+									<label
+										className="text-muted-foreground text-xs"
+										htmlFor="sprint-capacity"
+									>
+										Team capacity
+									</label>
+									<Input
+										className="h-8 w-24 text-sm"
+										id="sprint-capacity"
+										min={0}
+										onBlur={saveCapacity}
+										onChange={(e) => setCapacityDraft(e.target.value)}
+										onKeyDown={(e) => {
+											if (e.key === "Enter") saveCapacity();
+										}}
+										placeholder="pt"
+										step="any"
+										type="number"
+										value={capacityDraft}
+									/>
+								</div>
+
+								<SprintLoadBar load={sprint.load} />
+
+								<ul
+									className={dropZoneClass("sprint")}
+									{...dropZoneProps("sprint")}
+								>
+									{sprint.tickets.length === 0 ? (
+										<li className="p-2 text-muted-foreground text-sm">
+											{planningOpen
+												? "Drag tickets from the backlog here."
+												: "No tickets were planned into this sprint."}
+										</li>
+									) : (
+										sprint.tickets.map((ticket) => (
+											<PlanningTicketRow
+												action={
+													planningOpen && (
+														<Button
+															className="h-6 px-2 text-xs"
+															disabled={mutating}
+															onClick={() => removeTicket(ticket.id)}
+															size="sm"
+															variant="ghost"
+														>
+															Remove
+														</Button>
+													)
+												}
+												key={ticket.id}
+												onDragEnd={endDrag}
+												onDragStart={startDrag}
+												source="sprint"
+												ticket={ticket}
+											/>
+										))
+									)}
+								</ul>
+							</>
+						)}
+					</section>
+				</div>
+			</main>
+		</div>
+	);
+}
@@ -0,0 +1,511 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { api, type RouterOutputs } from "@/trpc/react";
+
+type Connection = RouterOutputs["settings"]["listConnections"][number];
+type ProviderType = RouterOutputs["settings"]["listProviderTypes"][number];
+type ConfigField = ProviderType["fields"][number];
+
+const CAPABILITY_LABELS: Record<keyof ProviderType["capabilities"], string> = {
+	incrementalSync: "incremental sync",
+	writeBack: "write-back",
+	webhooks: "webhooks",
+	comments: "comments",
+};
+
+// Select items cannot have an empty value
+const UNSET = "__none__";
+
+interface ConnectionForm {
+	id?: string;
+	/** Empty until the provider types have loaded */
+	provider: string;
+	name: string;
+	values: Record<string, string>;
+	hasApiToken: boolean;
+}
+
+const EMPTY_FORM: ConnectionForm = {
+	provider: "",
+	name: "",
+	values: {},
+	hasApiToken: false,
+};
+
+function toForm(connection: Connection): ConnectionForm {
+	const values: Record<string, string> = {
+		baseUrl: connection.baseUrl ?? "",
+		projectKey: connection.projectKey ?? "",
+	};
+	for (const [key, value] of Object.entries(connection.config ?? {})) {
+		if (value !== null && value !== undefined) {
+			values[key] = String(value);
+		}
+	}
+
+	return {
+		id: connection.id,
+		provider: connection.provider,
+		name: connection.name,
+		values,
+		hasApiToken: connection.hasApiToken,
+	};
+}
+
+/**
+ * Build the mutation input from the fields of the provider's config schema.
+ * Blank fields are left out, so an edit keeps the stored token.
+ */
+function toInput(form: ConnectionForm, fields: ConfigField[]) {
+	const values: Record<string, string | number> = {};
+	for (const field of fields) {
+		const value = form.values[field.key]?.trim();
+		if (!value) continue;
+		values[field.key] = field.type === "number" ? Number(value) : value;
+	}
+
+	return { provider: form.provider, name: form.name.trim(), values };
+}
+
+/**
+ * Status of the latest repository scan with a button to scan now. Polls
+ * while a scan is in progress.
+ */
+function RepoScanControl({ connectionId }: { connectionId: string }) {
+	const utils = api.useUtils();
+	const scanQuery = api.settings.getRepoScan.useQuery(
+		{ id: connectionId },
+		{
+			refetchInterval: (query) =>
+				query.state.data?.status === "pending" ||
+				query.state.data?.status === "running"
+					? 5000
+					: false,
+		},
+	);
+	const scanMutation = api.settings.scanRepo.useMutation({
+		onSuccess: () => {
+			void utils.settings.getRepoScan.invalidate({ id: connectionId });
+		},
+		onError: (error) => {
+			toast.error("Failed to start scan", { description: error.message });
+		},
+	});
+
+	const scan = scanQuery.data;
+	const isScanning = scan?.status === "pending" || scan?.status === "running";
+	const label = !scan
+		? "not scanned"
+		: scan.status === "completed"
+			? `${scan.findings.length} findings`
+			: scan.status === "failed"
+				? "scan failed"
+				: `scan ${scan.status}`;
+
+	return (
+		<>
+			<span
+				className={`text-xs ${scan?.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}
+				title={scan?.error}
+			>
+				{label}
+			</span>
+			<Button
+				className="h-8 text-xs"
+				disabled={isScanning || scanMutation.isPending}
+				onClick={() => scanMutation.mutate({ id: connectionId })}
+				size="sm"
+				variant="ghost"
+			>
+				{isScanning ? "Scanning..." : "Scan now"}
+			</Button>
+		</>
+	);
+}
+
+export default function ConnectionSettingsPage() {
+	const utils = api.useUtils();
+	const connectionsQuery = api.settings.listConnections.useQuery();
+	const connections = connectionsQuery.data ?? [];
+	const providerTypesQuery = api.settings.listProviderTypes.useQuery();
+	const providerTypes = providerTypesQuery.data ?? [];
+
+	const [form, setForm] = useState<ConnectionForm>(EMPTY_FORM);
+	const [testResult, setTestResult] = useState<{
+		ok: boolean;
+		message: string;
+	} | null>(null);
+	const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(
+		null,
+	);
+
+	const providerType =
+		providerTypes.find((type) => type.key === form.provider) ??
+		(form.id ? undefined : providerTypes[0]);
+	const fields = providerType?.fields ?? [];
+	const displayNames = new Map(
+		providerTypes.map((type) => [type.key, type.displayName]),
+	);
+
+	const invalidate = () => {
+		void utils.settings.listConnections.invalidate();
+		void utils.ticket.getConnections.invalidate();
+		void utils.ticket.getProviderStatus.invalidate();
+		void utils.ticket.getSyncSchedule.invalidate();
+	};
+
+	const onError = (error: { message: string }) => {
+		toast.error("Failed to save connection", { description: error.message });
+	};
+
+	const resetForm = () => {
+		setForm(EMPTY_FORM);
+		setTestResult(null);
+	};
+
+	const createMutation = api.settings.createConnection.useMutation({
+		onSuccess: (connection) => {
+			toast.success(`Added ${connection.name}`);
+			resetForm();
+			invalidate();
+		},
+		onError,
+	});
+
+	const updateMutation = api.settings.updateConnection.useMutation({
+		onSuccess: (connection) => {
+			toast.success(`Saved ${connection.name}`);
+			if (form.id === connection.id) resetForm();
+			invalidate();
+		},
+		onError,
+	});
+
+	const deleteMutation = api.settings.deleteConnection.useMutation({
+		onSuccess: () => {
+			setConfirmingDeleteId(null);
+			invalidate();
+		},
+		onError: (error) => {
+			toast.error("Failed to remove connection", {
+				description: error.message,
+			});
+		},
+	});
+
+	const testMutation = api.settings.testConnection.useMutation({
+		onSuccess: setTestResult,
+		onError: (error) => {
+			setTestResult({ ok: false, message: error.message });
+		},
+	});
+
+	const updateForm = (changes: Partial<ConnectionForm>) => {
+		setForm((current) => ({ ...current, ...changes }));
+		setTestResult(null);
+	};
+
+	const setValue = (key: string, value: string) => {
+		updateForm({ values: { ...form.values, [key]: value } });
+	};
+
+	const save = () => {
+		if (!providerType) return;
+		const input = toInput({ ...form, provider: providerType.key }, fields);
+		if (form.id) {
+			const { provider: _provider, ...changes } = input;
+			updateMutation.mutate({ id: form.id, ...changes });
+		} else {
+			createMutation.mutate(input);
+		}
+	};
+
+	const toggleEnabled = (connection: Connection) => {
+		updateMutation.mutate({
+			id: connection.id,
+			name: connection.name,
+			enabled: !connection.enabled,
+		});
+	};
+
+	const isSaving = createMutation.isPending || updateMutation.isPending;
+
+	return (
+		<div className="min-h-screen">
+			<header className="sticky top-0 z-50 border-border/40 border-b bg-background/80 backdrop-blur-sm">
+				<div className="mx-auto flex h-16 max-w-4xl items-center justify-between px-6">
+					<span className="font-semibold text-lg tracking-tight">
+						Provider connections
+					</span>
+					<Link
+						className="text-muted-foreground text-sm hover:text-foreground"
+						href="/"
+					>
+						Back to dashboard
+					</Link>
+				</div>
+			</header>
+
+			<main className="mx-auto max-w-4xl space-y-8 px-6 py-8">
+				<section>
+					<span className="text-muted-foreground text-xs uppercase tracking-wider">
+						Connections
+					</span>
+					<div className="mt-2 divide-y divide-border/40">
+						{connections.length === 0 ? (
+							<p className="py-2 text-muted-foreground text-sm">
+								No connections yet. Add one below.
+							</p>
+						) : (
+							connections.map((connection) => (
+								<div
+									className="flex flex-wrap items-center gap-3 py-2 text-sm"
+									key={connection.id}
+								>
+									<Badge
+										className="max-w-40 justify-center truncate font-normal"
+										variant="outline"
+									>
+										{displayNames.get(connection.provider) ??
+											connection.provider}
+									</Badge>
+									<span className="min-w-0 flex-1 truncate font-medium">
+										{connection.name}
+									</span>
+									{!connection.enabled && (
+										<Badge className="font-normal" variant="secondary">
+											disabled
+										</Badge>
+									)}
+									<span className="text-muted-foreground text-xs tabular-nums">
+										{connection.lastSyncedAt
+											? `synced ${new Date(connection.lastSyncedAt).toLocaleString()}`
+											: "never synced"}
+									</span>
+									{connection.provider === "docker" &&
+										typeof connection.config?.repoPath === "string" && (
+											<RepoScanControl connectionId={connection.id} />
+										)}
+									<Button
+										className="h-8 text-xs"
+										onClick={() => {
+											setForm(toForm(connection));
+											setTestResult(null);
+										}}
+										size="sm"
+										variant="ghost"
+									>
+										Edit
+									</Button>
+									<Button
+										className="h-8 text-xs"
+										disabled={updateMutation.isPending}
+										onClick={() => toggleEnabled(connection)}
+										size="sm"
+										variant="ghost"
+									>
+										{connection.enabled ? "Disable" : "Enable"}
+									</Button>
+									<Button
+										className="h-8 text-xs"
+										disabled={deleteMutation.isPending}
+										onClick={() =>
+											confirmingDeleteId === connection.id
+												? deleteMutation.mutate({ id: connection.id })
+												: setConfirmingDeleteId(connection.id)
+										}
+										size="sm"
+										variant={
+											confirmingDeleteId === connection.id
+												? "destructive"
+												: "ghost"
+										}
+									>
+										{confirmingDeleteId === connection.id
+											? "Confirm remove"
+											: "Remove"}
+									</Button>
+								</div>
+							))
+						)}
+					</div>
+					{confirmingDeleteId && (
+						<p className="mt-2 text-muted-foreground text-xs">
+							Tickets already synced are kept but stop updating. A connection
+							imported from environment variables returns on restart unless the
+							variables are removed.
+						</p>
+					)}
+				</section>
+
+				<section>
+					<span className="text-muted-foreground text-xs uppercase tracking-wider">
+						{form.id ? `Edit ${form.name}` : "Add connection"}
+					</span>
+					<form
+						className="mt-3 space-y-3"
+						onSubmit={(e) => {
+							e.preventDefault();
+							save();
+						}}
+					>
+						<div className="flex flex-wrap items-center gap-3">
+							<Select
+								disabled={!!form.id}
+								onValueChange={(v) => updateForm({ provider: v, values: {} })}
+								value={providerType?.key ?? ""}
+							>
+								<SelectTrigger className="h-8 w-44 text-xs">
+									<SelectValue placeholder="Provider" />
+								</SelectTrigger>
+								<SelectContent>
+									{providerTypes.map((type) => (
+										<SelectItem key={type.key} value={type.key}>
+											{type.displayName}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<Input
+								className="h-8 flex-1 text-sm"
+								onChange={(e) => updateForm({ name: e.target.value })}
+								placeholder='Name, e.g. "Platform Jira"'
+								value={form.name}
+							/>
+						</div>
+
+						{providerType && (
+							<p className="text-muted-foreground text-xs">
+								{providerType.description ? `${providerType.description} ` : ""}
+								Supports{" "}
+								{Object.entries(providerType.capabilities)
+									.filter(([, supported]) => supported)
+									.map(
+										([capability]) =>
+											CAPABILITY_LABELS[
+												capability as keyof ProviderType["capabilities"]
+											],
+									)
+									.join(", ") || "listing tickets only"}
+								.
+							</p>
+						)}
+
+						{fields.map((field) => (
+							<label
+								className="flex items-center gap-3 text-sm"
+								htmlFor={field.key}
+								key={field.key}
+								title={field.description}
+							>
+								<span className="w-36 shrink-0 text-muted-foreground">
+									{field.label}
+								</span>
+								{field.type === "select" ? (
+									<Select
+										onValueChange={(v) =>
+											setValue(field.key, v === UNSET ? "" : v)
+										}
+										value={form.values[field.key] || UNSET}
+									>
+										<SelectTrigger
+											className="h-8 flex-1 text-sm"
+											id={field.key}
+										>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{!field.required && (
+												<SelectItem value={UNSET}>Default</SelectItem>
+											)}
+											{field.options?.map((option) => (
+												<SelectItem key={option} value={option}>
+													{option}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								) : (
+									<Input
+										autoComplete="off"
+										className="h-8 flex-1 text-sm"
+										id={field.key}
+										onChange={(e) => setValue(field.key, e.target.value)}
+										placeholder={
+											field.type === "password" && form.hasApiToken
+												? "Stored; leave blank to keep"
+												: field.placeholder
+										}
+										type={field.type}
+										value={form.values[field.key] ?? ""}
+									/>
+								)}
+							</label>
+						))}
+
+						{testResult && (
+							<p
+								className={`rounded-md border px-3 py-2 text-sm ${
+									testResult.ok
+										? "border-emerald-500/40 text-emerald-600 dark:text-emerald-400"
+										: "border-destructive/40 text-destructive"
+								}`}
+							>
+								{testResult.message}
+							</p>
+						)}
+
+						<div className="flex items-center gap-2">
+							<Button
+								disabled={!providerType || testMutation.isPending}
+								onClick={() => {
+									if (!providerType) return;
+									const { name: _name, ...input } = toInput(
+										{ ...form, provider: providerType.key },
+										fields,
+									);
+									testMutation.mutate({ id: form.id, ...input });
+								}}
+								size="sm"
+								type="button"
+								variant="outline"
+							>
+								{testMutation.isPending ? "Testing..." : "Test connection"}
+							</Button>
+							<Button
+								disabled={!providerType || !form.name.trim() || isSaving}
+								size="sm"
+								type="submit"
+							>
+								{form.id ? "Save" : "Add"}
+							</Button>
+							{form.id && (
+								<Button
+									onClick={resetForm}
+									size="sm"
+									type="button"
+									variant="ghost"
+								>
+									Cancel
+								</Button>
+							)}
+						</div>
+					</form>
+				</section>
+			</main>
+		</div>
+	);
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type {
+	MappedTicketField,
+	TicketPriority,
+	TicketStatus,
+} from "@/server/db/schema";
+import { api } from "@/trpc/react";
+
+type InternalValue = TicketStatus | TicketPriority;
+
+const INTERNAL_VALUES: Record<MappedTicketField, InternalValue[]> = {
+	status: ["open", "in_progress", "review", "done", "closed"],
+	priority: ["low", "medium", "high", "urgent"],
+};
+
+const UNMAPPED = "__unmapped__";
+
+function InternalValueSelect({
+	field,
+	value,
+	onChange,
+	disabled,
+}: {
+	field: MappedTicketField;
+	value: InternalValue | null;
+	onChange: (value: InternalValue | null) => void;
+	disabled?: boolean;
+}) {
+	return (
+		<Select
+			disabled={disabled}
+			onValueChange={(v) =>
+				onChange(v === UNMAPPED ? null : (v as InternalValue))
+			}
+			value={value ?? UNMAPPED}
+		>
+			<SelectTrigger className="h-8 w-36 text-xs">
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				<SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+				{INTERNAL_VALUES[field].map((v) => (
+					<SelectItem key={v} value={v}>
+						{v.replace("_", " ")}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
+
+export default function MappingSettingsPage() {
+	const utils = api.useUtils();
+	const connectionsQuery = api.settings.listConnections.useQuery();
+	const connections = connectionsQuery.data ?? [];
+
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const connection =
+		connections.find((c) => c.id === selectedId) ?? connections[0];
+	const connectionId = connection?.id ?? "";
+	const [newField, setNewField] = useState<MappedTicketField>("status");
+	const [newExternalValue, setNewExternalValue] = useState("");
+	const [newInternalValue, setNewInternalValue] =
+		useState<InternalValue | null>(null);
+
+	const mappingsQuery = api.settings.listValueMappings.useQuery(
+		{ connectionId },
+		{ enabled: !!connection },
+	);
+	const mappings = mappingsQuery.data ?? [];
+	const unmapped = mappings.filter((m) => !m.internalValue);
+	const mapped = mappings.filter((m) => m.internalValue);
+
+	const onError = (error: { message: string }) => {
+		toast.error("Failed to save mapping", { description: error.message });
+	};
+
+	const saveMutation = api.settings.saveValueMapping.useMutation({
+		onSuccess: () => {
+			setNewExternalValue("");
+			setNewInternalValue(null);
+			void utils.settings.listValueMappings.invalidate();
+		},
+		onError,
+	});
+
+	const deleteMutation = api.settings.deleteValueMapping.useMutation({
+		onSuccess: () => {
+			void utils.settings.listValueMappings.invalidate();
+		},
+		onError,
+	});
+
+	const save = (
+		field: MappedTicketField,
+		externalValue: string,
+		internalValue: InternalValue | null,
+	) => {
+		saveMutation.mutate({ connectionId, field, externalValue, internalValue });
+	};
+
+	const renderRows = (rows: typeof mappings) =>
+		rows.map((m) => (
+			<div
+				className="flex items-center gap-3 py-2 text-sm"
+				key={`${m.field}:${m.externalValue}`}
+			>
+				<Badge className="w-16 justify-center font-normal" variant="outline">
+					{m.field}
+				</Badge>
+				<span className="min-w-0 flex-1 truncate font-mono">
+					{m.externalValue}
+				</span>
+				{m.lastSeenAt && (
+					<span className="text-muted-foreground text-xs tabular-nums">
+						seen {new Date(m.lastSeenAt).toLocaleDateString()}
+					</span>
+				)}
+				<InternalValueSelect
+					disabled={saveMutation.isPending}
+					field={m.field}
+					onChange={(v) => save(m.field, m.externalValue, v)}
+					value={m.internalValue}
+				/>
+				<Button
+					className="h-8 text-xs"
+					disabled={deleteMutation.isPending}
+					onClick={() => deleteMutation.mutate({ id: m.id })}
+					size="sm"
+					variant="ghost"
+				>
+					Remove
+				</Button>
+			</div>
+		));
+
+	return (
+		<div className="min-h-screen">
+			<header className="sticky top-0 z-50 border-border/40 border-b bg-background/80 backdrop-blur-sm">
+				<div className="mx-auto flex h-16 max-w-4xl items-center justify-between px-6">
+					<span className="font-semibold text-lg tracking-tight">
+						Status & priority mappings
+					</span>
+					<Link
+						className="text-muted-foreground text-sm hover:text-foreground"
+						href="/"
+					>
+						Back to dashboard
+					</Link>
+				</div>
+			</header>
+
+			<main className="mx-auto max-w-4xl space-y-8 px-6 py-8">
+				<div className="flex flex-wrap gap-1.5">
+					{connections.map((c) => (
+						<Button
+							key={c.id}
+							onClick={() => setSelectedId(c.id)}
+							size="sm"
+							variant={c.id === connectionId ? "default" : "outline"}
+						>
+							{c.name}
+						</Button>
+					))}
+				</div>
+				{connectionsQuery.isSuccess && connections.length === 0 && (
+					<p className="text-muted-foreground text-sm">
+						Mappings belong to a connection.{" "}
+						<Link className="underline" href="/settings/connections">
+							Add a connection
+						</Link>{" "}
+						first.
+					</p>
+				)}
+
+				<section>
+					<span className="text-muted-foreground text-xs uppercase tracking-wider">
+						Unmapped values
+					</span>
+					<p className="mt-1 text-muted-foreground text-sm">
+						Seen during sync without a mapping; statuses fell back to open and
+						priorities to medium.
+					</p>
+					<div className="mt-2 divide-y divide-border/40">
+						{unmapped.length === 0 ? (
+							<p className="py-2 text-muted-foreground text-sm">
+								Nothing unmapped for {connection?.name ?? "this connection"}.
+							</p>
+						) : (
+							renderRows(unmapped)
+						)}
+					</div>
+				</section>
+
+				<section>
+					<span className="text-muted-foreground text-xs uppercase tracking-wider">
+						Mappings
+					</span>
+					<p className="mt-1 text-muted-foreground text-sm">
+						Applied on top of the built-in defaults; run a full sync to re-map
+						existing tickets.
+					</p>
+					<div className="mt-2 divide-y divide-border/40">
+						{renderRows(mapped)}
+					</div>
+
+					<form
+						className="mt-4 flex flex-wrap items-center gap-3"
+						onSubmit={(e) => {
+							e.preventDefault();
+							save(newField, newExternalValue, newInternalValue);
+						}}
+					>
+						<Select
+							onValueChange={(v) => {
+								setNewField(v as MappedTicketField);
+								setNewInternalValue(null);
+							}}
+							value={newField}
+						>
+							<SelectTrigger className="h-8 w-28 text-xs">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="status">status</SelectItem>
+								<SelectItem value="priority">priority</SelectItem>
+							</SelectContent>
+						</Select>
+						<Input
+							className="h-8 flex-1 text-sm"
+							onChange={(e) => setNewExternalValue(e.target.value)}
+							placeholder={`External ${newField}, e.g. "In QA"`}
+							value={newExternalValue}
+						/>
+						<InternalValueSelect
+							field={newField}
+							onChange={setNewInternalValue}
+							value={newInternalValue}
+						/>
+						<Button
+							disabled={
+								!connection ||
+								!newExternalValue.trim() ||
+								!newInternalValue ||
+								saveMutation.isPending
+							}
+							size="sm"
+							type="submit"
+						>
+							Add
+						</Button>
+					</form>
+				</section>
+			</main>
+		</div>
+	);
+}
@@ -11,6 +11,13 @@ export const env = createEnv({
 			process.env.NODE_ENV === "production"
 				? z.string()
 				: z.string().optional(),
+		// Server secret for encrypting stored credentials; retired secrets stay
+		// comma-separated in the previous keys until credentials are re-encrypted
+		CREDENTIAL_ENCRYPTION_KEY:
+			process.env.NODE_ENV === "production"
+				? z.string().min(32)
+				: z.string().min(32).optional(),
+		CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS: z.string().optional(),
 		BETTER_AUTH_GITHUB_CLIENT_ID: z.string(),
 		BETTER_AUTH_GITHUB_CLIENT_SECRET: z.string(),
 		DATABASE_URL: z.string().url(),
@@ -31,8 +38,41 @@ export const env = createEnv({
 		JIRA_BASE_URL: z.string().optional(),
 		JIRA_API_TOKEN: z.string().optional(),
 		JIRA_PROJECT_KEY: z.string().optional(),
+		// Optional JQL filter (without ORDER BY) replacing `project = JIRA_PROJECT_KEY`
+		JIRA_JQL: z.string().optional(),
+		// Legacy Epic Link custom field, e.g. customfield_10014
+		JIRA_EPIC_LINK_FIELD: z.string().optional(),
+		// Story points custom field, customfield_10016 when unset
+		JIRA_STORY_POINTS_FIELD: z.string().optional(),
+		JIRA_WEBHOOK_SECRET: z.string().optional(),
 		// Ticket Providers - Linear
 		LINEAR_API_KEY: z.string().optional(),
+		// Optional comma-separated scoping for Linear sync
+		LINEAR_TEAM_KEYS: z.string().optional(),
+		LINEAR_PROJECT_IDS: z.string().optional(),
+		LINEAR_STATES: z.string().optional(),
+		LINEAR_WEBHOOK_SECRET: z.string().optional(),
+		// Ticket Providers - GitHub Issues
+		GITHUB_API_URL: z.string().optional(),
+		GITHUB_TOKEN: z.string().optional(),
+		GITHUB_OWNER: z.string().optional(),
+		GITHUB_REPO: z.string().optional(),
+		// Ticket Providers - GitLab Issues
+		GITLAB_BASE_URL: z.string().optional(),
+		GITLAB_TOKEN: z.string().optional(),
+		GITLAB_PROJECT_ID: z.string().optional(),
+		// Repository analysis - local checkout scanned by the analysis agent for tickets
+		REPO_ANALYSIS_PATH: z.string().optional(),
+		REPO_ANALYSIS_INTERVAL_HOURS: z.coerce.number().positive().optional(),
+		// Ticket sync - what a full sync does with tickets missing from their provider
+		SYNC_ORPHAN_POLICY: z.enum(["archive", "delete", "keep"]).optional(),
+		// Ticket sync - which side wins when a field changed locally and at the provider
+		SYNC_CONFLICT_STRATEGY: z
+			.enum(["provider-wins", "local-wins", "manual"])
+			.optional(),
+		// Ticket sync - background schedule in minutes, e.g. "jira=5,linear=15" per provider
+		SYNC_INTERVAL_MINUTES: z.coerce.number().positive().optional(),
+		SYNC_PROVIDER_INTERVALS: z.string().optional(),
 
 		FAST_MODE: z.boolean().optional().default(false),
 	},
@@ -52,6 +92,9 @@ export const env = createEnv({
 	 */
 	runtimeEnv: {
 		BETTER_AUTH_SECRET: process.env.BETTER_AUTH_SECRET,
+		CREDENTIAL_ENCRYPTION_KEY: process.env.CREDENTIAL_ENCRYPTION_KEY,
+		CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS:
+			process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS,
 		BETTER_AUTH_GITHUB_CLIENT_ID: process.env.BETTER_AUTH_GITHUB_CLIENT_ID,
 		BETTER_AUTH_GITHUB_CLIENT_SECRET:
 			process.env.BETTER_AUTH_GITHUB_CLIENT_SECRET,
@@ -69,8 +112,33 @@ export const env = createEnv({
 		JIRA_BASE_URL: process.env.JIRA_BASE_URL,
 		JIRA_API_TOKEN: process.env.JIRA_API_TOKEN,
 		JIRA_PROJECT_KEY: process.env.JIRA_PROJECT_KEY,
+		JIRA_JQL: process.env.JIRA_JQL,
+		JIRA_EPIC_LINK_FIELD: process.env.JIRA_EPIC_LINK_FIELD,
+		JIRA_STORY_POINTS_FIELD: process.env.JIRA_STORY_POINTS_FIELD,
+		JIRA_WEBHOOK_SECRET: process.env.JIRA_WEBHOOK_SECRET,
 		// Ticket Providers - Linear
 		LINEAR_API_KEY: process.env.LINEAR_API_KEY,
+		LINEAR_TEAM_KEYS: process.env.LINEAR_TEAM_KEYS,
+		LINEAR_PROJECT_IDS: process.env.LINEAR_PROJECT_IDS,
+		LINEAR_STATES: process.env.LINEAR_STATES,
+		LINEAR_WEBHOOK_SECRET: process.env.LINEAR_WEBHOOK_SECRET,
+		// Ticket Providers - GitHub Issues
+		GITHUB_API_URL: process.env.GITHUB_API_URL,
+		GITHUB_TOKEN: process.env.GITHUB_TOKEN,
+		GITHUB_OWNER: process.env.GITHUB_OWNER,
+		GITHUB_REPO: process.env.GITHUB_REPO,
+		// Ticket Providers - GitLab Issues
+		GITLAB_BASE_URL: process.env.GITLAB_BASE_URL,
+		GITLAB_TOKEN: process.env.GITLAB_TOKEN,
+		GITLAB_PROJECT_ID: process.env.GITLAB_PROJECT_ID,
+		// Repository analysis
+		REPO_ANALYSIS_PATH: process.env.REPO_ANALYSIS_PATH,
+		REPO_ANALYSIS_INTERVAL_HOURS: process.env.REPO_ANALYSIS_INTERVAL_HOURS,
+		// Ticket sync
+		SYNC_ORPHAN_POLICY: process.env.SYNC_ORPHAN_POLICY,
+		SYNC_CONFLICT_STRATEGY: process.env.SYNC_CONFLICT_STRATEGY,
+		SYNC_INTERVAL_MINUTES: process.env.SYNC_INTERVAL_MINUTES,
+		SYNC_PROVIDER_INTERVALS: process.env.SYNC_PROVIDER_INTERVALS,
 
 		FAST_MODE: process.env.FAST_MODE === "true",
 		// Client-side - use NEXT_PUBLIC_ prefixed variable
@@ -0,0 +1,27 @@
+/**
+ * Next.js server startup hook; encrypts any plaintext credentials and starts
+ * scheduled ticket syncs in the Node.js runtime
+ */
+export async function register() {
+	if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+	const { encryptStoredCredentials } = await import(
+		"@/server/db/encrypt-credentials"
+	);
+	await encryptStoredCredentials()
+		.then((count) => {
+			if (count > 0) {
+				console.log(`[credentials] Re-encrypted ${count} stored credentials`);
+			}
+		})
+		.catch((error: unknown) => {
+			console.error("[credentials] Failed to re-encrypt credentials:", error);
+		});
+
+	const { getSyncScheduler } = await import("@/server/tickets/sync-scheduler");
+	getSyncScheduler()
+		.start()
+		.catch((error: unknown) => {
+			console.error("[sync-scheduler] Failed to start:", error);
+		});
+}
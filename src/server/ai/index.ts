@@ -32,6 +32,9 @@ export {
 	buildRecommendedProgrammerPrompt,
 	buildRecommendedStepsPrompt,
 	buildRepoContextPrompt,
+	formatCommentsForPrompt,
+	PROMPT_COMMENT_LIMIT,
+	type RankingTicketBlocking,
 } from "./prompts";
 
 export const DEFAULT_MODEL = OPENROUTER_DEFAULT_MODEL;
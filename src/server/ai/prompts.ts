@@ -1,13 +1,49 @@
 import dedent from "dedent";
-import type { ticketMessages, tickets } from "@/server/db/schema";
+import type {
+	ticketComments,
+	ticketMessages,
+	tickets,
+} from "@/server/db/schema";
 
 type Ticket = typeof tickets.$inferSelect;
 type TicketMessage = typeof ticketMessages.$inferSelect;
+type TicketComment = typeof ticketComments.$inferSelect;
+
+/** Number of recent provider comments included in prompts */
+export const PROMPT_COMMENT_LIMIT = 5;
+
+/** Longer comments are cut to keep prompts small */
+const PROMPT_COMMENT_MAX_LENGTH = 1000;
+
+/**
+ * Format provider comments (oldest first) as a list for prompts
+ */
+export function formatCommentsForPrompt(
+	comments: Pick<TicketComment, "author" | "body" | "createdAt">[],
+): string {
+	return comments
+		.slice(-PROMPT_COMMENT_LIMIT)
+		.map((c) => {
+			const body =
+				c.body.length > PROMPT_COMMENT_MAX_LENGTH
+					? `${c.body.slice(0, PROMPT_COMMENT_MAX_LENGTH)}…`
+					: c.body;
+			return `- ${c.author ?? "Unknown"} (${c.createdAt.toISOString().slice(0, 10)}): ${body}`;
+		})
+		.join("\n");
+}
 
 /**
  * Build system prompt for ticket chat assistant
  */
-export function buildChatSystemPrompt(ticket: Ticket): string {
+export function buildChatSystemPrompt(
+	ticket: Ticket,
+	comments: Pick<TicketComment, "author" | "body" | "createdAt">[] = [],
+): string {
+	const commentSection = comments.length
+		? `\n\n**Recent comments:**\n${formatCommentsForPrompt(comments)}`
+		: "";
+
 	return dedent`
     You are a helpful AI assistant helping developers understand and work on tickets.
     You have access to the following ticket information:
@@ -21,7 +57,7 @@ export function buildChatSystemPrompt(ticket: Ticket): string {
     - Provider: ${ticket.provider}
 
     **Description:**
-    ${ticket.description || "No description provided."}
+    ${ticket.description || "No description provided."}${commentSection}
 
     Help the user understand this ticket, provide implementation suggestions,
     identify potential issues, and answer questions about the work involved.
@@ -126,9 +162,33 @@ export function buildRecommendedProgrammerPrompt(
 }
 
 /**
- * Build prompt for ranking/scoring tickets
+ * External IDs of unfinished tickets on either side of a ticket's blocking links
  */
-export function buildRankingPrompt(ticketsToRank: Ticket[]): {
+export interface RankingTicketBlocking {
+	/** Tickets waiting on this one */
+	blocks: string[];
+	/** Tickets this one waits on */
+	blockedBy: string[];
+}
+
+/** Longest list of linked ticket IDs shown per ticket */
+const PROMPT_LINK_LIMIT = 10;
+
+function formatLinkedIds(ids: string[]): string {
+	const shown = ids.slice(0, PROMPT_LINK_LIMIT).join(", ");
+	return ids.length > PROMPT_LINK_LIMIT
+		? `${shown} and ${ids.length - PROMPT_LINK_LIMIT} more`
+		: shown;
+}
+
+/**
+ * Build prompt for ranking/scoring tickets. `blocking` holds the open
+ * blocking links of tickets keyed by ticket ID.
+ */
+export function buildRankingPrompt(
+	ticketsToRank: Ticket[],
+	blocking: Record<string, RankingTicketBlocking> = {},
+): {
 	system: string;
 	user: string;
 } {
@@ -142,6 +202,12 @@ export function buildRankingPrompt(ticketsToRank: Ticket[]): {
     - Complexity (0-10): How difficult is this to implement? Higher = more complex.
     - Overall (0-10): Combined priority score for ordering the backlog.
 
+    Dependencies:
+    - A ticket that blocks other open tickets unblocks that work once done;
+      the more tickets it blocks, the higher its urgency and overall score.
+    - A ticket blocked by open tickets cannot be finished before them; score
+      its urgency lower unless its blockers are also in this batch.
+
     Return your analysis as a JSON array with the following structure:
     [
       {
@@ -155,17 +221,27 @@ export function buildRankingPrompt(ticketsToRank: Ticket[]): {
     ]
   `;
 
-	const ticketSummaries = ticketsToRank.map(
-		(t) => dedent`
+	const ticketSummaries = ticketsToRank.map((t) => {
+		const { blocks = [], blockedBy = [] } = blocking[t.id] ?? {};
+		const dependencies = [
+			blocks.length > 0 &&
+				`Blocks ${blocks.length} open ticket${blocks.length === 1 ? "" : "s"}: ${formatLinkedIds(blocks)}`,
+			blockedBy.length > 0 &&
+				`Blocked by ${blockedBy.length} open ticket${blockedBy.length === 1 ? "" : "s"}: ${formatLinkedIds(blockedBy)}`,
+		].filter(Boolean);
+
+		return dedent`
     ---
     ID: ${t.id}
+    Key: ${t.externalId ?? "None"}
     Title: ${t.title}
     Priority: ${t.priority}
     Status: ${t.status}
     Labels: ${t.labels?.join(", ") || "None"}
+    Dependencies: ${dependencies.join("; ") || "None"}
     Description: ${(t.description || "No description").slice(0, 300)}...
-  `,
-	);
+  `;
+	});
 
 	const user = dedent`
     Please analyze and score the following tickets for prioritization:
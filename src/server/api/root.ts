@@ -1,4 +1,6 @@
 import { agentServerRouter } from "@/server/api/routers/agentServer";
+import { settingsRouter } from "@/server/api/routers/settings";
+import { sprintRouter } from "@/server/api/routers/sprint";
 import { ticketRouter } from "@/server/api/routers/ticket";
 import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 
@@ -9,6 +11,8 @@ import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
  */
 export const appRouter = createTRPCRouter({
 	agentServer: agentServerRouter,
+	settings: settingsRouter,
+	sprint: sprintRouter,
 	ticket: ticketRouter,
 });
 
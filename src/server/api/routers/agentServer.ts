@@ -12,6 +12,7 @@ import { TRPCError } from "@trpc/server";
 import dedent from "dedent";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
+import { formatCommentsForPrompt, PROMPT_COMMENT_LIMIT } from "@/server/ai";
 import {
 	agentRegistry,
 	getCurrentToolCalls,
@@ -414,6 +415,10 @@ export const agentServerRouter = createTRPCRouter({
 						orderBy: (r, { desc }) => desc(r.createdAt),
 						limit: 1,
 					},
+					comments: {
+						orderBy: (c, { desc }) => desc(c.createdAt),
+						limit: PROMPT_COMMENT_LIMIT,
+					},
 				},
 			});
 
@@ -437,6 +442,10 @@ export const agentServerRouter = createTRPCRouter({
 				`)
 				: "";
 
+			const commentContext = ticket.comments.length
+				? `\n\nRecent comments:\n${formatCommentsForPrompt([...ticket.comments].reverse())}`
+				: "";
+
 			const defaultQuestion = dedent(`
 				Please analyze this ticket and provide:
 				1. A high-level implementation plan with key steps (keep this very short)
@@ -455,7 +464,7 @@ export const agentServerRouter = createTRPCRouter({
 				${rankingContext}
 
 				Description:
-				${ticket.description ?? "No description provided."}
+				${ticket.description ?? "No description provided."}${commentContext}
 
 				---
 
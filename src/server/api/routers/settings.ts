@@ -0,0 +1,255 @@
+/**
+ * Settings tRPC Router
+ *
+ * Handles configuration stored in the database, such as provider
+ * connections and per-provider status and priority mappings.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import {
+	mappedTicketFieldEnum,
+	ticketPriorityEnum,
+	ticketStatusEnum,
+} from "@/server/db/schema";
+import {
+	createConnection,
+	deleteConnection,
+	getConnectionRepoScan,
+	listConnections,
+	scanConnectionRepo,
+	testConnection,
+	updateConnection,
+} from "@/server/tickets/connections";
+import { listProviderPlugins } from "@/server/tickets/provider-registry";
+import {
+	describeConfigFields,
+	ticketProviderKeySchema,
+} from "@/server/tickets/providers";
+import {
+	deleteValueMapping,
+	listValueMappings,
+	saveValueMapping,
+} from "@/server/tickets/value-mappings";
+
+const connectionInput = z.object({
+	provider: ticketProviderKeySchema,
+	name: z.string().trim().min(1).max(255),
+	// Validated against the provider's config schema; an omitted apiToken
+	// keeps the stored one when editing
+	values: z.record(z.string(), z.unknown()),
+	enabled: z.boolean().optional(),
+});
+
+/**
+ * Turn a validation error from the connection service into a bad request
+ */
+function toBadRequest(error: unknown): TRPCError {
+	return new TRPCError({
+		code: "BAD_REQUEST",
+		message: error instanceof Error ? error.message : String(error),
+		cause: error,
+	});
+}
+
+export const settingsRouter = createTRPCRouter({
+	// ========================================================================
+	// Provider Connections
+	// ========================================================================
+
+	/**
+	 * List the provider types connections can be created for, with the
+	 * settings form fields generated from their config schemas
+	 */
+	listProviderTypes: publicProcedure.query(() => {
+		return listProviderPlugins().map((plugin) => ({
+			key: plugin.key,
+			displayName: plugin.displayName,
+			description: plugin.description ?? null,
+			capabilities: plugin.capabilities,
+			fields: describeConfigFields(plugin.configSchema),
+		}));
+	}),
+
+	/**
+	 * List provider connections without their credentials
+	 */
+	listConnections: publicProcedure.query(async () => {
+		return listConnections();
+	}),
+
+	/**
+	 * Add a provider connection
+	 */
+	createConnection: publicProcedure
+		.input(connectionInput)
+		.mutation(async ({ input }) => {
+			try {
+				return await createConnection(input);
+			} catch (error) {
+				throw toBadRequest(error);
+			}
+		}),
+
+	/**
+	 * Change a provider connection; the provider type cannot change
+	 */
+	updateConnection: publicProcedure
+		.input(
+			connectionInput.omit({ provider: true }).extend({
+				id: z.string(),
+				values: connectionInput.shape.values.optional(),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const { id, ...changes } = input;
+			let updated: Awaited<ReturnType<typeof updateConnection>>;
+			try {
+				updated = await updateConnection(id, changes);
+			} catch (error) {
+				throw toBadRequest(error);
+			}
+
+			if (!updated) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Connection not found",
+				});
+			}
+			return updated;
+		}),
+
+	/**
+	 * Remove a provider connection, keeping its tickets
+	 */
+	deleteConnection: publicProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ input }) => {
+			const deleted = await deleteConnection(input.id);
+			if (!deleted) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Connection not found",
+				});
+			}
+			return { success: true };
+		}),
+
+	/**
+	 * Check connection settings against the provider without saving them
+	 */
+	testConnection: publicProcedure
+		.input(
+			connectionInput
+				.omit({ name: true })
+				.extend({ id: z.string().optional() }),
+		)
+		.mutation(async ({ input }) => {
+			return testConnection(input);
+		}),
+
+	/**
+	 * Latest repository scan of a repository analysis connection
+	 */
+	getRepoScan: publicProcedure
+		.input(z.object({ id: z.string() }))
+		.query(async ({ input }) => {
+			let scan: Awaited<ReturnType<typeof getConnectionRepoScan>>;
+			try {
+				scan = await getConnectionRepoScan(input.id);
+			} catch (error) {
+				throw toBadRequest(error);
+			}
+
+			if (scan === undefined) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Connection not found",
+				});
+			}
+			return scan;
+		}),
+
+	/**
+	 * Start a repository scan now
+	 */
+	scanRepo: publicProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ input }) => {
+			let jobId: string | null;
+			try {
+				jobId = await scanConnectionRepo(input.id);
+			} catch (error) {
+				throw toBadRequest(error);
+			}
+
+			if (!jobId) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Connection not found",
+				});
+			}
+			return { jobId };
+		}),
+
+	// ========================================================================
+	// Value Mappings
+	// ========================================================================
+
+	/**
+	 * List status/priority mappings, including values seen but not yet mapped
+	 */
+	listValueMappings: publicProcedure
+		.input(
+			z
+				.object({
+					connectionId: z.string().optional(),
+				})
+				.optional(),
+		)
+		.query(async ({ input }) => {
+			return listValueMappings(input?.connectionId);
+		}),
+
+	/**
+	 * Map an external status/priority name to an internal value
+	 */
+	saveValueMapping: publicProcedure
+		.input(
+			z
+				.object({
+					connectionId: z.string(),
+					field: z.enum(mappedTicketFieldEnum),
+					externalValue: z.string().trim().min(1).max(255),
+					internalValue: z
+						.enum([...ticketStatusEnum, ...ticketPriorityEnum])
+						.nullable(),
+				})
+				.refine(
+					(input) =>
+						input.internalValue === null ||
+						(input.field === "status"
+							? (ticketStatusEnum as readonly string[])
+							: (ticketPriorityEnum as readonly string[])
+						).includes(input.internalValue),
+					{
+						message: "Internal value does not match the mapped field",
+						path: ["internalValue"],
+					},
+				),
+		)
+		.mutation(async ({ input }) => {
+			return saveValueMapping(input);
+		}),
+
+	/**
+	 * Delete a mapping
+	 */
+	deleteValueMapping: publicProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ input }) => {
+			await deleteValueMapping(input.id);
+			return { success: true };
+		}),
+});
@@ -0,0 +1,162 @@
+/**
+ * Sprint tRPC Router
+ *
+ * Handles sprints and planning tickets into them. Sprints synced from a
+ * provider are kept up to date by ticket sync; sprints created here are
+ * planned locally.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import { sprintStateEnum } from "@/server/db/schema";
+import {
+	addTicketToSprint,
+	createSprint,
+	deleteSprint,
+	getSprintPlan,
+	listSprints,
+	removeTicketFromSprint,
+	updateSprint,
+} from "@/server/tickets/sprints";
+
+const sprintInput = z.object({
+	name: z.string().trim().min(1).max(255),
+	goal: z.string().trim().max(2000).nullish(),
+	state: z.enum(sprintStateEnum).optional(),
+	startDate: z.coerce.date().nullish(),
+	endDate: z.coerce.date().nullish(),
+	capacity: z.number().min(0).nullish(),
+});
+
+const sprintTicketInput = z.object({
+	sprintId: z.string(),
+	ticketId: z.string(),
+});
+
+/**
+ * Turn a validation error from the sprint service into a bad request
+ */
+function toBadRequest(error: unknown): TRPCError {
+	return new TRPCError({
+		code: "BAD_REQUEST",
+		message: error instanceof Error ? error.message : String(error),
+		cause: error,
+	});
+}
+
+export const sprintRouter = createTRPCRouter({
+	/**
+	 * List sprints, active ones first, with their ticket counts
+	 */
+	list: publicProcedure.query(async () => {
+		return listSprints();
+	}),
+
+	/**
+	 * Get a sprint with its planned tickets and effort against capacity
+	 */
+	byId: publicProcedure
+		.input(z.object({ id: z.string() }))
+		.query(async ({ input }) => {
+			const plan = await getSprintPlan(input.id);
+			if (!plan) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Sprint not found",
+				});
+			}
+			return plan;
+		}),
+
+	/**
+	 * Create a locally planned sprint
+	 */
+	create: publicProcedure.input(sprintInput).mutation(async ({ input }) => {
+		try {
+			return await createSprint(input);
+		} catch (error) {
+			throw toBadRequest(error);
+		}
+	}),
+
+	/**
+	 * Change a sprint; synced sprints only accept a new capacity
+	 */
+	update: publicProcedure
+		.input(sprintInput.partial().extend({ id: z.string() }))
+		.mutation(async ({ input }) => {
+			const { id, ...changes } = input;
+			let updated: Awaited<ReturnType<typeof updateSprint>>;
+			try {
+				updated = await updateSprint(id, changes);
+			} catch (error) {
+				throw toBadRequest(error);
+			}
+
+			if (!updated) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Sprint not found",
+				});
+			}
+			return updated;
+		}),
+
+	/**
+	 * Delete a locally planned sprint, returning its tickets to the backlog
+	 */
+	delete: publicProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ input }) => {
+			let deleted: boolean;
+			try {
+				deleted = await deleteSprint(input.id);
+			} catch (error) {
+				throw toBadRequest(error);
+			}
+
+			if (!deleted) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Sprint not found",
+				});
+			}
+			return { success: true };
+		}),
+
+	/**
+	 * Plan a ticket into a sprint
+	 */
+	addTicket: publicProcedure
+		.input(sprintTicketInput)
+		.mutation(async ({ input }) => {
+			const added = await addTicketToSprint(input.sprintId, input.ticketId);
+			if (!added) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Sprint or ticket not found",
+				});
+			}
+			return { success: true };
+		}),
+
+	/**
+	 * Take a ticket out of a sprint, back into the backlog
+	 */
+	removeTicket: publicProcedure
+		.input(sprintTicketInput)
+		.mutation(async ({ input }) => {
+			const removed = await removeTicketFromSprint(
+				input.sprintId,
+				input.ticketId,
+			);
+			if (!removed) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Ticket is not in this sprint",
+				});
+			}
+			return { success: true };
+		}),
+});
@@ -1,5 +1,15 @@
 import { TRPCError } from "@trpc/server";
-import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import {
+	and,
+	asc,
+	count,
+	desc,
+	eq,
+	inArray,
+	isNull,
+	notInArray,
+	sql,
+} from "drizzle-orm";
 import { z } from "zod";
 import {
 	analyzeWithAI,
@@ -12,30 +22,224 @@ import {
 	getActiveAIProvider,
 	isCerebrasConfigured,
 	isOpenRouterConfigured,
+	PROMPT_COMMENT_LIMIT,
 	parseJsonResponse,
 } from "@/server/ai";
 import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
 import { db as database } from "@/server/db";
 import {
+	finishedTicketStatuses,
+	syncConflictResolutionEnum,
+	ticketLinks,
 	ticketMessages,
 	ticketPriorityEnum,
-	ticketProviderEnum,
 	ticketRankings,
 	ticketRecommendations,
 	ticketStatusEnum,
+	ticketSyncConflicts,
 	tickets,
 } from "@/server/db/schema";
+import { conflictStrategyEnum } from "@/server/tickets/conflicts";
 import {
 	getPersistedSessions,
 	persistOpencodeSession,
 } from "@/server/tickets/opencode";
 import { opencodeTicketService } from "@/server/tickets/opencode-service";
-import { getProviderRegistry } from "@/server/tickets/provider-registry";
+import {
+	getProviderRegistry,
+	listProviderPlugins,
+} from "@/server/tickets/provider-registry";
+import { ticketProviderKeySchema } from "@/server/tickets/providers";
 import {
 	createManualTicket,
+	getRecentSyncRuns,
+	importManualTickets,
+	orphanPolicyEnum,
+	resolveSyncConflict,
 	syncAllProviders,
-	syncProvider,
+	syncConnection,
 } from "@/server/tickets/sync";
+import {
+	getSyncScheduler,
+	setSchedulePaused,
+} from "@/server/tickets/sync-scheduler";
+import {
+	formatTicketExport,
+	ticketExportFormatEnum,
+} from "@/server/tickets/ticket-export";
+import { TicketHierarchy } from "@/server/tickets/ticket-hierarchy";
+import {
+	guessImportMapping,
+	parseImportFile,
+	type TicketImportMapping,
+	ticketImportFieldEnum,
+	ticketImportFormatEnum,
+	validateImportRows,
+} from "@/server/tickets/ticket-import";
+import {
+	type ResolvedTicketLink,
+	resolveTicketLinks,
+	summarizeBlocking,
+} from "@/server/tickets/ticket-links";
+import { pushTicketChanges } from "@/server/tickets/write-back";
+
+const ticketImportInput = z.object({
+	format: z.enum(ticketImportFormatEnum),
+	// File contents; a few thousand spreadsheet rows fit comfortably
+	content: z.string().max(5_000_000),
+	mapping: z
+		.partialRecord(z.enum(ticketImportFieldEnum), z.string())
+		.optional(),
+});
+
+/**
+ * Parse an uploaded file and validate its rows, using a mapping guessed from
+ * the column names when none is given
+ */
+function readImportFile(input: z.infer<typeof ticketImportInput>) {
+	let parsed: ReturnType<typeof parseImportFile>;
+	try {
+		parsed = parseImportFile(input.content, input.format);
+	} catch (error) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: error instanceof Error ? error.message : "Unreadable file",
+		});
+	}
+
+	const mapping: TicketImportMapping =
+		input.mapping ?? guessImportMapping(parsed.columns);
+	return {
+		columns: parsed.columns,
+		mapping,
+		rowCount: parsed.rows.length,
+		...validateImportRows(parsed.rows, mapping),
+	};
+}
+
+const ticketListFilterInput = z.object({
+	status: z.enum(ticketStatusEnum).optional(),
+	priority: z.enum(ticketPriorityEnum).optional(),
+	provider: ticketProviderKeySchema.optional(),
+	connectionId: z.string().optional(),
+	includeArchived: z.boolean().default(false),
+	sortBy: z
+		.enum(["createdAt", "updatedAt", "priority", "aiScore"])
+		.default("createdAt"),
+	sortOrder: z.enum(["asc", "desc"]).default("desc"),
+});
+
+/**
+ * Where and order-by clauses for the ticket list filters, shared by list and
+ * export
+ */
+function buildTicketListQuery(
+	input?: Partial<z.infer<typeof ticketListFilterInput>>,
+) {
+	const sortBy = input?.sortBy ?? "createdAt";
+	const sortOrder = input?.sortOrder ?? "desc";
+
+	// Build where conditions
+	const conditions = [];
+	if (input?.status) conditions.push(eq(tickets.status, input.status));
+	if (input?.priority) conditions.push(eq(tickets.priority, input.priority));
+	if (input?.provider) conditions.push(eq(tickets.provider, input.provider));
+	if (input?.connectionId) {
+		conditions.push(eq(tickets.connectionId, input.connectionId));
+	}
+	if (!input?.includeArchived) conditions.push(isNull(tickets.archivedAt));
+
+	// Build order by
+	const sortColumn = {
+		createdAt: tickets.createdAt,
+		updatedAt: tickets.updatedAt,
+		priority: tickets.priority,
+		aiScore: tickets.aiScore,
+	}[sortBy];
+
+	return {
+		where: conditions.length > 0 ? and(...conditions) : undefined,
+		orderBy: sortOrder === "desc" ? desc(sortColumn) : asc(sortColumn),
+	};
+}
+
+/**
+ * Load the links of the given tickets keyed by ticket ID, with the linked
+ * tickets looked up in each ticket's own connection
+ */
+async function loadTicketLinks(
+	ticketList: Pick<typeof tickets.$inferSelect, "id" | "connectionId">[],
+): Promise<Map<string, ResolvedTicketLink[]>> {
+	const result = new Map<string, ResolvedTicketLink[]>();
+	const ids = ticketList.map((t) => t.id);
+	if (ids.length === 0) return result;
+
+	const links = await database.query.ticketLinks.findMany({
+		where: inArray(ticketLinks.ticketId, ids),
+	});
+	if (links.length === 0) return result;
+
+	const connectionIds = [
+		...new Set(ticketList.map((t) => t.connectionId).filter((id) => !!id)),
+	] as string[];
+	const targets =
+		connectionIds.length > 0
+			? await database.query.tickets.findMany({
+					columns: {
+						id: true,
+						externalId: true,
+						title: true,
+						status: true,
+						connectionId: true,
+					},
+					where: and(
+						inArray(tickets.connectionId, connectionIds),
+						inArray(
+							tickets.externalId,
+							links.map((l) => l.targetExternalId),
+						),
+					),
+				})
+			: [];
+
+	for (const ticket of ticketList) {
+		result.set(
+			ticket.id,
+			resolveTicketLinks(
+				links.filter((l) => l.ticketId === ticket.id),
+				targets.filter((t) => t.connectionId === ticket.connectionId),
+			),
+		);
+	}
+	return result;
+}
+
+/**
+ * Parent/child index over the active tickets of the given connections
+ */
+async function loadTicketHierarchy(
+	connectionIds: (string | null)[],
+): Promise<TicketHierarchy> {
+	const ids = [...new Set(connectionIds)].filter((id) => !!id) as string[];
+	const rows =
+		ids.length > 0
+			? await database.query.tickets.findMany({
+					columns: {
+						id: true,
+						externalId: true,
+						parentExternalId: true,
+						connectionId: true,
+						title: true,
+						status: true,
+					},
+					where: and(
+						inArray(tickets.connectionId, ids),
+						isNull(tickets.archivedAt),
+					),
+				})
+			: [];
+	return new TicketHierarchy(rows);
+}
 
 export const ticketRouter = createTRPCRouter({
 	// ========================================================================
@@ -47,55 +251,25 @@ export const ticketRouter = createTRPCRouter({
 	 */
 	list: publicProcedure
 		.input(
-			z
-				.object({
-					status: z.enum(ticketStatusEnum).optional(),
-					priority: z.enum(ticketPriorityEnum).optional(),
-					provider: z.enum(ticketProviderEnum).optional(),
-					sortBy: z
-						.enum(["createdAt", "updatedAt", "priority", "aiScore"])
-						.default("createdAt"),
-					sortOrder: z.enum(["asc", "desc"]).default("desc"),
+			ticketListFilterInput
+				.extend({
 					limit: z.number().min(1).max(100).default(50),
 					offset: z.number().min(0).default(0),
 				})
 				.optional(),
 		)
 		.query(async ({ ctx, input }) => {
-			const status = input?.status;
-			const priority = input?.priority;
-			const provider = input?.provider;
-			const sortBy = input?.sortBy ?? "createdAt";
-			const sortOrder = input?.sortOrder ?? "desc";
 			const limit = input?.limit ?? 50;
 			const offset = input?.offset ?? 0;
-
-			// Build where conditions
-			const conditions = [];
-			if (status) conditions.push(eq(tickets.status, status));
-			if (priority) conditions.push(eq(tickets.priority, priority));
-			if (provider) conditions.push(eq(tickets.provider, provider));
-
-			const whereClause =
-				conditions.length > 0 ? and(...conditions) : undefined;
-
-			// Build order by
-			const sortColumn = {
-				createdAt: tickets.createdAt,
-				updatedAt: tickets.updatedAt,
-				priority: tickets.priority,
-				aiScore: tickets.aiScore,
-			}[sortBy];
-
-			const orderByClause =
-				sortOrder === "desc" ? desc(sortColumn) : asc(sortColumn);
+			const { where, orderBy } = buildTicketListQuery(input);
 
 			const result = await ctx.db.query.tickets.findMany({
-				where: whereClause,
-				orderBy: orderByClause,
+				where,
+				orderBy,
 				limit,
 				offset,
 				with: {
+					connection: { columns: { name: true } },
 					recommendations: {
 						orderBy: (r, { desc }) => desc(r.createdAt),
 						limit: 1,
@@ -110,6 +284,84 @@ export const ticketRouter = createTRPCRouter({
 			return result;
 		}),
 
+	/**
+	 * List tickets matching the filters grouped by epic (top-level ancestor),
+	 * with each epic's progress over all its descendants
+	 */
+	listByEpic: publicProcedure
+		.input(
+			ticketListFilterInput
+				.extend({ limit: z.number().min(1).max(1000).default(500) })
+				.optional(),
+		)
+		.query(async ({ ctx, input }) => {
+			const { where, orderBy } = buildTicketListQuery(input);
+
+			const result = await ctx.db.query.tickets.findMany({
+				where,
+				orderBy,
+				limit: input?.limit ?? 500,
+				with: {
+					connection: { columns: { name: true } },
+					rankings: {
+						orderBy: (r, { desc }) => desc(r.createdAt),
+						limit: 1,
+					},
+				},
+			});
+
+			const hierarchy = await loadTicketHierarchy(
+				result.map((t) => t.connectionId),
+			);
+			return hierarchy.groupByEpic(result);
+		}),
+
+	/**
+	 * Export the tickets matching the list filters as CSV, JSON or a Markdown
+	 * report with the latest ranking and recommendation of each
+	 */
+	exportTickets: publicProcedure
+		.input(
+			ticketListFilterInput.extend({
+				format: z.enum(ticketExportFormatEnum),
+				limit: z.number().min(1).max(5000).default(1000),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const { where, orderBy } = buildTicketListQuery(input);
+
+			const [result, [matching]] = await Promise.all([
+				ctx.db.query.tickets.findMany({
+					where,
+					orderBy,
+					limit: input.limit,
+					with: {
+						connection: { columns: { name: true } },
+						recommendations: {
+							orderBy: (r, { desc }) => desc(r.createdAt),
+							limit: 1,
+						},
+						rankings: {
+							orderBy: (r, { desc }) => desc(r.createdAt),
+							limit: 1,
+						},
+					},
+				}),
+				// Tells the caller when the limit cut the export short
+				ctx.db
+					.select({ count: count() })
+					.from(tickets)
+					.where(where),
+			]);
+
+			return formatTicketExport(
+				result,
+				input.format,
+				new Date(),
+				matching?.count ?? result.length,
+			);
+		}),
+
 	/**
 	 * Get a single ticket by ID with all related data
 	 */
@@ -119,6 +371,7 @@ export const ticketRouter = createTRPCRouter({
 			const ticket = await ctx.db.query.tickets.findFirst({
 				where: eq(tickets.id, input.id),
 				with: {
+					connection: { columns: { name: true } },
 					recommendations: {
 						orderBy: (r, { desc }) => desc(r.createdAt),
 						limit: 1,
@@ -126,6 +379,9 @@ export const ticketRouter = createTRPCRouter({
 					messages: {
 						orderBy: (m, { asc }) => asc(m.createdAt),
 					},
+					comments: {
+						orderBy: (c, { asc }) => asc(c.createdAt),
+					},
 					rankings: {
 						orderBy: (r, { desc }) => desc(r.createdAt),
 						limit: 1,
@@ -140,7 +396,20 @@ export const ticketRouter = createTRPCRouter({
 				});
 			}
 
-			return ticket;
+			const [links, hierarchy] = await Promise.all([
+				loadTicketLinks([ticket]),
+				loadTicketHierarchy([ticket.connectionId]),
+			]);
+			return {
+				...ticket,
+				links: links.get(ticket.id) ?? [],
+				ancestors: hierarchy.ancestors(ticket),
+				children: hierarchy.children(ticket).map((child) => ({
+					...child,
+					progress: hierarchy.progress(child),
+				})),
+				progress: hierarchy.progress(ticket),
+			};
 		}),
 
 	/**
@@ -155,16 +424,75 @@ export const ticketRouter = createTRPCRouter({
 			});
 		}),
 
+	/**
+	 * Get unresolved sync conflicts for a ticket
+	 */
+	getSyncConflicts: publicProcedure
+		.input(z.object({ ticketId: z.string() }))
+		.query(async ({ ctx, input }) => {
+			return ctx.db.query.ticketSyncConflicts.findMany({
+				where: and(
+					eq(ticketSyncConflicts.ticketId, input.ticketId),
+					eq(ticketSyncConflicts.status, "open"),
+				),
+				orderBy: asc(ticketSyncConflicts.detectedAt),
+			});
+		}),
+
+	/**
+	 * Get recent sync runs, newest first
+	 */
+	getSyncRuns: publicProcedure
+		.input(
+			z
+				.object({
+					provider: ticketProviderKeySchema.optional(),
+					connectionId: z.string().optional(),
+					limit: z.number().min(1).max(100).default(20),
+				})
+				.optional(),
+		)
+		.query(async ({ input }) => {
+			return getRecentSyncRuns({
+				provider: input?.provider,
+				connectionId: input?.connectionId,
+				limit: input?.limit,
+			});
+		}),
+
+	/**
+	 * Get interval, pause state and next/last run times of scheduled syncs
+	 */
+	getSyncSchedule: publicProcedure.query(async () => {
+		return getSyncScheduler().getStatus();
+	}),
+
 	/**
 	 * Get configured providers status
 	 */
-	getProviderStatus: publicProcedure.query(() => {
-		const registry = getProviderRegistry();
-		const allProviders = registry.getAllProviders();
+	getProviderStatus: publicProcedure.query(async () => {
+		const registry = await getProviderRegistry();
+
+		return listProviderPlugins().map(({ key, displayName }) => ({
+			name: key,
+			displayName,
+			configured: registry.isProviderConfigured(key),
+			connections: registry.getConnectionsByProvider(key).length,
+		}));
+	}),
 
-		return allProviders.map((p) => ({
-			name: p.name,
-			configured: p.isConfigured(),
+	/**
+	 * Get provider connections (without credentials)
+	 */
+	getConnections: publicProcedure.query(async () => {
+		const registry = await getProviderRegistry();
+
+		return registry.getAllConnections().map(({ connection, provider }) => ({
+			id: connection.id,
+			provider: connection.provider,
+			name: connection.name,
+			enabled: connection.enabled,
+			configured: provider.isConfigured(),
 		}));
 	}),
 
@@ -199,6 +527,44 @@ export const ticketRouter = createTRPCRouter({
 			return createManualTicket(input);
 		}),
 
+	/**
+	 * Parse a CSV or JSON file and report how its rows would import, without
+	 * saving anything. A mutation because the file is sent in the body.
+	 */
+	previewImport: publicProcedure
+		.input(ticketImportInput)
+		.mutation(({ input }) => {
+			const { tickets: valid, ...result } = readImportFile(input);
+			return {
+				...result,
+				validCount: valid.length,
+				sample: valid.slice(0, 5),
+			};
+		}),
+
+	/**
+	 * Create manual tickets from the valid rows of a CSV or JSON file; rows
+	 * with errors are skipped
+	 */
+	importTickets: publicProcedure
+		.input(
+			ticketImportInput.extend({
+				mapping: ticketImportInput.shape.mapping.unwrap(),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			if (!input.mapping.title) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Map a column to the ticket title",
+				});
+			}
+			const { tickets: valid, errors } = readImportFile(input);
+
+			const created = await importManualTickets(valid);
+			return { created, skipped: errors.length };
+		}),
+
 	/**
 	 * Update a ticket
 	 */
@@ -217,6 +583,30 @@ export const ticketRouter = createTRPCRouter({
 		.mutation(async ({ ctx, input }) => {
 			const { id, ...updates } = input;
 
+			const existing = await ctx.db.query.tickets.findFirst({
+				where: eq(tickets.id, id),
+			});
+
+			if (!existing) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Ticket not found",
+				});
+			}
+
+			// Synced tickets are updated in the source system first so the
+			// next sync does not revert the edit
+			try {
+				await pushTicketChanges(existing, updates);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				throw new TRPCError({
+					code: "PRECONDITION_FAILED",
+					message: `${existing.provider} rejected the change: ${message}`,
+					cause: error,
+				});
+			}
+
 			const [updated] = await ctx.db
 				.update(tickets)
 				.set(updates)
@@ -246,17 +636,104 @@ export const ticketRouter = createTRPCRouter({
 	/**
 	 * Sync tickets from all configured providers
 	 */
-	syncAll: publicProcedure.mutation(async () => {
-		return syncAllProviders();
-	}),
+	syncAll: publicProcedure
+		.input(
+			z
+				.object({
+					full: z.boolean().default(false),
+					orphanPolicy: z.enum(orphanPolicyEnum).optional(),
+					conflictStrategy: z.enum(conflictStrategyEnum).optional(),
+				})
+				.optional(),
+		)
+		.mutation(async ({ input }) => {
+			return syncAllProviders({
+				full: input?.full,
+				orphanPolicy: input?.orphanPolicy,
+				conflictStrategy: input?.conflictStrategy,
+			});
+		}),
+
+	/**
+	 * Sync tickets from a specific provider connection
+	 */
+	syncConnection: publicProcedure
+		.input(
+			z.object({
+				connectionId: z.string(),
+				full: z.boolean().default(false),
+				orphanPolicy: z.enum(orphanPolicyEnum).optional(),
+				conflictStrategy: z.enum(conflictStrategyEnum).optional(),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const result = await syncConnection(input.connectionId, {
+				full: input.full,
+				orphanPolicy: input.orphanPolicy,
+				conflictStrategy: input.conflictStrategy,
+			});
+
+			if (!result) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Connection not found",
+				});
+			}
+
+			return result;
+		}),
+
+	/**
+	 * Pause or resume scheduled syncs for one connection, or all when omitted
+	 */
+	setSyncSchedulePaused: publicProcedure
+		.input(
+			z.object({
+				connectionId: z.string().optional(),
+				paused: z.boolean(),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const connectionIds = input.connectionId
+				? [input.connectionId]
+				: (await getProviderRegistry())
+						.getConfiguredConnections()
+						.map(({ connection }) => connection.id);
+			await setSchedulePaused(connectionIds, input.paused);
+			return getSyncScheduler().getStatus();
+		}),
 
 	/**
-	 * Sync tickets from a specific provider
+	 * Resolve a sync conflict by keeping the provider or the local value
 	 */
-	syncProvider: publicProcedure
-		.input(z.object({ provider: z.enum(ticketProviderEnum) }))
+	resolveSyncConflict: publicProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				keep: z.enum(syncConflictResolutionEnum),
+			}),
+		)
 		.mutation(async ({ input }) => {
-			return syncProvider(input.provider);
+			let resolved: Awaited<ReturnType<typeof resolveSyncConflict>>;
+			try {
+				resolved = await resolveSyncConflict(input.id, input.keep);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				throw new TRPCError({
+					code: "PRECONDITION_FAILED",
+					message,
+					cause: error,
+				});
+			}
+
+			if (!resolved) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Conflict not found",
+				});
+			}
+
+			return resolved;
 		}),
 
 	/**
@@ -273,6 +750,12 @@ export const ticketRouter = createTRPCRouter({
 			// Get ticket
 			const ticket = await ctx.db.query.tickets.findFirst({
 				where: eq(tickets.id, input.ticketId),
+				with: {
+					comments: {
+						orderBy: (c, { desc }) => desc(c.createdAt),
+						limit: PROMPT_COMMENT_LIMIT,
+					},
+				},
 			});
 
 			if (!ticket) {
@@ -310,7 +793,10 @@ export const ticketRouter = createTRPCRouter({
 			}
 
 			// Build prompts
-			const systemPrompt = buildChatSystemPrompt(ticket);
+			const systemPrompt = buildChatSystemPrompt(
+				ticket,
+				[...ticket.comments].reverse(),
+			);
 			const userPrompt = buildChatUserPrompt(existingMessages, input.message);
 
 			// Generate response using the active provider
@@ -486,8 +972,15 @@ export const ticketRouter = createTRPCRouter({
 				});
 			}
 
-			// Build ranking prompt
-			const { system, user } = buildRankingPrompt(ticketsToRank);
+			// Build ranking prompt, telling the model which tickets unblock others
+			const links = await loadTicketLinks(ticketsToRank);
+			const blocking = Object.fromEntries(
+				ticketsToRank.map((t) => [
+					t.id,
+					summarizeBlocking(links.get(t.id) ?? []),
+				]),
+			);
+			const { system, user } = buildRankingPrompt(ticketsToRank, blocking);
 			const result = await analyzeWithAI(system, user);
 
 			// Parse response
@@ -553,20 +1046,27 @@ export const ticketRouter = createTRPCRouter({
 				.object({
 					limit: z.number().min(1).max(100).default(50),
 					minScore: z.number().min(0).max(10).optional(),
+					// Leave out done and closed tickets, e.g. for sprint planning
+					unfinishedOnly: z.boolean().optional(),
 				})
 				.optional(),
 		)
 		.query(async ({ ctx, input }) => {
-			const { limit = 50, minScore } = input ?? {};
+			const { limit = 50, minScore, unfinishedOnly } = input ?? {};
 
 			const result = await ctx.db.query.tickets.findMany({
-				where:
-					minScore !== undefined
-						? (t, { gte }) => gte(t.aiScore, minScore)
-						: undefined,
+				where: (t, { gte }) =>
+					and(
+						isNull(t.archivedAt),
+						minScore !== undefined ? gte(t.aiScore, minScore) : undefined,
+						unfinishedOnly
+							? notInArray(t.status, [...finishedTicketStatuses])
+							: undefined,
+					),
 				orderBy: desc(tickets.aiScore),
 				limit,
 				with: {
+					connection: { columns: { name: true } },
 					rankings: {
 						orderBy: (r, { desc }) => desc(r.createdAt),
 						limit: 1,
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "bun:test";
+import {
+	createCredentialKeyring,
+	decryptCredential,
+	encryptCredential,
+	isEncryptedCredential,
+	rewrapCredential,
+} from "./credential-encryption";
+
+const keyring = createCredentialKeyring("a".repeat(32));
+
+describe("credential encryption", () => {
+	it("round-trips values through a fresh envelope each time", () => {
+		const first = encryptCredential("secret-token", keyring);
+		const second = encryptCredential("secret-token", keyring);
+
+		expect(isEncryptedCredential(first)).toBe(true);
+		expect(first).not.toContain("secret-token");
+		expect(first).not.toBe(second);
+		expect(decryptCredential(first, keyring)).toBe("secret-token");
+	});
+
+	it("passes plaintext from before encryption through", () => {
+		expect(decryptCredential("legacy-token", keyring)).toBe("legacy-token");
+	});
+
+	it("rejects tampered payloads", () => {
+		const encrypted = encryptCredential("secret-token", keyring);
+		const tampered = `${encrypted.slice(0, -2)}AA`;
+
+		expect(() => decryptCredential(tampered, keyring)).toThrow();
+	});
+
+	it("needs the retired secret to read values after rotation", () => {
+		const encrypted = encryptCredential("secret-token", keyring);
+		const rotated = createCredentialKeyring("b".repeat(32), ["a".repeat(32)]);
+
+		expect(() =>
+			decryptCredential(encrypted, createCredentialKeyring("b".repeat(32))),
+		).toThrow("unknown key");
+		expect(decryptCredential(encrypted, rotated)).toBe("secret-token");
+	});
+
+	it("re-wraps old envelopes and encrypts plaintext", () => {
+		const rotated = createCredentialKeyring("b".repeat(32), ["a".repeat(32)]);
+		const encrypted = encryptCredential("secret-token", keyring);
+
+		const rewrapped = rewrapCredential(encrypted, rotated);
+		expect(rewrapped).not.toBeNull();
+		expect(
+			decryptCredential(
+				rewrapped as string,
+				createCredentialKeyring("b".repeat(32)),
+			),
+		).toBe("secret-token");
+		// The payload is kept; only the data key is wrapped again
+		expect(rewrapped?.split(":").at(-1)).toBe(encrypted.split(":").at(-1));
+
+		expect(rewrapCredential(rewrapped as string, rotated)).toBeNull();
+		expect(
+			decryptCredential(rewrapCredential("plain", rotated) as string, rotated),
+		).toBe("plain");
+	});
+});
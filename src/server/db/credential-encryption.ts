@@ -0,0 +1,208 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	hkdfSync,
+	randomBytes,
+} from "node:crypto";
+
+/**
+ * Envelope encryption for credential columns.
+ *
+ * Every value is encrypted with its own random data key (AES-256-GCM), and
+ * that data key is wrapped with a key-encryption key derived from a server
+ * secret. Stored values look like `enc:v1:<keyId>:<wrappedKey>:<payload>`.
+ * Rotating the server secret only re-wraps the data keys; the payloads stay
+ * as they are.
+ */
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Used outside production when CREDENTIAL_ENCRYPTION_KEY is unset, so local
+// databases still never hold plaintext; not a secret
+const DEVELOPMENT_SECRET = "sprintagen-development-credential-key";
+
+interface KeyEncryptionKey {
+	id: string;
+	key: Buffer;
+}
+
+/**
+ * The current key-encryption key plus older ones that can still decrypt
+ */
+export interface CredentialKeyring {
+	current: KeyEncryptionKey;
+	previous: KeyEncryptionKey[];
+}
+
+function deriveKey(secret: string): KeyEncryptionKey {
+	const key = Buffer.from(
+		hkdfSync(
+			"sha256",
+			secret,
+			"sprintagen",
+			"credential-key-encryption-key",
+			32,
+		),
+	);
+	const id = createHash("sha256").update(key).digest("hex").slice(0, 8);
+	return { id, key };
+}
+
+/**
+ * Build a keyring from the current secret and any retired secrets
+ */
+export function createCredentialKeyring(
+	secret: string,
+	previousSecrets: string[] = [],
+): CredentialKeyring {
+	const current = deriveKey(secret);
+	return {
+		current,
+		previous: previousSecrets
+			.map(deriveKey)
+			.filter((key) => key.id !== current.id),
+	};
+}
+
+let cachedKeyring: CredentialKeyring | null = null;
+let warnedAboutDevelopmentKey = false;
+
+/**
+ * Keyring from CREDENTIAL_ENCRYPTION_KEY and the comma-separated
+ * CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS. Read from process.env directly since
+ * the schema, and with it this module, is also loaded by drizzle-kit.
+ */
+export function getCredentialKeyring(): CredentialKeyring {
+	if (cachedKeyring) return cachedKeyring;
+
+	const previous = (process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS ?? "")
+		.split(",")
+		.map((secret) => secret.trim())
+		.filter(Boolean);
+	let secret = process.env.CREDENTIAL_ENCRYPTION_KEY;
+
+	if (!secret) {
+		if (process.env.NODE_ENV === "production") {
+			throw new Error(
+				"CREDENTIAL_ENCRYPTION_KEY must be set to store or read credentials",
+			);
+		}
+		if (!warnedAboutDevelopmentKey) {
+			console.warn(
+				"[credentials] CREDENTIAL_ENCRYPTION_KEY is not set; using the development key",
+			);
+			warnedAboutDevelopmentKey = true;
+		}
+		secret = DEVELOPMENT_SECRET;
+	} else if (process.env.NODE_ENV !== "production") {
+		// Rows written before a key was configured used the development key
+		previous.push(DEVELOPMENT_SECRET);
+	}
+
+	cachedKeyring = createCredentialKeyring(secret, previous);
+	return cachedKeyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+	const iv = randomBytes(IV_LENGTH);
+	const cipher = createCipheriv(ALGORITHM, key, iv);
+	const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+	return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+		"base64url",
+	);
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+	const data = Buffer.from(sealed, "base64url");
+	const iv = data.subarray(0, IV_LENGTH);
+	const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+	const decipher = createDecipheriv(ALGORITHM, key, iv);
+	decipher.setAuthTag(tag);
+	return Buffer.concat([
+		decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+		decipher.final(),
+	]);
+}
+
+interface Envelope {
+	keyId: string;
+	wrappedKey: string;
+	payload: string;
+}
+
+function parseEnvelope(value: string): Envelope {
+	const [keyId, wrappedKey, payload] = value.slice(PREFIX.length).split(":");
+	if (!keyId || !wrappedKey || !payload) {
+		throw new Error("Malformed encrypted credential");
+	}
+	return { keyId, wrappedKey, payload };
+}
+
+function findKey(keyring: CredentialKeyring, keyId: string): Buffer {
+	const match = [keyring.current, ...keyring.previous].find(
+		(key) => key.id === keyId,
+	);
+	if (!match) {
+		throw new Error(
+			`Credential was encrypted with unknown key ${keyId}; add its secret to CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS`,
+		);
+	}
+	return match.key;
+}
+
+/**
+ * Whether a stored value is already an encryption envelope
+ */
+export function isEncryptedCredential(value: string): boolean {
+	return value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a credential under a fresh data key wrapped with the current key
+ */
+export function encryptCredential(
+	plaintext: string,
+	keyring: CredentialKeyring = getCredentialKeyring(),
+): string {
+	const dataKey = randomBytes(32);
+	const wrappedKey = seal(keyring.current.key, dataKey);
+	const payload = seal(dataKey, Buffer.from(plaintext, "utf8"));
+	return `${PREFIX}${keyring.current.id}:${wrappedKey}:${payload}`;
+}
+
+/**
+ * Decrypt a stored credential. Values that are not envelopes are rows from
+ * before encryption and are returned unchanged.
+ */
+export function decryptCredential(
+	value: string,
+	keyring: CredentialKeyring = getCredentialKeyring(),
+): string {
+	if (!isEncryptedCredential(value)) return value;
+
+	const { keyId, wrappedKey, payload } = parseEnvelope(value);
+	const dataKey = open(findKey(keyring, keyId), wrappedKey);
+	return open(dataKey, payload).toString("utf8");
+}
+
+/**
+ * Bring a stored value up to date: plaintext is encrypted and envelopes
+ * wrapped with a previous key get their data key re-wrapped with the
+ * current one. Returns null when the value needs no change.
+ */
+export function rewrapCredential(
+	value: string,
+	keyring: CredentialKeyring = getCredentialKeyring(),
+): string | null {
+	if (!isEncryptedCredential(value)) return encryptCredential(value, keyring);
+
+	const { keyId, wrappedKey, payload } = parseEnvelope(value);
+	if (keyId === keyring.current.id) return null;
+
+	const dataKey = open(findKey(keyring, keyId), wrappedKey);
+	return `${PREFIX}${keyring.current.id}:${seal(keyring.current.key, dataKey)}:${payload}`;
+}
@@ -0,0 +1,85 @@
+/**
+ * Credential re-encryption
+ *
+ * Encrypts credentials stored before encryption existed and re-wraps values
+ * encrypted with a previous CREDENTIAL_ENCRYPTION_KEY. Runs on server startup;
+ * run it by hand after rotating the key, before dropping the old secret from
+ * CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS:
+ *
+ *   bun run db:encrypt-credentials
+ */
+
+import { type SQL, sql } from "drizzle-orm";
+import type { SQLiteColumn, SQLiteTable } from "drizzle-orm/sqlite-core";
+import { rewrapCredential } from "./credential-encryption";
+import { db } from "./index";
+import { account, opencodeProviderKeys, providerConnections } from "./schema";
+
+interface CredentialTable {
+	table: SQLiteTable;
+	id: SQLiteColumn;
+	columns: SQLiteColumn[];
+}
+
+const CREDENTIAL_TABLES: CredentialTable[] = [
+	{
+		table: account,
+		id: account.id,
+		columns: [account.accessToken, account.refreshToken, account.idToken],
+	},
+	{
+		table: providerConnections,
+		id: providerConnections.id,
+		columns: [providerConnections.apiToken],
+	},
+	{
+		table: opencodeProviderKeys,
+		id: opencodeProviderKeys.providerId,
+		columns: [opencodeProviderKeys.apiKey],
+	},
+];
+
+/**
+ * Encrypt or re-wrap every credential that is not encrypted with the current
+ * key. Returns the number of values rewritten.
+ */
+export async function encryptStoredCredentials(): Promise<number> {
+	let rewritten = 0;
+
+	for (const { table, id, columns } of CREDENTIAL_TABLES) {
+		for (const column of columns) {
+			// Raw column SQL skips the column's decryption so envelopes and
+			// plaintext can be told apart
+			const rows = await db
+				.select({
+					id: sql<string>`${id}`,
+					value: sql<string | null>`${column}`,
+				})
+				.from(table);
+
+			for (const row of rows) {
+				if (row.value === null) continue;
+				const updated = rewrapCredential(row.value);
+				if (updated === null) continue;
+
+				const query: SQL = sql`update ${table} set ${sql.identifier(column.name)} = ${updated} where ${sql.identifier(id.name)} = ${row.id}`;
+				await db.run(query);
+				rewritten++;
+			}
+		}
+	}
+
+	return rewritten;
+}
+
+if (import.meta.main) {
+	encryptStoredCredentials()
+		.then((count) => {
+			console.log(`[credentials] Re-encrypted ${count} stored credentials`);
+			process.exit(0);
+		})
+		.catch((error: unknown) => {
+			console.error("[credentials] Re-encryption failed:", error);
+			process.exit(1);
+		});
+}
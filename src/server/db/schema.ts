@@ -1,10 +1,28 @@
 import { relations, sql } from "drizzle-orm";
-import { index, sqliteTable } from "drizzle-orm/sqlite-core";
+import {
+	customType,
+	index,
+	sqliteTable,
+	uniqueIndex,
+} from "drizzle-orm/sqlite-core";
+import { decryptCredential, encryptCredential } from "./credential-encryption";
 
 /**
  * Multi-project schema prefix helper
  */
 
+/**
+ * Text column holding a credential, encrypted on write and decrypted on read
+ * (see credential-encryption.ts)
+ */
+const encryptedText = customType<{ data: string; driverData: string }>({
+	dataType() {
+		return "text";
+	},
+	toDriver: (value) => encryptCredential(value),
+	fromDriver: (value) => decryptCredential(value),
+});
+
 // ============================================================================
 // Ticket System Tables
 // ============================================================================
@@ -12,10 +30,14 @@ import { index, sqliteTable } from "drizzle-orm/sqlite-core";
 export const ticketProviderEnum = [
 	"jira",
 	"linear",
+	"github",
+	"gitlab",
 	"docker",
 	"manual",
 ] as const;
-export type TicketProvider = (typeof ticketProviderEnum)[number];
+export type BuiltInTicketProvider = (typeof ticketProviderEnum)[number];
+/** A built-in provider or the key of a registered provider plugin */
+export type TicketProvider = BuiltInTicketProvider | (string & {});
 
 export const ticketStatusEnum = [
 	"open",
@@ -26,9 +48,45 @@ export const ticketStatusEnum = [
 ] as const;
 export type TicketStatus = (typeof ticketStatusEnum)[number];
 
+/** Statuses of tickets with no work left, whether completed or not */
+export const finishedTicketStatuses: readonly TicketStatus[] = [
+	"done",
+	"closed",
+];
+
 export const ticketPriorityEnum = ["low", "medium", "high", "urgent"] as const;
 export type TicketPriority = (typeof ticketPriorityEnum)[number];
 
+/** Relationship of a ticket to another, seen from the ticket holding the link */
+export const ticketLinkTypeEnum = [
+	"blocks",
+	"blocked-by",
+	"duplicates",
+	"duplicated-by",
+	"relates-to",
+] as const;
+export type TicketLinkType = (typeof ticketLinkTypeEnum)[number];
+
+/** Ticket fields owned by the provider that can also be edited locally */
+export const ticketSyncFieldEnum = [
+	"title",
+	"description",
+	"status",
+	"priority",
+	"assignee",
+	"labels",
+] as const;
+export type TicketSyncField = (typeof ticketSyncFieldEnum)[number];
+
+export type SyncedTicketFields = {
+	title: string;
+	description: string | null;
+	status: TicketStatus;
+	priority: TicketPriority | null;
+	assignee: string | null;
+	labels: string[];
+};
+
 export const tickets = sqliteTable(
 	"ticket",
 	(d) => ({
@@ -39,6 +97,10 @@ export const tickets = sqliteTable(
 			.$defaultFn(() => crypto.randomUUID()),
 		externalId: d.text({ length: 255 }),
 		provider: d.text({ length: 50 }).notNull().$type<TicketProvider>(),
+		// Connection the ticket was synced from; null for manual tickets
+		connectionId: d
+			.text({ length: 255 })
+			.references(() => providerConnections.id, { onDelete: "set null" }),
 		title: d.text({ length: 500 }).notNull(),
 		description: d.text(),
 		status: d
@@ -53,6 +115,10 @@ export const tickets = sqliteTable(
 			.text({ mode: "json" })
 			.$type<Record<string, unknown>>()
 			.default({}),
+		// External ID of the parent (epic or story) in the same connection
+		parentExternalId: d.text({ length: 255 }),
+		// Effort estimate from the provider, in story points
+		estimate: d.real(),
 		aiScore: d.real(),
 		createdAt: d
 			.integer({ mode: "timestamp" })
@@ -60,20 +126,35 @@ export const tickets = sqliteTable(
 			.notNull(),
 		updatedAt: d.integer({ mode: "timestamp" }).$onUpdate(() => new Date()),
 		lastSyncedAt: d.integer({ mode: "timestamp" }),
+		// Set when the ticket disappeared from its provider (deleted or out of scope)
+		archivedAt: d.integer({ mode: "timestamp" }),
+		// Provider values as of the last sync; the base for detecting local edits
+		syncedFields: d.text({ mode: "json" }).$type<SyncedTicketFields>(),
 	}),
 	(t) => [
 		index("ticket_provider_idx").on(t.provider),
+		index("ticket_connection_idx").on(t.connectionId),
 		index("ticket_status_idx").on(t.status),
 		index("ticket_external_id_idx").on(t.externalId),
+		index("ticket_parent_idx").on(t.parentExternalId),
 		index("ticket_ai_score_idx").on(t.aiScore),
+		index("ticket_archived_at_idx").on(t.archivedAt),
 	],
 );
 
-export const ticketRelations = relations(tickets, ({ many }) => ({
+export const ticketRelations = relations(tickets, ({ one, many }) => ({
+	connection: one(providerConnections, {
+		fields: [tickets.connectionId],
+		references: [providerConnections.id],
+	}),
 	recommendations: many(ticketRecommendations),
 	messages: many(ticketMessages),
 	rankings: many(ticketRankings),
 	opencodeSessions: many(opencodeSessionsTable),
+	syncConflicts: many(ticketSyncConflicts),
+	comments: many(ticketComments),
+	links: many(ticketLinks),
+	sprintTickets: many(sprintTickets),
 }));
 
 export const ticketRecommendations = sqliteTable(
@@ -112,6 +193,41 @@ export const ticketRecommendationRelations = relations(
 	}),
 );
 
+/**
+ * Comments synced from the provider's discussion thread
+ */
+export const ticketComments = sqliteTable(
+	"ticket_comment",
+	(d) => ({
+		id: d
+			.text({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		ticketId: d
+			.text({ length: 255 })
+			.notNull()
+			.references(() => tickets.id, { onDelete: "cascade" }),
+		externalId: d.text({ length: 255 }).notNull(),
+		author: d.text({ length: 255 }),
+		body: d.text().notNull(),
+		// Provider timestamps, not when the comment was synced
+		createdAt: d.integer({ mode: "timestamp" }).notNull(),
+		updatedAt: d.integer({ mode: "timestamp" }),
+	}),
+	(t) => [
+		index("comment_ticket_idx").on(t.ticketId),
+		uniqueIndex("comment_external_idx").on(t.ticketId, t.externalId),
+	],
+);
+
+export const ticketCommentRelations = relations(ticketComments, ({ one }) => ({
+	ticket: one(tickets, {
+		fields: [ticketComments.ticketId],
+		references: [tickets.id],
+	}),
+}));
+
 export const ticketMessageRoleEnum = ["user", "assistant", "system"] as const;
 export type TicketMessageRole = (typeof ticketMessageRoleEnum)[number];
 
@@ -184,6 +300,430 @@ export const ticketRankingRelations = relations(ticketRankings, ({ one }) => ({
 	}),
 }));
 
+export const syncConflictStatusEnum = ["open", "resolved"] as const;
+export type SyncConflictStatus = (typeof syncConflictStatusEnum)[number];
+
+export const syncConflictResolutionEnum = ["provider", "local"] as const;
+export type SyncConflictResolution =
+	(typeof syncConflictResolutionEnum)[number];
+
+/**
+ * A field changed both locally and in the provider between two syncs
+ */
+export const ticketSyncConflicts = sqliteTable(
+	"ticket_sync_conflict",
+	(d) => ({
+		id: d
+			.text({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		ticketId: d
+			.text({ length: 255 })
+			.notNull()
+			.references(() => tickets.id, { onDelete: "cascade" }),
+		field: d.text({ length: 50 }).notNull().$type<TicketSyncField>(),
+		localValue: d.text({ mode: "json" }).$type<unknown>(),
+		providerValue: d.text({ mode: "json" }).$type<unknown>(),
+		status: d
+			.text({ length: 50 })
+			.notNull()
+			.$type<SyncConflictStatus>()
+			.default("open"),
+		// Which side was kept, by the configured strategy or a person
+		resolution: d.text({ length: 50 }).$type<SyncConflictResolution>(),
+		detectedAt: d
+			.integer({ mode: "timestamp" })
+			.default(sql`(unixepoch())`)
+			.notNull(),
+		resolvedAt: d.integer({ mode: "timestamp" }),
+	}),
+	(t) => [
+		index("sync_conflict_ticket_idx").on(t.ticketId),
+		index("sync_conflict_status_idx").on(t.status),
+	],
+);
+
+export const ticketSyncConflictRelations = relations(
+	ticketSyncConflicts,
+	({ one }) => ({
+		ticket: one(tickets, {
+			fields: [ticketSyncConflicts.ticketId],
+			references: [tickets.id],
+		}),
+	}),
+);
+
+/**
+ * Typed link from a ticket to another ticket of the same connection, synced
+ * from Jira issue links and Linear relations. The target is referenced by
+ * external ID since it may not have been synced (yet).
+ */
+export const ticketLinks = sqliteTable(
+	"ticket_link",
+	(d) => ({
+		id: d
+			.text({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		ticketId: d
+			.text({ length: 255 })
+			.notNull()
+			.references(() => tickets.id, { onDelete: "cascade" }),
+		type: d.text({ length: 50 }).notNull().$type<TicketLinkType>(),
+		targetExternalId: d.text({ length: 255 }).notNull(),
+		createdAt: d
+			.integer({ mode: "timestamp" })
+			.default(sql`(unixepoch())`)
+			.notNull(),
+	}),
+	(t) => [
+		index("link_ticket_idx").on(t.ticketId),
+		index("link_target_idx").on(t.targetExternalId),
+		uniqueIndex("link_unique_idx").on(t.ticketId, t.type, t.targetExternalId),
+	],
+);
+
+export const ticketLinkRelations = relations(ticketLinks, ({ one }) => ({
+	ticket: one(tickets, {
+		fields: [ticketLinks.ticketId],
+		references: [tickets.id],
+	}),
+}));
+
+// ============================================================================
+// Provider Connections
+// ============================================================================
+
+/**
+ * A configured instance of a provider type (one Jira site, one Linear
+ * workspace, ...). Several connections of the same type can exist side by side.
+ */
+export const providerConnections = sqliteTable(
+	"provider_connection",
+	(d) => ({
+		id: d
+			.text({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		provider: d.text({ length: 50 }).notNull().$type<TicketProvider>(),
+		name: d.text({ length: 255 }).notNull(),
+		baseUrl: d.text({ length: 500 }),
+		apiToken: encryptedText(),
+		// Scope: Jira project key, GitLab project ID, ...
+		projectKey: d.text({ length: 255 }),
+		// Provider-specific scope such as a JQL filter or Linear team keys
+		config: d
+			.text({ mode: "json" })
+			.$type<Record<string, unknown>>()
+			.default({}),
+		enabled: d.integer({ mode: "boolean" }).notNull().default(true),
+		// Start time of the last successful sync; next sync asks for changes since then
+		lastSyncedAt: d.integer({ mode: "timestamp" }),
+		lastFullSyncAt: d.integer({ mode: "timestamp" }),
+		// Skips scheduled background syncs; manual syncs still run
+		schedulePaused: d.integer({ mode: "boolean" }).notNull().default(false),
+		createdAt: d
+			.integer({ mode: "timestamp" })
+			.default(sql`(unixepoch())`)
+			.notNull(),
+		updatedAt: d.integer({ mode: "timestamp" }).$onUpdate(() => new Date()),
+	}),
+	(t) => [uniqueIndex("provider_connection_name_idx").on(t.provider, t.name)],
+);
+
+export const providerConnectionRelations = relations(
+	providerConnections,
+	({ many }) => ({
+		tickets: many(tickets),
+		syncRuns: many(syncRuns),
+		sprints: many(sprints),
+	}),
+);
+
+// ============================================================================
+// Sprints
+// ============================================================================
+
+export const sprintStateEnum = ["future", "active", "closed"] as const;
+export type SprintState = (typeof sprintStateEnum)[number];
+
+/** Whether a ticket was put in a sprint by sync or by planning here */
+export const sprintTicketSourceEnum = ["provider", "local"] as const;
+export type SprintTicketSource = (typeof sprintTicketSourceEnum)[number];
+
+/**
+ * A sprint planned here or synced from a provider (Jira). Synced sprints keep
+ * their connection and external ID; local ones have neither.
+ */
+export const sprints = sqliteTable(
+	"sprint",
+	(d) => ({
+		id: d
+			.text({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		connectionId: d
+			.text({ length: 255 })
+			.references(() => providerConnections.id, { onDelete: "set null" }),
+		externalId: d.text({ length: 255 }),
+		name: d.text({ length: 255 }).notNull(),
+		goal: d.text(),
+		state: d
+			.text({ length: 50 })
+			.notNull()
+			.$type<SprintState>()
+			.default("future"),
+		startDate: d.integer({ mode: "timestamp" }),
+		endDate: d.integer({ mode: "timestamp" }),
+		// Story points the team can take on; set locally, providers have none
+		capacity: d.real(),
+		createdAt: d
+			.integer({ mode: "timestamp" })
+			.default(sql`(unixepoch())`)
+			.notNull(),
+		updatedAt: d.integer({ mode: "timestamp" }).$onUpdate(() => new Date()),
+	}),
+	(t) => [
+		index("sprint_state_idx").on(t.state),
+		uniqueIndex("sprint_external_idx").on(t.connectionId, t.externalId),
+	],
+);
+
+export const sprintRelations = relations(sprints, ({ one, many }) => ({
+	connection: one(providerConnections, {
+		fields: [sprints.connectionId],
+		references: [providerConnections.id],
+	}),
+	tickets: many(sprintTickets),
+}));
+
+export const sprintTickets = sqliteTable(
+	"sprint_ticket",
+	(d) => ({
+		id: d
+			.text({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		sprintId: d
+			.text({ length: 255 })
+			.notNull()
+			.references(() => sprints.id, { onDelete: "cascade" }),
+		ticketId: d
+			.text({ length: 255 })
+			.notNull()
+			.references(() => tickets.id, { onDelete: "cascade" }),
+		// Order within the sprint, lowest first
+		position: d.integer().notNull().default(0),
+		// Sync only removes tickets it added, never ones planned here
+		source: d
+			.text({ length: 50 })
+			.notNull()
+			.$type<SprintTicketSource>()
+			.default("local"),
+		addedAt: d
+			.integer({ mode: "timestamp" })
+			.default(sql`(unixepoch())`)
+			.notNull(),
+	}),
+	(t) => [
+		index("sprint_ticket_ticket_idx").on(t.ticketId),
+		uniqueIndex("sprint_ticket_unique_idx").on(t.sprintId, t.ticketId),
+	],
+);
+
+export const sprintTicketRelations = relations(sprintTickets, ({ one }) => ({
+	sprint: one(sprints, {
+		fields: [sprintTickets.sprintId],
+		references: [sprints.id],
+	}),
+	ticket: one(tickets, {
+		fields: [sprintTickets.ticketId],
+		references: [tickets.id],
+	}),
+}));
+
+// ============================================================================
+// Sync Runs
+// ============================================================================
+
+/**
+ * One provider sync, kept so failing integrations can be traced back
+ */
+export const syncRuns = sqliteTable(
+	"sync_run",
+	(d) => ({
+		id: d
+			.text({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		provider: d.text({ length: 50 }).notNull().$type<TicketProvider>(),
+		connectionId: d
+			.text({ length: 255 })
+			.references(() => providerConnections.id, { onDelete: "set null" }),
+		startedAt: d.integer({ mode: "timestamp" }).notNull(),
+		finishedAt: d.integer({ mode: "timestamp" }).notNull(),
+		incremental: d.integer({ mode: "boolean" }).notNull().default(false),
+		fetched: d.integer().notNull().default(0),
+		created: d.integer().notNull().default(0),
+		updated: d.integer().notNull().default(0),
+		orphaned: d.integer().notNull().default(0),
+		conflicts: d.integer().notNull().default(0),
+		errored: d.integer().notNull().default(0),
+		errors: d.text({ mode: "json" }).$type<string[]>().default([]),
+	}),
+	(t) => [
+		index("sync_run_provider_idx").on(t.provider),
+		index("sync_run_started_idx").on(t.startedAt),
+		index("sync_run_connection_idx").on(t.connectionId),
+	],
+);
+
+export const syncRunRelations = relations(syncRuns, ({ one }) => ({
+	connection: one(providerConnections, {
+		fields: [syncRuns.connectionId],
+		references: [providerConnections.id],
+	}),
+}));
+
+// ============================================================================
+// Repository Scans
+// ============================================================================
+
+export const repoScanStatusEnum = [
+	"pending",
+	"running",
+	"completed",
+	"failed",
+] as const;
+export type RepoScanStatus = (typeof repoScanStatusEnum)[number];
+
+export const repoFindingKindEnum = [
+	"todo",
+	"bug-risk",
+	"missing-tests",
+	"other",
+] as const;
+export type RepoFindingKind = (typeof repoFindingKindEnum)[number];
+
+/**
+ * Something worth a ticket that an analysis agent found in a repository
+ */
+export type RepoScanFinding = {
+	kind: RepoFindingKind;
+	title: string;
+	description: string;
+	priority: TicketPriority;
+	files: { path: string; line?: number }[];
+};
+
+/**
+ * An analysis agent run over a local repository checkout; its findings become
+ * docker provider tickets
+ */
+export const repoScans = sqliteTable(
+	"repo_scan",
+	(d) => ({
+		id: d
+			.text({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		repoPath: d.text({ length: 1000 }).notNull(),
+		status: d
+			.text({ length: 50 })
+			.notNull()
+			.$type<RepoScanStatus>()
+			.default("pending"),
+		agentSessionId: d.text({ length: 255 }),
+		summary: d.text(),
+		stackInfo: d.text(),
+		files: d.text({ mode: "json" }).$type<string[]>().default([]),
+		potentialOwners: d.text({ mode: "json" }).$type<string[]>().default([]),
+		findings: d.text({ mode: "json" }).$type<RepoScanFinding[]>().default([]),
+		error: d.text(),
+		startedAt: d.integer({ mode: "timestamp" }),
+		completedAt: d.integer({ mode: "timestamp" }),
+		createdAt: d
+			.integer({ mode: "timestamp" })
+			.default(sql`(unixepoch())`)
+			.notNull(),
+	}),
+	(t) => [index("repo_scan_repo_idx").on(t.repoPath, t.createdAt)],
+);
+
+// ============================================================================
+// Provider Value Mappings
+// ============================================================================
+
+export const mappedTicketFieldEnum = ["status", "priority"] as const;
+export type MappedTicketField = (typeof mappedTicketFieldEnum)[number];
+
+/**
+ * Per-connection translation of external status/priority names, since two
+ * sites of the same provider can name them differently. Rows without an
+ * internal value are names seen during sync that nobody has mapped yet.
+ */
+export const providerValueMappings = sqliteTable(
+	"provider_value_mapping",
+	(d) => ({
+		id: d
+			.text({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		connectionId: d
+			.text({ length: 255 })
+			.notNull()
+			.references(() => providerConnections.id, { onDelete: "cascade" }),
+		field: d.text({ length: 50 }).notNull().$type<MappedTicketField>(),
+		// Lower-cased, trimmed external name (or number for numeric priorities)
+		externalValue: d.text({ length: 255 }).notNull(),
+		internalValue: d
+			.text({ length: 50 })
+			.$type<TicketStatus | TicketPriority>(),
+		lastSeenAt: d.integer({ mode: "timestamp" }),
+		createdAt: d
+			.integer({ mode: "timestamp" })
+			.default(sql`(unixepoch())`)
+			.notNull(),
+		updatedAt: d.integer({ mode: "timestamp" }).$onUpdate(() => new Date()),
+	}),
+	(t) => [
+		uniqueIndex("value_mapping_unique_idx").on(
+			t.connectionId,
+			t.field,
+			t.externalValue,
+		),
+	],
+);
+
+// ============================================================================
+// Opencode Provider Keys
+// ============================================================================
+
+/**
+ * API keys for the AI providers opencode talks to, re-applied to the opencode
+ * server after it restarts
+ */
+export const opencodeProviderKeys = sqliteTable(
+	"opencode_provider_key",
+	(d) => ({
+		providerId: d.text({ length: 255 }).notNull().primaryKey(),
+		apiKey: encryptedText().notNull(),
+		createdAt: d
+			.integer({ mode: "timestamp" })
+			.default(sql`(unixepoch())`)
+			.notNull(),
+		updatedAt: d.integer({ mode: "timestamp" }).$onUpdate(() => new Date()),
+	}),
+);
+
 // ============================================================================
 // Opencode Sessions Table
 // ============================================================================
@@ -266,12 +806,12 @@ export const account = sqliteTable(
 			.references(() => user.id),
 		accountId: d.text({ length: 255 }).notNull(),
 		providerId: d.text({ length: 255 }).notNull(),
-		accessToken: d.text(),
-		refreshToken: d.text(),
+		accessToken: encryptedText(),
+		refreshToken: encryptedText(),
 		accessTokenExpiresAt: d.integer({ mode: "timestamp" }),
 		refreshTokenExpiresAt: d.integer({ mode: "timestamp" }),
 		scope: d.text({ length: 255 }),
-		idToken: d.text(),
+		idToken: encryptedText(),
 		password: d.text(),
 		createdAt: d
 			.integer({ mode: "timestamp" })
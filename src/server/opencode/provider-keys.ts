@@ -0,0 +1,40 @@
+import { asc, sql } from "drizzle-orm";
+import { db } from "@/server/db";
+import { opencodeProviderKeys } from "@/server/db/schema";
+
+/**
+ * AI provider keys entered through /api/opencode/auth. Stored encrypted so
+ * they can be re-applied when the opencode server restarts.
+ */
+export interface OpencodeProviderKey {
+	providerId: string;
+	apiKey: string;
+}
+
+/**
+ * Store or replace the API key for a provider
+ */
+export async function saveOpencodeProviderKey(
+	providerId: string,
+	apiKey: string,
+): Promise<void> {
+	await db
+		.insert(opencodeProviderKeys)
+		.values({ providerId, apiKey })
+		.onConflictDoUpdate({
+			target: opencodeProviderKeys.providerId,
+			set: { apiKey, updatedAt: sql`(unixepoch())` },
+		});
+}
+
+/**
+ * All stored provider keys, decrypted
+ */
+export async function listOpencodeProviderKeys(): Promise<
+	OpencodeProviderKey[]
+> {
+	return db.query.opencodeProviderKeys.findMany({
+		columns: { providerId: true, apiKey: true },
+		orderBy: [asc(opencodeProviderKeys.providerId)],
+	});
+}
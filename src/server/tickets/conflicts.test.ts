@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test";
+import type { SyncedTicketFields } from "@/server/db/schema";
+import { mergeProviderChanges } from "./conflicts";
+
+const base: SyncedTicketFields = {
+	title: "Fix login",
+	description: null,
+	status: "open",
+	priority: "medium",
+	assignee: null,
+	labels: ["auth"],
+};
+
+describe("mergeProviderChanges", () => {
+	it("takes provider values when there is no base", () => {
+		const local = { ...base, status: "review" as const };
+		const provider = { ...base, status: "done" as const };
+		const merge = mergeProviderChanges(null, local, provider, "manual");
+		expect(merge.values).toEqual(provider);
+		expect(merge.conflicts).toEqual([]);
+	});
+
+	it("applies provider-only changes and keeps local-only edits", () => {
+		const local = { ...base, labels: ["auth", "backend"] };
+		const provider = { ...base, priority: "high" as const };
+		const merge = mergeProviderChanges(base, local, provider, "manual");
+		expect(merge.values).toEqual({
+			...base,
+			priority: "high",
+			labels: ["auth", "backend"],
+		});
+		expect(merge.conflicts).toEqual([]);
+	});
+
+	it("does not report a conflict when both sides made the same change", () => {
+		const changed = { ...base, status: "in_progress" as const };
+		const merge = mergeProviderChanges(base, changed, changed, "manual");
+		expect(merge.values).toEqual(changed);
+		expect(merge.conflicts).toEqual([]);
+	});
+
+	describe("conflicting changes", () => {
+		const local = { ...base, status: "review" as const, assignee: "ana" };
+		const provider = { ...base, status: "done" as const, title: "Fix SSO" };
+
+		it("reports the field with both values", () => {
+			const merge = mergeProviderChanges(base, local, provider, "manual");
+			expect(merge.conflicts).toEqual([
+				{ field: "status", localValue: "review", providerValue: "done" },
+			]);
+		});
+
+		it("uses the provider value under provider-wins", () => {
+			const merge = mergeProviderChanges(
+				base,
+				local,
+				provider,
+				"provider-wins",
+			);
+			expect(merge.values).toEqual({
+				...provider,
+				assignee: "ana",
+			});
+		});
+
+		it("keeps the local value under local-wins and manual", () => {
+			for (const strategy of ["local-wins", "manual"] as const) {
+				const merge = mergeProviderChanges(base, local, provider, strategy);
+				expect(merge.values).toEqual({
+					...provider,
+					status: "review",
+					assignee: "ana",
+				});
+			}
+		});
+	});
+});
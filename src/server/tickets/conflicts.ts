@@ -0,0 +1,133 @@
+import {
+	type SyncedTicketFields,
+	type TicketSyncField,
+	ticketSyncFieldEnum,
+	type tickets,
+} from "@/server/db/schema";
+import type { ExternalTicket } from "./providers";
+
+type Ticket = typeof tickets.$inferSelect;
+
+/**
+ * What sync does with a field that changed both locally and in the provider:
+ * take the provider value, keep the local value, or keep the local value and
+ * leave the conflict open for someone to pick
+ */
+export const conflictStrategyEnum = [
+	"provider-wins",
+	"local-wins",
+	"manual",
+] as const;
+export type ConflictStrategy = (typeof conflictStrategyEnum)[number];
+
+export interface FieldConflict {
+	field: TicketSyncField;
+	localValue: unknown;
+	providerValue: unknown;
+}
+
+export interface MergeResult {
+	/** Field values to store on the ticket */
+	values: SyncedTicketFields;
+	conflicts: FieldConflict[];
+}
+
+/**
+ * Conflict strategy from the environment, defaulting to provider-wins
+ */
+export function getConflictStrategy(): ConflictStrategy {
+	const strategy = process.env.SYNC_CONFLICT_STRATEGY as
+		| ConflictStrategy
+		| undefined;
+	return strategy && conflictStrategyEnum.includes(strategy)
+		? strategy
+		: "provider-wins";
+}
+
+/**
+ * Pick the provider-owned fields of a ticket
+ */
+export function toSyncedFields(
+	ticket: Ticket | ExternalTicket,
+): SyncedTicketFields {
+	return {
+		title: ticket.title,
+		description: ticket.description,
+		status: ticket.status,
+		priority: ticket.priority,
+		assignee: ticket.assignee,
+		labels: ticket.labels ?? [],
+	};
+}
+
+/**
+ * Check whether the merged values or provider data differ from what is
+ * stored locally
+ */
+export function hasTicketChanged(
+	existing: Ticket,
+	values: SyncedTicketFields,
+	externalTicket: ExternalTicket,
+): boolean {
+	return (
+		JSON.stringify(toSyncedFields(existing)) !== JSON.stringify(values) ||
+		JSON.stringify(existing.syncedFields) !==
+			JSON.stringify(toSyncedFields(externalTicket)) ||
+		JSON.stringify(existing.metadata ?? {}) !==
+			JSON.stringify(externalTicket.metadata) ||
+		(externalTicket.parentExternalId !== undefined &&
+			existing.parentExternalId !== externalTicket.parentExternalId) ||
+		(externalTicket.estimate !== undefined &&
+			existing.estimate !== externalTicket.estimate) ||
+		// A ticket seen again after being archived must be restored
+		existing.archivedAt !== null
+	);
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Three-way merge of provider changes into a ticket.
+ *
+ * `base` holds the provider values from the previous sync. A field edited
+ * locally (differs from base) and changed in the provider (also differs from
+ * base, to a different value) is a conflict settled by `strategy`. Local-only
+ * edits are kept, provider-only changes are applied. Without a base every
+ * field takes the provider value.
+ */
+export function mergeProviderChanges(
+	base: SyncedTicketFields | null,
+	local: SyncedTicketFields,
+	provider: SyncedTicketFields,
+	strategy: ConflictStrategy,
+): MergeResult {
+	const values = { ...provider };
+	const conflicts: FieldConflict[] = [];
+
+	if (!base) {
+		return { values, conflicts };
+	}
+
+	for (const field of ticketSyncFieldEnum) {
+		const localChanged = !isSameValue(local[field], base[field]);
+		if (!localChanged || isSameValue(local[field], provider[field])) {
+			continue;
+		}
+
+		const providerChanged = !isSameValue(provider[field], base[field]);
+		if (providerChanged) {
+			conflicts.push({
+				field,
+				localValue: local[field],
+				providerValue: provider[field],
+			});
+			if (strategy === "provider-wins") continue;
+		}
+
+		Object.assign(values, { [field]: local[field] });
+	}
+
+	return { values, conflicts };
+}
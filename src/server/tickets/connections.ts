@@ -0,0 +1,282 @@
+import { and, asc, eq, ne } from "drizzle-orm";
+import { db } from "@/server/db";
+import {
+	providerConnections,
+	syncRuns,
+	type TicketProvider,
+	tickets,
+} from "@/server/db/schema";
+import {
+	createConnectionProvider,
+	getProviderPlugin,
+	type ProviderConnection,
+	reloadProviderRegistry,
+} from "./provider-registry";
+import {
+	type ConnectionTestResult,
+	fromConfigValues,
+	parseProviderConfig,
+} from "./providers";
+import {
+	getLatestRepoScan,
+	type RepoAnalysis,
+	startRepoScan,
+} from "./repo-analysis";
+import { getSyncScheduler } from "./sync-scheduler";
+
+/**
+ * Connection settings as entered in the settings form
+ */
+export interface ProviderConnectionInput {
+	provider: TicketProvider;
+	name: string;
+	/**
+	 * Settings keyed like the provider's config schema. An omitted `apiToken`
+	 * keeps the stored one when editing.
+	 */
+	values: Record<string, unknown>;
+	enabled?: boolean;
+}
+
+type ConnectionSettings = ReturnType<typeof fromConfigValues>;
+
+/**
+ * Validate settings against the provider's config schema and split them into
+ * connection columns. Throws with the form labels of invalid fields.
+ */
+function resolveSettings(
+	provider: TicketProvider,
+	values: Record<string, unknown>,
+	storedApiToken?: string | null,
+): ConnectionSettings {
+	const plugin = getProviderPlugin(provider);
+	if (!plugin) {
+		throw new Error(`Unknown provider type "${provider}"`);
+	}
+
+	const parsed = parseProviderConfig(plugin, {
+		...values,
+		apiToken: values.apiToken ?? storedApiToken ?? undefined,
+	});
+	if (!parsed.success) {
+		throw new Error(parsed.message);
+	}
+	return fromConfigValues(parsed.data);
+}
+
+/**
+ * A connection as shown in settings; the API token never leaves the server
+ */
+export type ProviderConnectionSummary = Omit<ProviderConnection, "apiToken"> & {
+	hasApiToken: boolean;
+};
+
+function toSummary({
+	apiToken,
+	...connection
+}: ProviderConnection): ProviderConnectionSummary {
+	return { ...connection, hasApiToken: !!apiToken };
+}
+
+/**
+ * Make the registry and the sync schedule pick up changed connections
+ */
+async function applyConnectionChanges(): Promise<void> {
+	reloadProviderRegistry();
+	await getSyncScheduler().restart();
+}
+
+async function assertNameAvailable(
+	input: Pick<ProviderConnection, "provider" | "name">,
+	exceptId?: string,
+): Promise<void> {
+	const existing = await db.query.providerConnections.findFirst({
+		columns: { id: true },
+		where: and(
+			eq(providerConnections.provider, input.provider),
+			eq(providerConnections.name, input.name),
+			exceptId ? ne(providerConnections.id, exceptId) : undefined,
+		),
+	});
+	if (existing) {
+		throw new Error(
+			`A ${input.provider} connection named "${input.name}" already exists`,
+		);
+	}
+}
+
+/**
+ * List all connections without their credentials
+ */
+export async function listConnections(): Promise<ProviderConnectionSummary[]> {
+	const connections = await db.query.providerConnections.findMany({
+		orderBy: [asc(providerConnections.provider), asc(providerConnections.name)],
+	});
+	return connections.map(toSummary);
+}
+
+/**
+ * Store a new connection
+ */
+export async function createConnection(
+	input: ProviderConnectionInput,
+): Promise<ProviderConnectionSummary> {
+	const settings = resolveSettings(input.provider, input.values);
+	await assertNameAvailable(input);
+
+	const [created] = await db
+		.insert(providerConnections)
+		.values({
+			provider: input.provider,
+			name: input.name,
+			...settings,
+			enabled: input.enabled ?? true,
+		})
+		.returning();
+
+	if (!created) {
+		throw new Error("Failed to create connection");
+	}
+
+	await applyConnectionChanges();
+	return toSummary(created);
+}
+
+/**
+ * Change a connection's name, settings or enabled state; settings are left
+ * alone when `values` is omitted. The provider type is fixed once tickets
+ * were synced through it. Returns null when the connection does not exist.
+ */
+export async function updateConnection(
+	id: string,
+	input: Omit<ProviderConnectionInput, "provider" | "values"> & {
+		values?: ProviderConnectionInput["values"];
+	},
+): Promise<ProviderConnectionSummary | null> {
+	const existing = await db.query.providerConnections.findFirst({
+		where: eq(providerConnections.id, id),
+	});
+	if (!existing) return null;
+
+	const settings = input.values
+		? resolveSettings(existing.provider, input.values, existing.apiToken)
+		: {};
+	await assertNameAvailable(
+		{ provider: existing.provider, name: input.name },
+		id,
+	);
+
+	const [updated] = await db
+		.update(providerConnections)
+		.set({
+			name: input.name,
+			...settings,
+			...(input.enabled !== undefined ? { enabled: input.enabled } : {}),
+		})
+		.where(eq(providerConnections.id, id))
+		.returning();
+
+	await applyConnectionChanges();
+	return updated ? toSummary(updated) : null;
+}
+
+/**
+ * Remove a connection. Its tickets and sync history are kept but no longer
+ * sync; returns false when the connection does not exist.
+ */
+export async function deleteConnection(id: string): Promise<boolean> {
+	const existing = await db.query.providerConnections.findFirst({
+		columns: { id: true },
+		where: eq(providerConnections.id, id),
+	});
+	if (!existing) return false;
+
+	await db
+		.update(tickets)
+		.set({ connectionId: null })
+		.where(eq(tickets.connectionId, id));
+	await db
+		.update(syncRuns)
+		.set({ connectionId: null })
+		.where(eq(syncRuns.connectionId, id));
+	await db.delete(providerConnections).where(eq(providerConnections.id, id));
+
+	await applyConnectionChanges();
+	return true;
+}
+
+/**
+ * Check connection settings against the provider before they are saved.
+ * When `id` is given and no token is entered, the stored token is used.
+ */
+export async function testConnection(
+	input: Omit<ProviderConnectionInput, "name"> & { id?: string },
+): Promise<ConnectionTestResult> {
+	let storedApiToken: string | null = null;
+	if (input.values.apiToken === undefined && input.id) {
+		const stored = await db.query.providerConnections.findFirst({
+			columns: { apiToken: true },
+			where: eq(providerConnections.id, input.id),
+		});
+		storedApiToken = stored?.apiToken ?? null;
+	}
+
+	let settings: ConnectionSettings;
+	try {
+		settings = resolveSettings(input.provider, input.values, storedApiToken);
+	} catch (error) {
+		return {
+			ok: false,
+			message: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	const provider = createConnectionProvider({
+		provider: input.provider,
+		...settings,
+	});
+	if (!provider?.testConnection) {
+		return {
+			ok: false,
+			message: `Testing ${input.provider} connections is not supported yet.`,
+		};
+	}
+	return provider.testConnection();
+}
+
+async function getRepoPath(id: string): Promise<string | null> {
+	const connection = await db.query.providerConnections.findFirst({
+		columns: { provider: true, config: true },
+		where: eq(providerConnections.id, id),
+	});
+	if (!connection) return null;
+
+	const repoPath = connection.config?.repoPath;
+	if (connection.provider !== "docker" || typeof repoPath !== "string") {
+		throw new Error("Only repository analysis connections can be scanned");
+	}
+	return repoPath;
+}
+
+/**
+ * Latest scan of a repository analysis connection's checkout. Returns
+ * undefined when the connection does not exist and null before the first
+ * scan.
+ */
+export async function getConnectionRepoScan(
+	id: string,
+): Promise<RepoAnalysis | null | undefined> {
+	const repoPath = await getRepoPath(id);
+	if (repoPath === null) return undefined;
+	return getLatestRepoScan(repoPath);
+}
+
+/**
+ * Scan a repository analysis connection's checkout now instead of waiting
+ * for the scan interval; returns the scan job ID, or null when the connection
+ * does not exist
+ */
+export async function scanConnectionRepo(id: string): Promise<string | null> {
+	const repoPath = await getRepoPath(id);
+	return repoPath === null ? null : startRepoScan(repoPath);
+}
@@ -1,4 +1,17 @@
+export * from "./conflicts";
+export * from "./connections";
 export * from "./provider-registry";
 export * from "./providers";
 export * from "./repo-analysis";
+export * from "./sprint-planning";
+export * from "./sprints";
 export * from "./sync";
+export * from "./sync-scheduler";
+export * from "./ticket-export";
+export * from "./ticket-hierarchy";
+export * from "./ticket-import";
+export * from "./ticket-links";
+export * from "./value-mappings";
+export * from "./webhook-signature";
+export * from "./webhooks";
+export * from "./write-back";
@@ -0,0 +1,10 @@
+/**
+ * Ticket provider plugins maintained outside the core
+ *
+ * Import each plugin module here; a module registers its provider with
+ * `registerTicketProvider` from `@/server/tickets/providers` when it loads.
+ * Registered providers show up in connection settings with a form generated
+ * from their config schema. See the README for a complete plugin.
+ */
+
+export {};
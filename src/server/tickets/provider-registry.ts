@@ -1,92 +1,233 @@
-import type { TicketProvider } from "@/server/db/schema";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { db } from "@/server/db";
 import {
-	createDockerProvider,
-	createJiraProvider,
-	createLinearProvider,
+	providerConnections,
+	type TicketProvider,
+	tickets,
+} from "@/server/db/schema";
+import {
+	dockerProviderPlugin,
+	fromConfigValues,
+	githubProviderPlugin,
+	gitlabProviderPlugin,
 	type ITicketProvider,
-	type TicketProviderConfig,
+	jiraProviderPlugin,
+	linearProviderPlugin,
+	type TicketProviderPlugin,
+	ticketProviderPlugins,
 } from "./providers";
+import "./plugins";
+
+export type ProviderConnection = typeof providerConnections.$inferSelect;
+
+for (const plugin of [
+	jiraProviderPlugin,
+	linearProviderPlugin,
+	githubProviderPlugin,
+	gitlabProviderPlugin,
+	dockerProviderPlugin,
+]) {
+	if (!ticketProviderPlugins.has(plugin.key)) {
+		ticketProviderPlugins.register(plugin);
+	}
+}
 
 /**
- * Registry for managing ticket providers
+ * A stored connection together with the provider instance that talks to it
  */
-export class TicketProviderRegistry {
-	private providers = new Map<TicketProvider, ITicketProvider>();
+export interface ConnectedProvider {
+	connection: ProviderConnection;
+	provider: ITicketProvider;
+	plugin: TicketProviderPlugin;
+}
+
+/**
+ * The plugin of a provider type; undefined for manual tickets and for
+ * plugins that are no longer registered
+ */
+export function getProviderPlugin(
+	key: TicketProvider,
+): TicketProviderPlugin | undefined {
+	return ticketProviderPlugins.get(key);
+}
+
+/**
+ * Every provider type that connections can be created for
+ */
+export function listProviderPlugins(): TicketProviderPlugin[] {
+	return ticketProviderPlugins.list();
+}
+
+/**
+ * Create the provider instance for a connection's type and credentials
+ */
+export function createConnectionProvider(
+	connection: Pick<
+		ProviderConnection,
+		"provider" | "baseUrl" | "apiToken" | "projectKey" | "config"
+	>,
+): ITicketProvider | null {
+	const plugin = ticketProviderPlugins.get(connection.provider);
+	if (!plugin) return null;
+
+	return plugin.createProvider({
+		baseUrl: connection.baseUrl ?? undefined,
+		apiToken: connection.apiToken ?? undefined,
+		projectKey: connection.projectKey ?? undefined,
+		additionalConfig: connection.config ?? {},
+	});
+}
 
-	constructor() {
-		this.initializeProviders();
+/**
+ * Store each provider configured through environment variables as a
+ * connection, unless a configured connection of that type already exists.
+ * The credential-less connections migrated from the old per-provider sync
+ * state get the settings instead, keeping their watermarks. Tickets synced
+ * before connections existed are attached to the connection.
+ */
+async function importEnvConnections(): Promise<void> {
+	for (const plugin of ticketProviderPlugins.list()) {
+		const values = plugin.envConfig?.();
+		if (!values) continue;
+		const providerKey = plugin.key;
+		const config = fromConfigValues(values);
+		if (
+			!createConnectionProvider({
+				provider: providerKey,
+				...config,
+			})?.isConfigured()
+		) {
+			continue;
+		}
+
+		const existing = await db.query.providerConnections.findMany({
+			where: eq(providerConnections.provider, providerKey),
+			orderBy: asc(providerConnections.createdAt),
+		});
+		if (existing.some((c) => createConnectionProvider(c)?.isConfigured())) {
+			continue;
+		}
+
+		const [migrated] = existing;
+		const [connection] = migrated
+			? await db
+					.update(providerConnections)
+					.set({ ...config, enabled: true })
+					.where(eq(providerConnections.id, migrated.id))
+					.returning()
+			: await db
+					.insert(providerConnections)
+					.values({
+						provider: providerKey,
+						name: plugin.displayName,
+						...config,
+					})
+					.returning();
+		if (!connection) continue;
+
+		await db
+			.update(tickets)
+			.set({ connectionId: connection.id })
+			.where(
+				and(eq(tickets.provider, providerKey), isNull(tickets.connectionId)),
+			);
+		console.log(
+			`[provider-registry] Imported ${providerKey} connection from environment variables`,
+		);
 	}
+}
+
+/**
+ * Registry of the provider connections stored in the database
+ */
+export class TicketProviderRegistry {
+	private connections = new Map<string, ConnectedProvider>();
 
-	private initializeProviders(): void {
-		// Initialize Jira provider from environment variables
-		const jiraConfig: TicketProviderConfig = {
-			baseUrl: process.env.JIRA_BASE_URL,
-			apiToken: process.env.JIRA_API_TOKEN,
-			projectKey: process.env.JIRA_PROJECT_KEY,
-		};
-		this.providers.set("jira", createJiraProvider(jiraConfig));
-
-		// Initialize Linear provider from environment variables
-		const linearConfig: TicketProviderConfig = {
-			apiToken: process.env.LINEAR_API_KEY,
-		};
-		this.providers.set("linear", createLinearProvider(linearConfig));
-
-		// Initialize Docker provider (stubbed)
-		const dockerConfig: TicketProviderConfig = {
-			additionalConfig: {
-				dockerSocket: process.env.DOCKER_SOCKET,
-				opencodeImage: process.env.OPENCODE_IMAGE,
-			},
-		};
-		this.providers.set("docker", createDockerProvider(dockerConfig));
+	constructor(connections: ProviderConnection[]) {
+		for (const connection of connections) {
+			const plugin = ticketProviderPlugins.get(connection.provider);
+			const provider = createConnectionProvider(connection);
+			if (plugin && provider) {
+				this.connections.set(connection.id, { connection, provider, plugin });
+			}
+		}
 	}
 
 	/**
-	 * Get a specific provider by key
+	 * Get a connection by ID
 	 */
-	getProvider(key: TicketProvider): ITicketProvider | undefined {
-		return this.providers.get(key);
+	getConnection(id: string): ConnectedProvider | undefined {
+		return this.connections.get(id);
 	}
 
 	/**
-	 * Get all configured (ready-to-use) providers
+	 * Get all connections regardless of configuration status
 	 */
-	getConfiguredProviders(): ITicketProvider[] {
-		return Array.from(this.providers.values()).filter((p) => p.isConfigured());
+	getAllConnections(): ConnectedProvider[] {
+		return Array.from(this.connections.values());
 	}
 
 	/**
-	 * Get all providers regardless of configuration status
+	 * Get enabled connections with complete credentials (ready to sync)
 	 */
-	getAllProviders(): ITicketProvider[] {
-		return Array.from(this.providers.values());
+	getConfiguredConnections(): ConnectedProvider[] {
+		return this.getAllConnections().filter(
+			({ connection, provider }) =>
+				connection.enabled && provider.isConfigured(),
+		);
 	}
 
 	/**
-	 * Check if a specific provider is configured
+	 * Get all connections of a provider type
 	 */
-	isProviderConfigured(key: TicketProvider): boolean {
-		const provider = this.providers.get(key);
-		return provider?.isConfigured() ?? false;
+	getConnectionsByProvider(key: TicketProvider): ConnectedProvider[] {
+		return this.getAllConnections().filter(
+			({ connection }) => connection.provider === key,
+		);
 	}
 
 	/**
-	 * Get a list of all provider keys that are configured
+	 * Check if at least one connection of a provider type is ready to sync
 	 */
-	getConfiguredProviderKeys(): TicketProvider[] {
-		return Array.from(this.providers.entries())
-			.filter(([_, provider]) => provider.isConfigured())
-			.map(([key]) => key);
+	isProviderConfigured(key: TicketProvider): boolean {
+		return this.getConfiguredConnections().some(
+			({ connection }) => connection.provider === key,
+		);
+	}
+}
+
+// Env connections are imported once per process, so a connection removed in
+// settings only comes back after a restart with its variables still set
+let envConnectionsImported = false;
+
+async function loadProviderRegistry(): Promise<TicketProviderRegistry> {
+	if (!envConnectionsImported) {
+		await importEnvConnections();
+		envConnectionsImported = true;
 	}
+	const connections = await db.query.providerConnections.findMany({
+		orderBy: [asc(providerConnections.provider), asc(providerConnections.name)],
+	});
+	return new TicketProviderRegistry(connections);
 }
 
-// Singleton instance
-let registryInstance: TicketProviderRegistry | null = null;
+// Cached instance, loaded on first use
+let registryPromise: Promise<TicketProviderRegistry> | null = null;
 
-export function getProviderRegistry(): TicketProviderRegistry {
-	if (!registryInstance) {
-		registryInstance = new TicketProviderRegistry();
+export function getProviderRegistry(): Promise<TicketProviderRegistry> {
+	if (!registryPromise) {
+		registryPromise = loadProviderRegistry().catch((error: unknown) => {
+			registryPromise = null;
+			throw error;
+		});
 	}
-	return registryInstance;
+	return registryPromise;
+}
+
+/**
+ * Drop the cached registry so the next access reads connections again.
+ * Call after connections are created, changed or deleted.
+ */
+export function reloadProviderRegistry(): void {
+	registryPromise = null;
 }
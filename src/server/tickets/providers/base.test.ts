@@ -0,0 +1,109 @@
+import { describe, expect, it } from "bun:test";
+import {
+	BaseTicketProvider,
+	describeConnectionFailure,
+	type ExternalTicket,
+	isCompleteListing,
+	type TicketListResult,
+} from "./base";
+
+class TestProvider extends BaseTicketProvider {
+	readonly name = "jira" as const;
+
+	async listTickets(): Promise<TicketListResult> {
+		return { tickets: [], pages: 0 };
+	}
+
+	async getTicket() {
+		return null;
+	}
+
+	isConfigured() {
+		return true;
+	}
+
+	status(value: string) {
+		return this.mapStatus(value);
+	}
+
+	priority(value: string | number | null) {
+		return this.mapPriority(value);
+	}
+}
+
+describe("BaseTicketProvider value mapping", () => {
+	it("uses the defaults and falls back for unknown values", () => {
+		const provider = new TestProvider({});
+		expect(provider.status("In Progress")).toBe("in_progress");
+		expect(provider.status("In QA")).toBe("open");
+		expect(provider.priority(1)).toBe("urgent");
+		expect(provider.priority("P1")).toBe("medium");
+	});
+
+	it("prefers custom mappings over the defaults", () => {
+		const provider = new TestProvider({});
+		provider.setValueMappings({
+			status: { "in qa": "review", done: "closed" },
+			priority: { p1: "urgent", "4": "medium" },
+		});
+		expect(provider.status(" In QA ")).toBe("review");
+		expect(provider.status("Done")).toBe("closed");
+		expect(provider.priority("P1")).toBe("urgent");
+		expect(provider.priority(4)).toBe("medium");
+	});
+
+	it("collects unmapped values once until taken", () => {
+		const provider = new TestProvider({});
+		provider.status("Blocked");
+		provider.status("blocked");
+		provider.priority("P2");
+		provider.priority(null);
+
+		expect(provider.takeUnmappedValues()).toEqual([
+			{ field: "status", value: "blocked" },
+			{ field: "priority", value: "p2" },
+		]);
+		expect(provider.takeUnmappedValues()).toEqual([]);
+	});
+});
+
+describe("describeConnectionFailure", () => {
+	it("explains auth, permission and scope failures", () => {
+		expect(describeConnectionFailure("Jira", 401, "project PROJ")).toContain(
+			"rejected the API token",
+		);
+		expect(describeConnectionFailure("Jira", 403, "project PROJ")).toContain(
+			"not allowed to read project PROJ",
+		);
+		expect(describeConnectionFailure("Jira", 404, "project PROJ")).toContain(
+			"could not find project PROJ",
+		);
+	});
+
+	it("falls back to the HTTP status for other responses", () => {
+		expect(describeConnectionFailure("GitLab", 502, "the project")).toContain(
+			"HTTP 502",
+		);
+		expect(describeConnectionFailure("GitLab", 418, "the project")).toBe(
+			"GitLab refused the request for the project (HTTP 418).",
+		);
+	});
+});
+
+describe("isCompleteListing", () => {
+	const ticket = { externalId: "1" } as ExternalTicket;
+
+	it("trusts a listing that matches the provider's count", () => {
+		expect(isCompleteListing({ tickets: [ticket], pages: 1, total: 1 })).toBe(
+			true,
+		);
+		expect(isCompleteListing({ tickets: [ticket], pages: 1 })).toBe(true);
+	});
+
+	it("rejects listings that fetched nothing or came up short", () => {
+		expect(isCompleteListing({ tickets: [], pages: 0 })).toBe(false);
+		expect(isCompleteListing({ tickets: [ticket], pages: 2, total: 2 })).toBe(
+			false,
+		);
+	});
+});
@@ -1,8 +1,12 @@
 import type {
+	MappedTicketField,
+	SprintState,
+	TicketLinkType,
 	TicketPriority,
 	TicketProvider,
 	TicketStatus,
 } from "@/server/db/schema";
+import { type ProviderHttpClient, ProviderHttpError } from "./http";
 
 /**
  * External ticket representation from providers (Jira, Linear, etc.)
@@ -16,10 +20,146 @@ export interface ExternalTicket {
 	assignee: string | null;
 	labels: string[];
 	metadata: Record<string, unknown>;
+	/**
+	 * Discussion thread, newest last. Undefined when the provider does not
+	 * sync comments, so stored comments are left untouched.
+	 */
+	comments?: ExternalComment[];
+	/**
+	 * Links to other tickets of the provider. Undefined when the provider has
+	 * no links, so stored links are left untouched; otherwise the full set.
+	 */
+	links?: ExternalTicketLink[];
+	/**
+	 * External ID of the parent ticket (epic, story), null for a top-level
+	 * ticket. Undefined when the provider has no hierarchy.
+	 */
+	parentExternalId?: string | null;
+	/** Effort in story points; undefined when the provider has no estimates */
+	estimate?: number | null;
+	/**
+	 * Sprints the ticket belongs to. Undefined when the provider has no
+	 * sprints, so stored sprint membership is left untouched.
+	 */
+	sprints?: ExternalSprint[];
 	createdAt: Date;
 	updatedAt: Date | null;
 }
 
+/**
+ * Comment on an external ticket
+ */
+export interface ExternalComment {
+	externalId: string;
+	author: string | null;
+	/** Markdown body */
+	body: string;
+	createdAt: Date;
+	updatedAt: Date | null;
+}
+
+/**
+ * Sprint of an external ticket
+ */
+export interface ExternalSprint {
+	externalId: string;
+	name: string;
+	goal: string | null;
+	state: SprintState;
+	startDate: Date | null;
+	endDate: Date | null;
+}
+
+/**
+ * Link from an external ticket to another ticket of the same provider
+ */
+export interface ExternalTicketLink {
+	type: TicketLinkType;
+	/** External ID of the linked ticket */
+	targetExternalId: string;
+}
+
+/**
+ * Field changes that can be pushed back to the source system
+ */
+export interface ExternalTicketUpdate {
+	status?: TicketStatus;
+	priority?: TicketPriority;
+	assignee?: string | null;
+}
+
+/**
+ * Ticket change announced by a provider webhook
+ */
+export interface TicketWebhookEvent {
+	action: "upsert" | "delete";
+	externalId: string;
+}
+
+/**
+ * Result of listing tickets from a provider
+ */
+export interface TicketListResult {
+	tickets: ExternalTicket[];
+	/**
+	 * Number of API pages requested to build the list; zero means nothing was
+	 * listed. Requests that fail throw instead. Providers page on a key that
+	 * edits do not move, so a ticket changed mid-listing is not skipped, but
+	 * deletions between pages can still shift one past the cursor; sync only
+	 * archives missing tickets when `isCompleteListing` holds.
+	 */
+	pages: number;
+	/** Matching tickets as counted by the provider, when it reports one */
+	total?: number;
+}
+
+/**
+ * Whether a listing can be trusted to hold every matching ticket: something
+ * was listed, and it agrees with the provider's own count where there is one
+ */
+export function isCompleteListing(result: TicketListResult): boolean {
+	return (
+		result.pages > 0 &&
+		(result.total === undefined || result.tickets.length === result.total)
+	);
+}
+
+/**
+ * Options for listing tickets from a provider
+ */
+export interface ListTicketsOptions {
+	/**
+	 * Only return tickets changed at or after this time. Providers without
+	 * server-side filtering may ignore it and return everything.
+	 */
+	updatedSince?: Date;
+}
+
+/**
+ * Custom status/priority translations keyed by normalized external value
+ */
+export interface ProviderValueMappings {
+	status: Record<string, TicketStatus>;
+	priority: Record<string, TicketPriority>;
+}
+
+/**
+ * External value that fell back to the default because nothing maps it
+ */
+export interface UnmappedValue {
+	field: MappedTicketField;
+	value: string;
+}
+
+/**
+ * Outcome of checking a connection's credentials and scope
+ */
+export interface ConnectionTestResult {
+	ok: boolean;
+	/** Plain-language summary for the person setting up the connection */
+	message: string;
+}
+
 /**
  * Configuration for a ticket provider
  */
@@ -37,9 +177,9 @@ export interface ITicketProvider {
 	readonly name: TicketProvider;
 
 	/**
-	 * List all tickets from the provider
+	 * List tickets from the provider, optionally only those changed since a watermark
 	 */
-	listTickets(): Promise<ExternalTicket[]>;
+	listTickets(options?: ListTicketsOptions): Promise<TicketListResult>;
 
 	/**
 	 * Get a single ticket by its external ID
@@ -50,77 +190,207 @@ export interface ITicketProvider {
 	 * Check if the provider is configured and ready to use
 	 */
 	isConfigured(): boolean;
+
+	/**
+	 * Push status, priority and assignee changes to the source system.
+	 * Optional; providers without write support leave it undefined.
+	 * Throws with a descriptive message if the provider rejects the change.
+	 */
+	updateTicket?(
+		externalId: string,
+		changes: ExternalTicketUpdate,
+	): Promise<void>;
+
+	/**
+	 * Extract the affected ticket from a webhook payload.
+	 * Returns null for events that do not concern a ticket.
+	 */
+	parseWebhookEvent?(payload: unknown): TicketWebhookEvent | null;
+
+	/**
+	 * Check whether a ticket falls within the configured project, team or
+	 * filter. Webhooks announce every ticket the credentials can see, so their
+	 * events are checked before anything is stored. Optional; without it every
+	 * ticket is treated as in scope.
+	 */
+	isInScope?(externalId: string): Promise<boolean>;
+
+	/**
+	 * Call the provider with the configured credentials and check they can
+	 * read the configured scope. Never throws; failures are described in the
+	 * result.
+	 */
+	testConnection?(): Promise<ConnectionTestResult>;
+
+	/**
+	 * Replace the custom status/priority mappings used when mapping tickets
+	 */
+	setValueMappings?(mappings: ProviderValueMappings): void;
+
+	/**
+	 * Return the unmapped values seen since the last call and forget them
+	 */
+	takeUnmappedValues?(): UnmappedValue[];
 }
 
+const DEFAULT_STATUS_MAP: Record<string, TicketStatus> = {
+	// Jira statuses
+	"to do": "open",
+	done: "done",
+	closed: "closed",
+	// Linear statuses
+	backlog: "open",
+	todo: "open",
+	"in progress": "in_progress",
+	"in review": "review",
+	completed: "done",
+	canceled: "closed",
+	cancelled: "closed",
+};
+
+// Linear uses 0-4 priority (0 = no priority, 1 = urgent, 4 = low)
+const DEFAULT_NUMERIC_PRIORITY_MAP: Record<number, TicketPriority> = {
+	0: "medium",
+	1: "urgent",
+	2: "high",
+	3: "medium",
+	4: "low",
+};
+
+const DEFAULT_PRIORITY_MAP: Record<string, TicketPriority> = {
+	highest: "urgent",
+	high: "high",
+	medium: "medium",
+	low: "low",
+	lowest: "low",
+	urgent: "urgent",
+	critical: "urgent",
+};
+
+/**
+ * Explain a failed request of a connection test in plain language
+ */
+export function describeConnectionFailure(
+	service: string,
+	status: number,
+	target: string,
+): string {
+	switch (status) {
+		case 401:
+			return `${service} rejected the API token. Check that it was copied completely and has not expired or been revoked.`;
+		case 403:
+			return `The API token is valid but is not allowed to read ${target}. Grant it access or use a token with more permissions.`;
+		case 404:
+			return `${service} could not find ${target}. Check the spelling, and that the token's account can see it.`;
+		case 429:
+			return `${service} is rate limiting requests. Try again in a minute.`;
+		default:
+			return status >= 500
+				? `${service} had an internal error (HTTP ${status}). Try again later.`
+				: `${service} refused the request for ${target} (HTTP ${status}).`;
+	}
+}
+
+/** Result of one request made while testing a connection */
+export type ConnectionProbe =
+	| { ok: true; body: unknown }
+	| { ok: false; status: number | null; message: string };
+
 /**
  * Base class for ticket providers with common functionality
  */
 export abstract class BaseTicketProvider implements ITicketProvider {
 	abstract readonly name: TicketProvider;
 	protected config: TicketProviderConfig;
+	protected valueMappings: ProviderValueMappings = { status: {}, priority: {} };
+	private unmappedValues = new Map<string, UnmappedValue>();
 
 	constructor(config: TicketProviderConfig) {
 		this.config = config;
 	}
 
-	abstract listTickets(): Promise<ExternalTicket[]>;
+	abstract listTickets(options?: ListTicketsOptions): Promise<TicketListResult>;
 	abstract getTicket(externalId: string): Promise<ExternalTicket | null>;
 	abstract isConfigured(): boolean;
 
+	setValueMappings(mappings: ProviderValueMappings): void {
+		this.valueMappings = mappings;
+	}
+
+	takeUnmappedValues(): UnmappedValue[] {
+		const values = Array.from(this.unmappedValues.values());
+		this.unmappedValues.clear();
+		return values;
+	}
+
 	/**
-	 * Map external status strings to internal status enum
+	 * Map external status strings to internal status enum. Custom mappings
+	 * take precedence over the defaults; unknown statuses become open.
 	 */
 	protected mapStatus(externalStatus: string): TicketStatus {
-		const statusMap: Record<string, TicketStatus> = {
-			// Jira statuses
-			"to do": "open",
-			done: "done",
-			closed: "closed",
-			// Linear statuses
-			backlog: "open",
-			todo: "open",
-			"in progress": "in_progress",
-			"in review": "review",
-			completed: "done",
-			canceled: "closed",
-			cancelled: "closed",
-		};
-
 		const normalized = externalStatus.toLowerCase().trim();
-		return statusMap[normalized] ?? "open";
+		const mapped =
+			this.valueMappings.status[normalized] ?? DEFAULT_STATUS_MAP[normalized];
+		if (mapped) return mapped;
+
+		this.noteUnmapped("status", normalized);
+		return "open";
 	}
 
 	/**
-	 * Map external priority strings to internal priority enum
+	 * Map external priority strings (or Linear's numbers) to internal priority
+	 * enum. Custom mappings take precedence; unknown priorities become medium.
 	 */
 	protected mapPriority(
 		externalPriority: string | number | null,
 	): TicketPriority {
 		if (externalPriority === null) return "medium";
 
-		if (typeof externalPriority === "number") {
-			// Linear uses 0-4 priority (0 = no priority, 1 = urgent, 4 = low)
-			const numericMap: Record<number, TicketPriority> = {
-				0: "medium",
-				1: "urgent",
-				2: "high",
-				3: "medium",
-				4: "low",
+		const normalized = String(externalPriority).toLowerCase().trim();
+		const mapped =
+			this.valueMappings.priority[normalized] ??
+			(typeof externalPriority === "number"
+				? DEFAULT_NUMERIC_PRIORITY_MAP[externalPriority]
+				: DEFAULT_PRIORITY_MAP[normalized]);
+		if (mapped) return mapped;
+
+		this.noteUnmapped("priority", normalized);
+		return "medium";
+	}
+
+	/**
+	 * Make one request of a connection test, without retries, turning network
+	 * errors and error responses into plain-language messages
+	 */
+	protected async probe(
+		client: ProviderHttpClient,
+		target: string,
+		url: string,
+		init?: RequestInit,
+	): Promise<ConnectionProbe> {
+		try {
+			const response = await client.fetch(url, init, {
+				idempotent: true,
+				maxRetries: 0,
+			});
+			return { ok: true, body: await response.json().catch(() => null) };
+		} catch (error) {
+			if (!(error instanceof ProviderHttpError)) throw error;
+			const reason =
+				error.cause instanceof Error ? error.cause.message : error.message;
+			return {
+				ok: false,
+				status: error.status,
+				message:
+					error.status === null
+						? `Could not reach ${client.service}. Check the URL and that this server can access it (${reason}).`
+						: describeConnectionFailure(client.service, error.status, target),
 			};
-			return numericMap[externalPriority] ?? "medium";
 		}
+	}
 
-		const priorityMap: Record<string, TicketPriority> = {
-			highest: "urgent",
-			high: "high",
-			medium: "medium",
-			low: "low",
-			lowest: "low",
-			urgent: "urgent",
-			critical: "urgent",
-		};
-
-		const normalized = externalPriority.toLowerCase().trim();
-		return priorityMap[normalized] ?? "medium";
+	private noteUnmapped(field: UnmappedValue["field"], value: string): void {
+		if (!value) return;
+		this.unmappedValues.set(`${field}:${value}`, { field, value });
 	}
 }
@@ -1,50 +1,128 @@
+import { z } from "zod";
+import { agentRegistry } from "@/server/ai-agents";
+import {
+	getLatestRepoScan,
+	type RepoAnalysis,
+	startRepoScan,
+} from "../repo-analysis";
+import { findingToExternalTicket, getFindingId } from "../repo-findings";
 import {
 	BaseTicketProvider,
+	type ConnectionTestResult,
 	type ExternalTicket,
+	type TicketListResult,
 	type TicketProviderConfig,
 } from "./base";
+import type { TicketProviderPlugin } from "./plugin";
+
+const DEFAULT_SCAN_INTERVAL_HOURS = 24;
 
 /**
- * Docker/Opencode ticket provider (stubbed for future implementation)
+ * Repository analysis ticket provider
  *
- * This provider will eventually:
- * 1. Start a Docker container with the Opencode CLI
- * 2. Clone and analyze a repository
- * 3. Generate tickets/issues based on code analysis
+ * Tickets are the findings (TODOs, risky patterns, missing tests) of the
+ * latest completed analysis agent scan of a local repository checkout. A
+ * sync starts a new scan in the background once the last one is older than
+ * the scan interval; its findings show up in the sync after it completes.
  *
- * For now, it returns mocked/empty data.
+ * The checkout must be the directory the agent server works in (for opencode,
+ * `OPENCODE_DIRECTORY` or the repository mounted into its container).
  */
 export class DockerRepoTicketProvider extends BaseTicketProvider {
 	readonly name = "docker" as const;
 
+	private get repoPath(): string | undefined {
+		const repoPath = this.config.additionalConfig?.repoPath;
+		return typeof repoPath === "string" && repoPath ? repoPath : undefined;
+	}
+
+	private get scanIntervalMs(): number {
+		const hours = Number(this.config.additionalConfig?.scanIntervalHours);
+		return (hours > 0 ? hours : DEFAULT_SCAN_INTERVAL_HOURS) * 60 * 60 * 1000;
+	}
+
 	isConfigured(): boolean {
-		// TODO: Check for Docker availability and Opencode CLI configuration
-		return false;
+		return !!this.repoPath;
+	}
+
+	private toTickets(scan: RepoAnalysis): ExternalTicket[] {
+		const completedAt = scan.analyzedAt ?? new Date();
+		return scan.findings.map((finding) =>
+			findingToExternalTicket(finding, {
+				repoPath: scan.repoPath,
+				completedAt,
+			}),
+		);
 	}
 
-	async listTickets(): Promise<ExternalTicket[]> {
-		if (!this.isConfigured()) {
+	async listTickets(): Promise<TicketListResult> {
+		const repoPath = this.repoPath;
+		if (!repoPath) {
 			console.warn("Docker provider not configured, returning empty list");
-			return [];
+			return { tickets: [], pages: 0 };
 		}
 
-		// TODO: Implement actual Docker/Opencode integration
-		// This would:
-		// 1. Connect to a running Opencode container
-		// 2. Fetch analyzed issues/suggestions
-		// 3. Map them to ExternalTicket format
+		// Rescan when the last scan failed or its results are out of date;
+		// startRepoScan reuses a scan that is still in progress
+		const latest = await getLatestRepoScan(repoPath);
+		const lastCompletedAt =
+			latest?.status === "completed" ? (latest.analyzedAt?.getTime() ?? 0) : 0;
+		if (Date.now() - lastCompletedAt >= this.scanIntervalMs) {
+			await startRepoScan(repoPath);
+		}
 
-		return [];
+		const completed =
+			latest?.status === "completed"
+				? latest
+				: await getLatestRepoScan(repoPath, ["completed"]);
+		// A completed scan is the full set of findings, so findings it no longer
+		// reports can be reconciled as orphans; without one nothing was listed
+		return completed
+			? { tickets: this.toTickets(completed), pages: 1 }
+			: { tickets: [], pages: 0 };
 	}
 
 	async getTicket(externalId: string): Promise<ExternalTicket | null> {
-		if (!this.isConfigured()) {
+		const repoPath = this.repoPath;
+		if (!repoPath) {
 			return null;
 		}
 
-		// TODO: Implement actual ticket retrieval from Opencode
-		console.log(`Would fetch Docker ticket: ${externalId}`);
-		return null;
+		const scan = await getLatestRepoScan(repoPath, ["completed"]);
+		if (!scan) return null;
+
+		const finding = scan.findings.find((f) => getFindingId(f) === externalId);
+		return finding
+			? (this.toTickets({ ...scan, findings: [finding] })[0] ?? null)
+			: null;
+	}
+
+	async testConnection(): Promise<ConnectionTestResult> {
+		if (!this.repoPath) {
+			return {
+				ok: false,
+				message: "Enter the path of the repository checkout to analyze.",
+			};
+		}
+
+		try {
+			const agent = agentRegistry.getActive();
+			if (!(await agent.checkHealth())) {
+				return {
+					ok: false,
+					message: `The ${agent.name} agent server is not reachable. Start it and make sure it can read ${this.repoPath}.`,
+				};
+			}
+			return {
+				ok: true,
+				message: `The ${agent.name} agent server is up. Scans of ${this.repoPath} run in the background after a sync.`,
+			};
+		} catch (error) {
+			return {
+				ok: false,
+				message: error instanceof Error ? error.message : String(error),
+			};
+		}
 	}
 }
 
@@ -53,3 +131,31 @@ export function createDockerProvider(
 ): DockerRepoTicketProvider {
 	return new DockerRepoTicketProvider(config ?? {});
 }
+
+export const dockerProviderPlugin: TicketProviderPlugin = {
+	key: "docker",
+	displayName: "Repository analysis",
+	description:
+		"Turns TODOs, risky code and missing tests found by the analysis agent into tickets.",
+	capabilities: {
+		incrementalSync: false,
+		writeBack: false,
+		webhooks: false,
+		comments: false,
+	},
+	configSchema: z.object({
+		repoPath: z.string().min(1).meta({
+			title: "Repository checkout",
+			placeholder: "Path the agent server works in, e.g. /workspace",
+		}),
+		scanIntervalHours: z.coerce.number().positive().optional().meta({
+			title: "Rescan after (hours)",
+			placeholder: "Optional, defaults to 24",
+		}),
+	}),
+	envConfig: () => ({
+		repoPath: process.env.REPO_ANALYSIS_PATH,
+		scanIntervalHours: process.env.REPO_ANALYSIS_INTERVAL_HOURS,
+	}),
+	createProvider: createDockerProvider,
+};
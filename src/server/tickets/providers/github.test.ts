@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mockFetch } from "@/test/utils";
+import { GitHubTicketProvider } from "./github";
+import { ProviderHttpError } from "./http";
+
+const BASE = "https://api.github.com/repos/acme/webapp/issues";
+const FIRST_PAGE = `${BASE}?state=all&sort=created&direction=asc&per_page=100`;
+
+function issue(number: number, pullRequest = false) {
+	return {
+		id: number,
+		number,
+		title: `Issue ${number}`,
+		body: null,
+		state: "open",
+		state_reason: null,
+		html_url: `https://github.com/acme/webapp/issues/${number}`,
+		labels: [],
+		assignee: null,
+		assignees: null,
+		milestone: null,
+		...(pullRequest ? { pull_request: {} } : {}),
+		created_at: "2026-01-01T00:00:00Z",
+		updated_at: "2026-01-02T00:00:00Z",
+	};
+}
+
+function createProvider() {
+	return new GitHubTicketProvider({
+		apiToken: "token",
+		additionalConfig: { owner: "acme", repo: "webapp" },
+	});
+}
+
+describe("GitHubTicketProvider.listTickets", () => {
+	let restore: (() => void) | undefined;
+	afterEach(() => restore?.());
+
+	it("follows the Link header through every page", async () => {
+		const mock = mockFetch({
+			[FIRST_PAGE]: Response.json([issue(1), issue(2, true)], {
+				headers: {
+					Link: `<${BASE}?page=2>; rel="next", <${BASE}?page=3>; rel="last"`,
+				},
+			}),
+			[`${BASE}?page=2`]: Response.json([issue(3)], {
+				headers: { Link: `<${BASE}?page=3>; rel="next"` },
+			}),
+			[`${BASE}?page=3`]: Response.json([issue(4)], {
+				headers: { Link: `<${BASE}?page=1>; rel="first"` },
+			}),
+		});
+		restore = mock.restore;
+
+		const result = await createProvider().listTickets();
+
+		expect(mock.requests).toHaveLength(3);
+		expect(result.pages).toBe(3);
+		expect(result.tickets.map((t) => t.externalId)).toEqual(["1", "3", "4"]);
+	});
+
+	it("asks only for issues updated since the watermark", async () => {
+		const since = new Date("2026-01-05T10:00:00Z");
+		const mock = mockFetch({
+			[`${FIRST_PAGE}&since=${since.toISOString()}`]: Response.json([issue(7)]),
+		});
+		restore = mock.restore;
+
+		const result = await createProvider().listTickets({ updatedSince: since });
+
+		expect(result.pages).toBe(1);
+		expect(result.tickets.map((t) => t.externalId)).toEqual(["7"]);
+	});
+
+	it("retries a page the API was briefly unable to serve", async () => {
+		const mock = mockFetch({
+			[FIRST_PAGE]: [
+				new Response(null, { status: 503, headers: { "Retry-After": "0" } }),
+				Response.json([issue(1)]),
+			],
+		});
+		restore = mock.restore;
+
+		const result = await createProvider().listTickets();
+
+		expect(mock.requests).toEqual([FIRST_PAGE, FIRST_PAGE]);
+		expect(result.tickets.map((t) => t.externalId)).toEqual(["1"]);
+	});
+
+	it("fails the whole listing when a later page fails", async () => {
+		const mock = mockFetch({
+			[FIRST_PAGE]: Response.json([issue(1)], {
+				headers: { Link: `<${BASE}?page=2>; rel="next"` },
+			}),
+			[`${BASE}?page=2`]: Response.json(
+				{ message: "Not Found" },
+				{ status: 404 },
+			),
+		});
+		restore = mock.restore;
+
+		const error = await createProvider()
+			.listTickets()
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ProviderHttpError);
+		expect((error as ProviderHttpError).status).toBe(404);
+	});
+});
@@ -0,0 +1,263 @@
+import { z } from "zod";
+import {
+	BaseTicketProvider,
+	type ConnectionTestResult,
+	type ExternalTicket,
+	type ListTicketsOptions,
+	type TicketListResult,
+	type TicketProviderConfig,
+} from "./base";
+import {
+	getNextPageUrl,
+	getProviderHttpClient,
+	isProviderNotFound,
+} from "./http";
+import type { TicketProviderPlugin } from "./plugin";
+
+interface GitHubIssue {
+	id: number;
+	number: number;
+	title: string;
+	body: string | null;
+	state: "open" | "closed";
+	state_reason: "completed" | "not_planned" | "reopened" | null;
+	html_url: string;
+	labels: (string | { name?: string })[];
+	assignee: { login: string } | null;
+	assignees: { login: string }[] | null;
+	milestone: {
+		title: string;
+		number: number;
+		due_on: string | null;
+	} | null;
+	pull_request?: unknown;
+	created_at: string;
+	updated_at: string;
+}
+
+const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+const GITHUB_PAGE_SIZE = 100;
+
+/**
+ * GitHub Issues ticket provider implementation
+ */
+export class GitHubTicketProvider extends BaseTicketProvider {
+	readonly name = "github" as const;
+	private readonly http = getProviderHttpClient("github");
+
+	isConfigured(): boolean {
+		return !!(this.config.apiToken && this.owner && this.repo);
+	}
+
+	async listTickets(
+		options: ListTicketsOptions = {},
+	): Promise<TicketListResult> {
+		if (!this.isConfigured()) {
+			console.warn("GitHub provider not configured, returning empty list");
+			return { tickets: [], pages: 0 };
+		}
+
+		const since = options.updatedSince
+			? `&since=${options.updatedSince.toISOString()}`
+			: "";
+		const tickets: ExternalTicket[] = [];
+		let pages = 0;
+		// Oldest first: issues edited mid-listing keep their place in the pages
+		let url: string | null =
+			`${this.repoUrl}/issues?state=all&sort=created&direction=asc&per_page=${GITHUB_PAGE_SIZE}${since}`;
+
+		// Follow the Link header until GitHub stops sending a next page
+		while (url) {
+			const response = await this.http.fetch(
+				url,
+				{ headers: this.getHeaders() },
+				{ errorDetails: describeGitHubError },
+			);
+			pages++;
+
+			const data = (await response.json()) as GitHubIssue[];
+			// The issues endpoint also returns pull requests; skip them
+			tickets.push(
+				...data
+					.filter((issue) => !issue.pull_request)
+					.map((issue) => this.mapGitHubIssue(issue)),
+			);
+			url = getNextPageUrl(response.headers);
+		}
+
+		return { tickets, pages };
+	}
+
+	async getTicket(externalId: string): Promise<ExternalTicket | null> {
+		if (!this.isConfigured()) {
+			return null;
+		}
+
+		const issueNumber = externalId.replace(/^#/, "");
+
+		try {
+			const response = await this.http.fetch(
+				`${this.repoUrl}/issues/${issueNumber}`,
+				{ headers: this.getHeaders() },
+				{ errorDetails: describeGitHubError },
+			);
+
+			const issue = (await response.json()) as GitHubIssue;
+			if (issue.pull_request) return null;
+			return this.mapGitHubIssue(issue);
+		} catch (error) {
+			if (isProviderNotFound(error)) return null;
+			throw error;
+		}
+	}
+
+	async testConnection(): Promise<ConnectionTestResult> {
+		if (!this.isConfigured()) {
+			return {
+				ok: false,
+				message: "Enter an access token, the repository owner and name.",
+			};
+		}
+
+		const repository = await this.probe(
+			this.http,
+			`repository ${this.owner}/${this.repo}`,
+			this.repoUrl,
+			{ headers: this.getHeaders() },
+		);
+		if (!repository.ok) return { ok: false, message: repository.message };
+
+		const { full_name, has_issues } = repository.body as {
+			full_name: string;
+			has_issues: boolean;
+		};
+		if (!has_issues) {
+			return {
+				ok: false,
+				message: `Issues are turned off for ${full_name}. Enable them in the repository settings.`,
+			};
+		}
+		return { ok: true, message: `Repository ${full_name} is readable.` };
+	}
+
+	private get owner(): string | undefined {
+		return this.config.additionalConfig?.owner as string | undefined;
+	}
+
+	private get repo(): string | undefined {
+		return this.config.additionalConfig?.repo as string | undefined;
+	}
+
+	private get repoUrl(): string {
+		const baseUrl = this.config.baseUrl || DEFAULT_GITHUB_API_URL;
+		return `${baseUrl}/repos/${this.owner}/${this.repo}`;
+	}
+
+	private getHeaders(): HeadersInit {
+		return {
+			Authorization: `Bearer ${this.config.apiToken}`,
+			Accept: "application/vnd.github+json",
+			"X-GitHub-Api-Version": "2022-11-28",
+		};
+	}
+
+	private mapGitHubIssue(issue: GitHubIssue): ExternalTicket {
+		const labels = issue.labels
+			.map((l) => (typeof l === "string" ? l : l.name))
+			.filter((l): l is string => !!l);
+		const assignees = (issue.assignees ?? []).map((a) => a.login);
+
+		return {
+			externalId: String(issue.number),
+			title: issue.title,
+			description: issue.body,
+			status: this.mapGitHubState(issue),
+			priority: this.mapPriority(this.findPriorityLabel(labels)),
+			assignee: issue.assignee?.login ?? assignees[0] ?? null,
+			labels,
+			metadata: {
+				githubId: issue.id,
+				githubNumber: issue.number,
+				externalUrl: issue.html_url,
+				assignees,
+				milestone: issue.milestone
+					? {
+							title: issue.milestone.title,
+							number: issue.milestone.number,
+							dueOn: issue.milestone.due_on,
+						}
+					: null,
+			},
+			createdAt: new Date(issue.created_at),
+			updatedAt: issue.updated_at ? new Date(issue.updated_at) : null,
+		};
+	}
+
+	/**
+	 * GitHub only knows open/closed; use the close reason to tell
+	 * finished work apart from issues closed as "not planned".
+	 */
+	private mapGitHubState(issue: GitHubIssue): ExternalTicket["status"] {
+		if (issue.state === "open") return "open";
+		return issue.state_reason === "not_planned" ? "closed" : "done";
+	}
+
+	/**
+	 * GitHub has no native priority field, so fall back to labels such as
+	 * "priority: high" or "P1".
+	 */
+	private findPriorityLabel(labels: string[]): string | null {
+		for (const label of labels) {
+			const named = label.match(/^priority\s*[:/-]?\s*(\w+)$/i);
+			if (named?.[1]) return named[1];
+
+			const numbered = label.match(/^p([0-4])$/i);
+			if (numbered?.[1]) {
+				return ["urgent", "high", "medium", "low", "lowest"][
+					Number(numbered[1])
+				] as string;
+			}
+		}
+		return null;
+	}
+}
+
+function describeGitHubError(body: unknown): string | undefined {
+	return (body as { message?: string } | null)?.message || undefined;
+}
+
+export function createGitHubProvider(
+	config?: TicketProviderConfig,
+): GitHubTicketProvider {
+	return new GitHubTicketProvider(config ?? {});
+}
+
+export const githubProviderPlugin: TicketProviderPlugin = {
+	key: "github",
+	displayName: "GitHub",
+	capabilities: {
+		incrementalSync: true,
+		writeBack: false,
+		webhooks: false,
+		comments: false,
+	},
+	configSchema: z.object({
+		apiToken: z.string().min(1).meta({ title: "Access token", secret: true }),
+		owner: z.string().min(1).meta({ title: "Owner", placeholder: "acme" }),
+		repo: z
+			.string()
+			.min(1)
+			.meta({ title: "Repository", placeholder: "webapp" }),
+		baseUrl: z.url().optional().meta({
+			title: "API URL",
+			placeholder: "Optional, for GitHub Enterprise",
+		}),
+	}),
+	envConfig: () => ({
+		baseUrl: process.env.GITHUB_API_URL,
+		apiToken: process.env.GITHUB_TOKEN,
+		owner: process.env.GITHUB_OWNER,
+		repo: process.env.GITHUB_REPO,
+	}),
+	createProvider: createGitHubProvider,
+};
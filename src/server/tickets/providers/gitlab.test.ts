@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mockFetch } from "@/test/utils";
+import { GitLabTicketProvider } from "./gitlab";
+import { ProviderHttpError } from "./http";
+
+const FIRST_PAGE =
+	"https://gitlab.com/api/v4/projects/acme%2Fwebapp/issues?scope=all&order_by=created_at&sort=asc&per_page=100";
+
+function issue(iid: number) {
+	return {
+		id: iid + 1000,
+		iid,
+		title: `Issue ${iid}`,
+		description: null,
+		state: "opened",
+		web_url: `https://gitlab.com/acme/webapp/-/issues/${iid}`,
+		labels: [],
+		assignee: null,
+		assignees: [],
+		milestone: null,
+		weight: null,
+		created_at: "2026-01-01T00:00:00Z",
+		updated_at: "2026-01-02T00:00:00Z",
+	};
+}
+
+function createProvider() {
+	return new GitLabTicketProvider({
+		apiToken: "token",
+		projectKey: "acme/webapp",
+	});
+}
+
+describe("GitLabTicketProvider.listTickets", () => {
+	let restore: (() => void) | undefined;
+	afterEach(() => restore?.());
+
+	it("follows x-next-page until it is empty", async () => {
+		const mock = mockFetch({
+			[FIRST_PAGE]: Response.json([issue(1), issue(2)], {
+				headers: { "x-next-page": "2" },
+			}),
+			[`${FIRST_PAGE}&page=2`]: Response.json([issue(3)], {
+				headers: { "x-next-page": "3" },
+			}),
+			[`${FIRST_PAGE}&page=3`]: Response.json([issue(4)], {
+				headers: { "x-next-page": "" },
+			}),
+		});
+		restore = mock.restore;
+
+		const result = await createProvider().listTickets();
+
+		expect(mock.requests).toHaveLength(3);
+		expect(result.pages).toBe(3);
+		expect(result.tickets.map((t) => t.externalId)).toEqual([
+			"1",
+			"2",
+			"3",
+			"4",
+		]);
+	});
+
+	it("keeps every issue when one is edited between page requests", async () => {
+		const issues = Array.from({ length: 150 }, (_, i) => ({
+			...issue(i + 1),
+			created_at: new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString(),
+		}));
+		// A small GitLab serving whichever order it is asked for
+		const mock = mockFetch((url) => {
+			const key =
+				url.searchParams.get("order_by") === "created_at"
+					? "created_at"
+					: "updated_at";
+			const direction = url.searchParams.get("sort") === "asc" ? 1 : -1;
+			const sorted = [...issues].sort(
+				(a, b) => a[key].localeCompare(b[key]) * direction,
+			);
+			const page = Number(url.searchParams.get("page") ?? "1");
+			const perPage = Number(url.searchParams.get("per_page"));
+			const body = sorted.slice((page - 1) * perPage, page * perPage);
+
+			// Someone edits an issue from the second page after the first was read
+			if (page === 1) {
+				const edited = issues[120];
+				if (edited) edited.updated_at = "2026-02-01T00:00:00Z";
+			}
+
+			const hasNext = page * perPage < sorted.length;
+			return Response.json(body, {
+				headers: {
+					"x-next-page": hasNext ? String(page + 1) : "",
+					"x-total": String(sorted.length),
+				},
+			});
+		});
+		restore = mock.restore;
+
+		const result = await createProvider().listTickets();
+
+		expect(result.pages).toBe(2);
+		expect(result.total).toBe(150);
+		expect(new Set(result.tickets.map((t) => t.externalId)).size).toBe(150);
+	});
+
+	it("asks only for issues updated after the watermark", async () => {
+		const since = new Date("2026-01-05T10:00:00Z");
+		const mock = mockFetch({
+			[`${FIRST_PAGE}&updated_after=${since.toISOString()}`]: Response.json([
+				issue(7),
+			]),
+		});
+		restore = mock.restore;
+
+		const result = await createProvider().listTickets({ updatedSince: since });
+
+		expect(result.pages).toBe(1);
+		expect(result.tickets.map((t) => t.externalId)).toEqual(["7"]);
+	});
+
+	it("retries a page the API was briefly unable to serve", async () => {
+		const mock = mockFetch({
+			[FIRST_PAGE]: [
+				new Response(null, { status: 502, headers: { "Retry-After": "0" } }),
+				Response.json([issue(1)]),
+			],
+		});
+		restore = mock.restore;
+
+		const result = await createProvider().listTickets();
+
+		expect(mock.requests).toEqual([FIRST_PAGE, FIRST_PAGE]);
+		expect(result.tickets.map((t) => t.externalId)).toEqual(["1"]);
+	});
+
+	it("fails the whole listing when a later page fails", async () => {
+		const mock = mockFetch({
+			[FIRST_PAGE]: Response.json([issue(1)], {
+				headers: { "x-next-page": "2" },
+			}),
+			[`${FIRST_PAGE}&page=2`]: Response.json(
+				{ message: "403 Forbidden" },
+				{ status: 403 },
+			),
+		});
+		restore = mock.restore;
+
+		const error = await createProvider()
+			.listTickets()
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ProviderHttpError);
+		expect((error as ProviderHttpError).status).toBe(403);
+	});
+});
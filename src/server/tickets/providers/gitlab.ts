@@ -0,0 +1,267 @@
+import { z } from "zod";
+import type { TicketStatus } from "@/server/db/schema";
+import {
+	BaseTicketProvider,
+	type ConnectionTestResult,
+	type ExternalTicket,
+	type ListTicketsOptions,
+	type TicketListResult,
+	type TicketProviderConfig,
+} from "./base";
+import {
+	getNextPageUrl,
+	getProviderHttpClient,
+	isProviderNotFound,
+} from "./http";
+import type { TicketProviderPlugin } from "./plugin";
+
+interface GitLabIssue {
+	id: number;
+	iid: number;
+	title: string;
+	description: string | null;
+	state: "opened" | "closed";
+	web_url: string;
+	labels: string[];
+	assignee: { username: string; name: string } | null;
+	assignees: { username: string; name: string }[];
+	milestone: { title: string; id: number; due_date: string | null } | null;
+	weight: number | null;
+	created_at: string;
+	updated_at: string;
+}
+
+const DEFAULT_GITLAB_BASE_URL = "https://gitlab.com";
+const GITLAB_PAGE_SIZE = 100;
+
+/**
+ * GitLab Issues ticket provider implementation.
+ *
+ * Supports gitlab.com and self-hosted instances via `baseUrl`. `projectKey`
+ * is the numeric project ID or its full path (e.g. "group/project").
+ */
+export class GitLabTicketProvider extends BaseTicketProvider {
+	readonly name = "gitlab" as const;
+	private readonly http = getProviderHttpClient("gitlab");
+
+	isConfigured(): boolean {
+		return !!(this.config.apiToken && this.config.projectKey);
+	}
+
+	async listTickets(
+		options: ListTicketsOptions = {},
+	): Promise<TicketListResult> {
+		if (!this.isConfigured()) {
+			console.warn("GitLab provider not configured, returning empty list");
+			return { tickets: [], pages: 0 };
+		}
+
+		const updatedAfter = options.updatedSince
+			? `&updated_after=${options.updatedSince.toISOString()}`
+			: "";
+		// Created order stays put while issues are edited during the listing
+		const firstPage = `${this.projectUrl}/issues?scope=all&order_by=created_at&sort=asc&per_page=${GITLAB_PAGE_SIZE}${updatedAfter}`;
+		const tickets: ExternalTicket[] = [];
+		let pages = 0;
+		let total: number | undefined;
+		let url: string | null = firstPage;
+
+		// Follow the Link header, or x-next-page where GitLab leaves it out,
+		// until no next page is left
+		while (url) {
+			const response = await this.http.fetch(
+				url,
+				{ headers: this.getHeaders() },
+				{ errorDetails: describeGitLabError },
+			);
+			pages++;
+			// Left out by GitLab above 10,000 matching issues
+			const totalHeader = response.headers.get("x-total");
+			if (pages === 1 && totalHeader) total = Number(totalHeader);
+
+			const data = (await response.json()) as GitLabIssue[];
+			tickets.push(...data.map((issue) => this.mapGitLabIssue(issue)));
+
+			const nextPage = response.headers.get("x-next-page");
+			url =
+				getNextPageUrl(response.headers) ??
+				(nextPage ? `${firstPage}&page=${nextPage}` : null);
+		}
+
+		return { tickets, pages, total };
+	}
+
+	async getTicket(externalId: string): Promise<ExternalTicket | null> {
+		if (!this.isConfigured()) {
+			return null;
+		}
+
+		try {
+			const response = await this.http.fetch(
+				`${this.projectUrl}/issues/${externalId}`,
+				{ headers: this.getHeaders() },
+				{ errorDetails: describeGitLabError },
+			);
+
+			const issue = (await response.json()) as GitLabIssue;
+			return this.mapGitLabIssue(issue);
+		} catch (error) {
+			if (isProviderNotFound(error)) return null;
+			throw error;
+		}
+	}
+
+	async testConnection(): Promise<ConnectionTestResult> {
+		if (!this.isConfigured()) {
+			return {
+				ok: false,
+				message: "Enter an access token and the project ID or path.",
+			};
+		}
+
+		const project = await this.probe(
+			this.http,
+			`project ${this.config.projectKey}`,
+			this.projectUrl,
+			{ headers: this.getHeaders() },
+		);
+		if (!project.ok) return { ok: false, message: project.message };
+
+		const { path_with_namespace, issues_enabled } = project.body as {
+			path_with_namespace: string;
+			issues_enabled?: boolean;
+		};
+		if (issues_enabled === false) {
+			return {
+				ok: false,
+				message: `Issues are turned off for ${path_with_namespace}. Enable them in the project settings.`,
+			};
+		}
+		return { ok: true, message: `Project ${path_with_namespace} is readable.` };
+	}
+
+	private get projectUrl(): string {
+		const baseUrl = (this.config.baseUrl || DEFAULT_GITLAB_BASE_URL).replace(
+			/\/+$/,
+			"",
+		);
+		const projectId = encodeURIComponent(this.config.projectKey ?? "");
+		return `${baseUrl}/api/v4/projects/${projectId}`;
+	}
+
+	private getHeaders(): HeadersInit {
+		return {
+			"PRIVATE-TOKEN": this.config.apiToken ?? "",
+			Accept: "application/json",
+		};
+	}
+
+	private mapGitLabIssue(issue: GitLabIssue): ExternalTicket {
+		const scoped = parseScopedLabels(issue.labels);
+
+		// Scoped priority/status labels are translated into fields; keep the
+		// rest as plain labels and surface the weight alongside them.
+		const labels = issue.labels.filter(
+			(label) => !/^(priority|status|workflow)::/i.test(label),
+		);
+		if (issue.weight !== null) {
+			labels.push(`weight::${issue.weight}`);
+		}
+
+		return {
+			externalId: String(issue.iid),
+			title: issue.title,
+			description: issue.description,
+			status: this.mapGitLabState(issue.state, scoped),
+			priority: this.mapPriority(scoped.priority ?? null),
+			assignee: issue.assignee?.name ?? issue.assignees[0]?.name ?? null,
+			labels,
+			metadata: {
+				gitlabId: issue.id,
+				gitlabIid: issue.iid,
+				externalUrl: issue.web_url,
+				assignees: issue.assignees.map((a) => a.username),
+				weight: issue.weight,
+				milestone: issue.milestone
+					? {
+							title: issue.milestone.title,
+							id: issue.milestone.id,
+							dueDate: issue.milestone.due_date,
+						}
+					: null,
+			},
+			createdAt: new Date(issue.created_at),
+			updatedAt: issue.updated_at ? new Date(issue.updated_at) : null,
+		};
+	}
+
+	/**
+	 * Closed issues are done; open ones take their workflow stage from a
+	 * `status::` or `workflow::` scoped label when present.
+	 */
+	private mapGitLabState(
+		state: GitLabIssue["state"],
+		scoped: Record<string, string>,
+	): TicketStatus {
+		if (state === "closed") return "done";
+
+		const stage = scoped.status ?? scoped.workflow;
+		return stage ? this.mapStatus(stage) : "open";
+	}
+}
+
+function describeGitLabError(body: unknown): string | undefined {
+	const error = body as { message?: unknown; error?: string } | null;
+	const message = error?.message ?? error?.error;
+	if (!message) return undefined;
+	return typeof message === "string" ? message : JSON.stringify(message);
+}
+
+/**
+ * Extract GitLab scoped labels ("scope::value") into a lookup keyed by
+ * lower-cased scope. Nested scopes keep everything after the last `::`.
+ */
+function parseScopedLabels(labels: string[]): Record<string, string> {
+	const scoped: Record<string, string> = {};
+	for (const label of labels) {
+		const separator = label.lastIndexOf("::");
+		if (separator <= 0) continue;
+		const scope = label.slice(0, separator).toLowerCase().trim();
+		scoped[scope] = label.slice(separator + 2).trim();
+	}
+	return scoped;
+}
+
+export function createGitLabProvider(
+	config?: TicketProviderConfig,
+): GitLabTicketProvider {
+	return new GitLabTicketProvider(config ?? {});
+}
+
+export const gitlabProviderPlugin: TicketProviderPlugin = {
+	key: "gitlab",
+	displayName: "GitLab",
+	capabilities: {
+		incrementalSync: true,
+		writeBack: false,
+		webhooks: false,
+		comments: false,
+	},
+	configSchema: z.object({
+		apiToken: z.string().min(1).meta({ title: "Access token", secret: true }),
+		projectKey: z.string().min(1).meta({
+			title: "Project ID or path",
+			placeholder: "group/project",
+		}),
+		baseUrl: z.url().optional().meta({
+			title: "Instance URL",
+			placeholder: "Optional, defaults to https://gitlab.com",
+		}),
+	}),
+	envConfig: () => ({
+		baseUrl: process.env.GITLAB_BASE_URL,
+		apiToken: process.env.GITLAB_TOKEN,
+		projectKey: process.env.GITLAB_PROJECT_ID,
+	}),
+	createProvider: createGitLabProvider,
+};
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "bun:test";
+import {
+	getNextPageUrl,
+	ProviderHttpClient,
+	ProviderHttpError,
+	parseRetryAfter,
+} from "./http";
+
+function createClient(
+	responses: (Response | Error)[],
+	options: { concurrency?: number } = {},
+) {
+	const calls: string[] = [];
+	const sleeps: number[] = [];
+	const client = new ProviderHttpClient({
+		service: "Jira",
+		concurrency: options.concurrency,
+		baseDelayMs: 100,
+		maxDelayMs: 10_000,
+		random: () => 1,
+		sleep: async (ms) => {
+			sleeps.push(ms);
+		},
+		fetch: async (input, init) => {
+			calls.push(`${init?.method ?? "GET"} ${String(input)}`);
+			const next = responses.shift();
+			if (!next) throw new Error("no more responses");
+			if (next instanceof Error) throw next;
+			return next;
+		},
+	});
+	return { client, calls, sleeps };
+}
+
+describe("parseRetryAfter", () => {
+	const now = Date.parse("2026-01-01T00:00:00Z");
+
+	it("reads seconds and HTTP dates", () => {
+		expect(parseRetryAfter(new Headers({ "Retry-After": "3" }), now)).toBe(
+			3000,
+		);
+		expect(
+			parseRetryAfter(
+				new Headers({ "Retry-After": "Thu, 01 Jan 2026 00:00:05 GMT" }),
+				now,
+			),
+		).toBe(5000);
+	});
+
+	it("reads GitHub's reset time once the quota is used up", () => {
+		const headers = new Headers({
+			"X-RateLimit-Remaining": "0",
+			"X-RateLimit-Reset": String(now / 1000 + 7),
+		});
+		expect(parseRetryAfter(headers, now)).toBe(7000);
+		expect(parseRetryAfter(new Headers(), now)).toBeNull();
+	});
+});
+
+describe("getNextPageUrl", () => {
+	it("picks the next relation out of a Link header", () => {
+		const link =
+			'<https://gitlab.com/api/v4/issues?page=1>; rel="first", <https://gitlab.com/api/v4/issues?page=3>; rel="next"';
+		expect(getNextPageUrl(new Headers({ Link: link }))).toBe(
+			"https://gitlab.com/api/v4/issues?page=3",
+		);
+		expect(
+			getNextPageUrl(
+				new Headers({ Link: '<https://x/?page=1>; rel="prev first"' }),
+			),
+		).toBeNull();
+		expect(getNextPageUrl(new Headers())).toBeNull();
+	});
+});
+
+describe("ProviderHttpClient", () => {
+	it("retries transient errors with exponential backoff", async () => {
+		const { client, calls, sleeps } = createClient([
+			new Response(null, { status: 502 }),
+			new TypeError("socket hang up"),
+			Response.json({ ok: true }),
+		]);
+
+		const response = await client.fetch("https://jira.test/search");
+		expect(await response.json()).toEqual({ ok: true });
+		expect(calls).toHaveLength(3);
+		expect(sleeps).toEqual([100, 200]);
+	});
+
+	it("waits as long as Retry-After asks on 429", async () => {
+		const { client, sleeps } = createClient([
+			new Response(null, { status: 429, headers: { "Retry-After": "2" } }),
+			Response.json({}),
+		]);
+
+		await client.fetch("https://jira.test/search");
+		expect(sleeps).toEqual([2000]);
+	});
+
+	it("throws a typed error when retries run out", async () => {
+		const { client, calls } = createClient([
+			new Response(null, { status: 429 }),
+			new Response(null, { status: 429 }),
+			new Response(null, { status: 429 }),
+			new Response(null, { status: 429 }),
+		]);
+
+		const error = await client
+			.fetch("https://jira.test/search")
+			.catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(ProviderHttpError);
+		expect(error).toMatchObject({
+			status: 429,
+			rateLimited: true,
+			attempts: 4,
+		});
+		expect((error as Error).message).toBe(
+			"Jira is rate limiting requests after 4 attempts",
+		);
+		expect(calls).toHaveLength(4);
+	});
+
+	it("gives up at once when Retry-After exceeds the longest delay", async () => {
+		const { client, sleeps } = createClient([
+			new Response(null, { status: 429, headers: { "Retry-After": "3600" } }),
+		]);
+
+		const error = await client
+			.fetch("https://jira.test/search")
+			.catch((e: unknown) => e);
+		expect(error).toMatchObject({ retryAfterMs: 3_600_000, attempts: 1 });
+		expect(sleeps).toEqual([]);
+	});
+
+	it("does not retry client errors or non-idempotent requests", async () => {
+		const { client, calls } = createClient([
+			Response.json(
+				{ errorMessages: ["Issue does not exist"] },
+				{ status: 404 },
+			),
+			new Response(null, { status: 503 }),
+		]);
+
+		const notFound = await client
+			.fetch(
+				"https://jira.test/issue/X-1",
+				{},
+				{
+					errorDetails: (body) =>
+						(body as { errorMessages: string[] }).errorMessages.join("; "),
+				},
+			)
+			.catch((e: unknown) => e);
+		expect(notFound).toMatchObject({ status: 404, retryable: false });
+		expect((notFound as Error).message).toContain("Issue does not exist");
+
+		const transition = await client
+			.fetch("https://jira.test/transitions", { method: "POST" })
+			.catch((e: unknown) => e);
+		expect(transition).toMatchObject({ status: 503, retryable: true });
+		expect(calls).toHaveLength(2);
+	});
+
+	it("limits requests in flight", async () => {
+		let active = 0;
+		let peak = 0;
+		const client = new ProviderHttpClient({
+			service: "Linear",
+			concurrency: 2,
+			fetch: async () => {
+				active++;
+				peak = Math.max(peak, active);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				active--;
+				return Response.json({});
+			},
+		});
+
+		await Promise.all(
+			Array.from({ length: 6 }, () => client.fetch("https://linear.test")),
+		);
+		expect(peak).toBe(2);
+	});
+});
@@ -0,0 +1,321 @@
+import type { TicketProvider } from "@/server/db/schema";
+
+/**
+ * Failed request to a provider API, after any retries. `status` is null when
+ * no response arrived (network error or timeout).
+ */
+export class ProviderHttpError extends Error {
+	readonly service: string;
+	readonly status: number | null;
+	/** Whether the same request may succeed later */
+	readonly retryable: boolean;
+	readonly rateLimited: boolean;
+	/** How long the provider asked us to wait, when it said so */
+	readonly retryAfterMs: number | null;
+	/** Requests made before giving up */
+	readonly attempts: number;
+
+	constructor(
+		message: string,
+		options: {
+			service: string;
+			status: number | null;
+			retryable?: boolean;
+			rateLimited?: boolean;
+			retryAfterMs?: number | null;
+			attempts?: number;
+			cause?: unknown;
+		},
+	) {
+		super(message, { cause: options.cause });
+		this.name = "ProviderHttpError";
+		this.service = options.service;
+		this.status = options.status;
+		this.retryable = options.retryable ?? false;
+		this.rateLimited = options.rateLimited ?? false;
+		this.retryAfterMs = options.retryAfterMs ?? null;
+		this.attempts = options.attempts ?? 1;
+	}
+}
+
+export function isProviderNotFound(error: unknown): boolean {
+	return error instanceof ProviderHttpError && error.status === 404;
+}
+
+/**
+ * URL of the next page from a `Link` header (RFC 8288), as sent by GitHub and
+ * GitLab; null on the last page
+ */
+export function getNextPageUrl(headers: Headers): string | null {
+	const link = headers.get("Link");
+	if (!link) return null;
+
+	for (const part of link.split(",")) {
+		const url = part.match(/<([^>]+)>/)?.[1];
+		const rel = part.match(/;\s*rel="?([^";]+)"?/)?.[1];
+		if (url && rel?.split(/\s+/).includes("next")) return url;
+	}
+	return null;
+}
+
+export interface ProviderHttpClientOptions {
+	/** Name used in error messages, e.g. "Jira" */
+	service: string;
+	/** Requests allowed in flight at once */
+	concurrency?: number;
+	/** Retries after the first attempt */
+	maxRetries?: number;
+	/** First backoff delay; doubled on every retry */
+	baseDelayMs?: number;
+	/** Longest wait between attempts, including one asked for by Retry-After */
+	maxDelayMs?: number;
+	/** Abort an attempt that takes longer than this */
+	timeoutMs?: number;
+	fetch?: (url: string, init: RequestInit) => Promise<Response>;
+	sleep?: (ms: number) => Promise<void>;
+	random?: () => number;
+}
+
+export interface ProviderRequestOptions {
+	/**
+	 * Whether repeating the request is harmless. Defaults to true for GET,
+	 * HEAD, PUT and DELETE. Rate-limited requests are always retried since the
+	 * provider did not process them.
+	 */
+	idempotent?: boolean;
+	/** Overrides the client's retry count, e.g. 0 for connection tests */
+	maxRetries?: number;
+	/** Provider-specific detail from an error response body */
+	errorDetails?: (body: unknown) => string | undefined;
+	/** Recognize rate limiting a provider reports in the response body */
+	isRateLimited?: (body: unknown) => boolean;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+/**
+ * Delay requested by a `Retry-After` header (seconds or HTTP date), or by
+ * GitHub-style `X-RateLimit-Reset` epoch seconds once the quota is used up
+ */
+export function parseRetryAfter(
+	headers: Headers,
+	now: number = Date.now(),
+): number | null {
+	const retryAfter = headers.get("retry-after")?.trim();
+	if (retryAfter) {
+		if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+			return Math.ceil(Number(retryAfter) * 1000);
+		}
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) return Math.max(date - now, 0);
+	}
+
+	const reset = headers.get("x-ratelimit-reset");
+	if (headers.get("x-ratelimit-remaining") === "0" && reset) {
+		const resetAt = Number(reset) * 1000;
+		if (Number.isFinite(resetAt)) return Math.max(resetAt - now, 0);
+	}
+	return null;
+}
+
+/**
+ * Limits how many requests run at once; waiters are served in order
+ */
+class RequestLimiter {
+	private active = 0;
+	private readonly waiting: (() => void)[] = [];
+
+	constructor(private readonly limit: number) {}
+
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		if (this.active >= this.limit) {
+			await new Promise<void>((resolve) => this.waiting.push(resolve));
+		} else {
+			this.active++;
+		}
+		try {
+			return await task();
+		} finally {
+			// Hand the slot straight to the next waiter instead of freeing it
+			const next = this.waiting.shift();
+			if (next) next();
+			else this.active--;
+		}
+	}
+}
+
+type AttemptOutcome =
+	| { response: Response }
+	| { error: ProviderHttpError; delayMs: number | null };
+
+/**
+ * HTTP client for one provider API: retries transient failures with
+ * exponential backoff, honors Retry-After and caps concurrent requests.
+ * Resolves with successful responses only; everything else throws a
+ * ProviderHttpError.
+ */
+export class ProviderHttpClient {
+	readonly service: string;
+	private readonly limiter: RequestLimiter;
+	private readonly maxRetries: number;
+	private readonly baseDelayMs: number;
+	private readonly maxDelayMs: number;
+	private readonly timeoutMs: number;
+	private readonly fetchImpl: (
+		url: string,
+		init: RequestInit,
+	) => Promise<Response>;
+	private readonly sleep: (ms: number) => Promise<void>;
+	private readonly random: () => number;
+
+	constructor(options: ProviderHttpClientOptions) {
+		this.service = options.service;
+		this.limiter = new RequestLimiter(Math.max(options.concurrency ?? 4, 1));
+		this.maxRetries = options.maxRetries ?? 3;
+		this.baseDelayMs = options.baseDelayMs ?? 500;
+		this.maxDelayMs = options.maxDelayMs ?? 30_000;
+		this.timeoutMs = options.timeoutMs ?? 30_000;
+		this.fetchImpl = options.fetch ?? ((url, init) => fetch(url, init));
+		this.sleep =
+			options.sleep ??
+			((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+		this.random = options.random ?? Math.random;
+	}
+
+	async fetch(
+		url: string,
+		init: RequestInit = {},
+		options: ProviderRequestOptions = {},
+	): Promise<Response> {
+		const method = (init.method ?? "GET").toUpperCase();
+		const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+		const maxRetries = options.maxRetries ?? this.maxRetries;
+
+		for (let attempt = 1; ; attempt++) {
+			// Hold a slot only while the request is in flight, not while backing off
+			const outcome = await this.limiter.run(() =>
+				this.attempt(url, init, options, attempt),
+			);
+			if ("response" in outcome) return outcome.response;
+
+			const { error } = outcome;
+			const canRetry =
+				error.retryable &&
+				(idempotent || error.rateLimited) &&
+				attempt <= maxRetries;
+			const delayMs = outcome.delayMs ?? this.backoff(attempt);
+			if (!canRetry || delayMs > this.maxDelayMs) throw error;
+
+			await this.sleep(delayMs);
+		}
+	}
+
+	/**
+	 * Exponential backoff with jitter: between half and all of base * 2^(n-1),
+	 * so connections retrying together do not hit the provider in lockstep
+	 */
+	private backoff(attempt: number): number {
+		const ceiling = Math.min(
+			this.baseDelayMs * 2 ** (attempt - 1),
+			this.maxDelayMs,
+		);
+		return Math.round(ceiling * (0.5 + this.random() / 2));
+	}
+
+	private async attempt(
+		url: string,
+		init: RequestInit,
+		options: ProviderRequestOptions,
+		attempt: number,
+	): Promise<AttemptOutcome> {
+		let response: Response;
+		try {
+			response = await this.fetchImpl(url, {
+				...init,
+				signal: init.signal ?? AbortSignal.timeout(this.timeoutMs),
+			});
+		} catch (cause) {
+			const timedOut = cause instanceof Error && cause.name === "TimeoutError";
+			const reason = cause instanceof Error ? cause.message : String(cause);
+			return {
+				error: new ProviderHttpError(
+					timedOut
+						? `${this.service} did not answer within ${this.timeoutMs / 1000}s${this.attemptsNote(attempt)}`
+						: `Could not reach ${this.service}: ${reason}${this.attemptsNote(attempt)}`,
+					{
+						service: this.service,
+						status: null,
+						retryable: true,
+						attempts: attempt,
+						cause,
+					},
+				),
+				delayMs: null,
+			};
+		}
+
+		if (response.ok) return { response };
+
+		const body: unknown = await response.json().catch(() => null);
+		const retryAfterMs = parseRetryAfter(response.headers);
+		const rateLimited =
+			response.status === 429 ||
+			(response.status === 403 &&
+				response.headers.get("x-ratelimit-remaining") === "0") ||
+			(options.isRateLimited?.(body) ?? false);
+		const details = options.errorDetails?.(body);
+
+		const message = rateLimited
+			? `${this.service} is rate limiting requests${retryAfterMs !== null ? ` (retry after ${Math.ceil(retryAfterMs / 1000)}s)` : ""}`
+			: `${this.service} API error: ${response.status} ${response.statusText}${details ? ` - ${details}` : ""}`;
+
+		return {
+			error: new ProviderHttpError(`${message}${this.attemptsNote(attempt)}`, {
+				service: this.service,
+				status: response.status,
+				retryable: rateLimited || RETRYABLE_STATUSES.has(response.status),
+				rateLimited,
+				retryAfterMs,
+				attempts: attempt,
+			}),
+			delayMs: retryAfterMs,
+		};
+	}
+
+	private attemptsNote(attempt: number): string {
+		return attempt > 1 ? ` after ${attempt} attempts` : "";
+	}
+}
+
+/** Display name and request concurrency of the built-in provider APIs */
+const PROVIDER_HTTP_SETTINGS: Partial<
+	Record<TicketProvider, { service: string; concurrency: number }>
+> = {
+	jira: { service: "Jira", concurrency: 4 },
+	// Linear's complexity-based limits are the tightest of the four
+	linear: { service: "Linear", concurrency: 2 },
+	github: { service: "GitHub", concurrency: 4 },
+	gitlab: { service: "GitLab", concurrency: 4 },
+};
+
+const clients = new Map<string, ProviderHttpClient>();
+
+/**
+ * Shared client for a provider type. Every connection of the type uses the
+ * same one, so the concurrency limit covers all of them together. Plugin
+ * providers pass their own settings.
+ */
+export function getProviderHttpClient(
+	provider: TicketProvider,
+	settings?: { service: string; concurrency?: number },
+): ProviderHttpClient {
+	let client = clients.get(provider);
+	if (!client) {
+		client = new ProviderHttpClient(
+			PROVIDER_HTTP_SETTINGS[provider] ?? settings ?? { service: provider },
+		);
+		clients.set(provider, client);
+	}
+	return client;
+}
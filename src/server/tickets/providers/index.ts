@@ -1,4 +1,33 @@
 export * from "./base";
-export { createDockerProvider, DockerRepoTicketProvider } from "./docker";
-export { createJiraProvider, JiraTicketProvider } from "./jira";
-export { createLinearProvider, LinearTicketProvider } from "./linear";
+export {
+	createDockerProvider,
+	DockerRepoTicketProvider,
+	dockerProviderPlugin,
+} from "./docker";
+export {
+	createGitHubProvider,
+	GitHubTicketProvider,
+	githubProviderPlugin,
+} from "./github";
+export {
+	createGitLabProvider,
+	GitLabTicketProvider,
+	gitlabProviderPlugin,
+} from "./gitlab";
+export {
+	getProviderHttpClient,
+	isProviderNotFound,
+	ProviderHttpClient,
+	ProviderHttpError,
+} from "./http";
+export {
+	createJiraProvider,
+	JiraTicketProvider,
+	jiraProviderPlugin,
+} from "./jira";
+export {
+	createLinearProvider,
+	LinearTicketProvider,
+	linearProviderPlugin,
+} from "./linear";
+export * from "./plugin";
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "bun:test";
+import {
+	type AdfNode,
+	adfToMarkdown,
+	jiraRichTextToMarkdown,
+} from "./jira-adf";
+
+const doc = (...content: AdfNode[]): AdfNode => ({
+	type: "doc",
+	content,
+});
+const text = (value: string, marks?: AdfNode["marks"]): AdfNode => ({
+	type: "text",
+	text: value,
+	marks,
+});
+const paragraph = (...content: AdfNode[]): AdfNode => ({
+	type: "paragraph",
+	content,
+});
+
+describe("jiraRichTextToMarkdown", () => {
+	it("passes plain strings through and maps empty values to null", () => {
+		expect(jiraRichTextToMarkdown("Plain *wiki* text")).toBe(
+			"Plain *wiki* text",
+		);
+		expect(jiraRichTextToMarkdown(null)).toBeNull();
+		expect(jiraRichTextToMarkdown(doc())).toBeNull();
+	});
+});
+
+describe("adfToMarkdown", () => {
+	it("renders paragraphs, headings and inline marks", () => {
+		const markdown = adfToMarkdown(
+			doc(
+				{ type: "heading", attrs: { level: 2 }, content: [text("Steps")] },
+				paragraph(
+					text("Run "),
+					text("npm test", [{ type: "code" }]),
+					text(" and check the "),
+					text("logs ", [{ type: "strong" }]),
+					text("here", [{ type: "link", attrs: { href: "https://x.dev" } }]),
+				),
+				paragraph(text("line one"), { type: "hardBreak" }, text("line two")),
+			),
+		);
+
+		expect(markdown).toBe(
+			"## Steps\n\nRun `npm test` and check the **logs** [here](https://x.dev)\n\nline one  \nline two",
+		);
+	});
+
+	it("renders mentions, emoji, dates and status lozenges", () => {
+		const markdown = adfToMarkdown(
+			doc(
+				paragraph(
+					{ type: "mention", attrs: { id: "abc", text: "@Ana Lima" } },
+					text(" due "),
+					{ type: "date", attrs: { timestamp: "1767225600000" } },
+					text(" "),
+					{ type: "status", attrs: { text: "BLOCKED" } },
+					text(" "),
+					{ type: "emoji", attrs: { shortName: ":fire:", text: "🔥" } },
+				),
+			),
+		);
+
+		expect(markdown).toBe("@Ana Lima due 2026-01-01 [BLOCKED] 🔥");
+	});
+
+	it("renders nested bullet, ordered and task lists", () => {
+		const markdown = adfToMarkdown(
+			doc(
+				{
+					type: "orderedList",
+					attrs: { order: 3 },
+					content: [
+						{
+							type: "listItem",
+							content: [
+								paragraph(text("First")),
+								{
+									type: "bulletList",
+									content: [
+										{ type: "listItem", content: [paragraph(text("Nested"))] },
+									],
+								},
+							],
+						},
+						{ type: "listItem", content: [paragraph(text("Second"))] },
+					],
+				},
+				{
+					type: "taskList",
+					content: [
+						{
+							type: "taskItem",
+							attrs: { state: "DONE" },
+							content: [text("a")],
+						},
+						{
+							type: "taskItem",
+							attrs: { state: "TODO" },
+							content: [text("b")],
+						},
+					],
+				},
+			),
+		);
+
+		expect(markdown).toBe(
+			"3. First\n   - Nested\n4. Second\n\n- [x] a\n- [ ] b",
+		);
+	});
+
+	it("renders code blocks with their language", () => {
+		const markdown = adfToMarkdown(
+			doc({
+				type: "codeBlock",
+				attrs: { language: "ts" },
+				content: [text("const a = `b`;\nconsole.log(a);")],
+			}),
+		);
+
+		expect(markdown).toBe("```ts\nconst a = `b`;\nconsole.log(a);\n```");
+	});
+
+	it("renders panels and blockquotes as quotes", () => {
+		const markdown = adfToMarkdown(
+			doc(
+				{
+					type: "panel",
+					attrs: { panelType: "warning" },
+					content: [paragraph(text("Data loss")), paragraph(text("Back up"))],
+				},
+				{ type: "blockquote", content: [paragraph(text("Quoted"))] },
+			),
+		);
+
+		expect(markdown).toBe("> **Warning:** Data loss\n>\n> Back up\n\n> Quoted");
+	});
+
+	it("renders tables with the first row as header", () => {
+		const cell = (type: string, value: string): AdfNode => ({
+			type,
+			content: [paragraph(text(value))],
+		});
+		const markdown = adfToMarkdown(
+			doc({
+				type: "table",
+				content: [
+					{
+						type: "tableRow",
+						content: [cell("tableHeader", "Env"), cell("tableHeader", "URL")],
+					},
+					{
+						type: "tableRow",
+						content: [cell("tableCell", "prod"), cell("tableCell", "a|b")],
+					},
+				],
+			}),
+		);
+
+		expect(markdown).toBe("| Env | URL |\n| --- | --- |\n| prod | a\\|b |");
+	});
+
+	it("keeps the text of unknown nodes", () => {
+		const markdown = adfToMarkdown(
+			doc({ type: "futureBlock", content: [paragraph(text("Still here"))] }),
+		);
+
+		expect(markdown).toBe("Still here");
+	});
+});
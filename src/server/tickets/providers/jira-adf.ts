@@ -0,0 +1,294 @@
+/**
+ * Atlassian Document Format (ADF) to Markdown conversion.
+ *
+ * Jira Cloud REST API v3 returns rich text fields (descriptions, comments) as
+ * ADF JSON. Unknown node types degrade to their text content so nothing a
+ * user wrote is silently dropped.
+ */
+
+export interface AdfMark {
+	type: string;
+	attrs?: Record<string, unknown>;
+}
+
+export interface AdfNode {
+	type: string;
+	text?: string;
+	attrs?: Record<string, unknown>;
+	marks?: AdfMark[];
+	content?: AdfNode[];
+}
+
+const PANEL_LABELS: Record<string, string> = {
+	info: "Info",
+	note: "Note",
+	warning: "Warning",
+	success: "Success",
+	error: "Error",
+};
+
+/**
+ * Convert a Jira rich text value to Markdown. Plain strings (Jira Server/Data
+ * Center, API v2) are returned unchanged; empty documents become null.
+ */
+export function jiraRichTextToMarkdown(value: unknown): string | null {
+	if (value === null || value === undefined) return null;
+	if (typeof value === "string") return value;
+	if (isAdfNode(value)) return adfToMarkdown(value) || null;
+	return null;
+}
+
+/**
+ * Render an ADF document (or any block node) as Markdown
+ */
+export function adfToMarkdown(node: AdfNode): string {
+	const markdown =
+		node.type === "doc" ? renderBlocks(node.content) : renderBlock(node);
+	return markdown.trim();
+}
+
+function isAdfNode(value: unknown): value is AdfNode {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as AdfNode).type === "string"
+	);
+}
+
+function attr(node: AdfNode | AdfMark, key: string): string {
+	const value = node.attrs?.[key];
+	return value === null || value === undefined ? "" : String(value);
+}
+
+// ============================================================================
+// Block nodes
+// ============================================================================
+
+function renderBlocks(nodes: AdfNode[] = [], separator = "\n\n"): string {
+	return nodes
+		.map(renderBlock)
+		.filter((block) => block.trim() !== "")
+		.join(separator);
+}
+
+function renderBlock(node: AdfNode): string {
+	switch (node.type) {
+		case "paragraph":
+			return renderInline(node.content);
+
+		case "heading": {
+			const level = Math.min(Math.max(Number(attr(node, "level")) || 1, 1), 6);
+			return `${"#".repeat(level)} ${renderInline(node.content)}`;
+		}
+
+		case "bulletList":
+			return renderList(node.content, () => "- ");
+
+		case "orderedList": {
+			const start = Number(attr(node, "order")) || 1;
+			return renderList(node.content, (index) => `${start + index}. `);
+		}
+
+		case "taskList":
+			return renderList(node.content, (_, item) =>
+				attr(item, "state") === "DONE" ? "- [x] " : "- [ ] ",
+			);
+
+		case "decisionList":
+			return renderList(node.content, () => "- ");
+
+		case "codeBlock":
+			return renderCodeBlock(node);
+
+		case "blockquote":
+			return prefixLines(renderBlocks(node.content), "> ");
+
+		case "rule":
+			return "---";
+
+		case "panel": {
+			const label = PANEL_LABELS[attr(node, "panelType")] ?? "Note";
+			return prefixLines(`**${label}:** ${renderBlocks(node.content)}`, "> ");
+		}
+
+		case "expand":
+		case "nestedExpand": {
+			const title = attr(node, "title");
+			const body = renderBlocks(node.content);
+			return title ? `**${title}**\n\n${body}` : body;
+		}
+
+		case "table":
+			return renderTable(node);
+
+		case "mediaSingle":
+		case "mediaGroup":
+			return renderBlocks(node.content, "\n");
+
+		case "media":
+			return `[attachment${attr(node, "alt") ? `: ${attr(node, "alt")}` : ""}]`;
+
+		case "blockCard":
+		case "embedCard":
+			return attr(node, "url") ? `<${attr(node, "url")}>` : "";
+
+		default:
+			// Unknown block: keep whatever text it holds
+			return node.content?.some((child) => isInlineNode(child))
+				? renderInline(node.content)
+				: renderBlocks(node.content);
+	}
+}
+
+function renderList(
+	items: AdfNode[] = [],
+	marker: (index: number, item: AdfNode) => string,
+): string {
+	return items
+		.map((item, index) => {
+			// Task and decision items hold inline content directly
+			const body = item.content?.every(isInlineNode)
+				? renderInline(item.content)
+				: renderBlocks(item.content, "\n");
+			return indentContinuation(body, marker(index, item));
+		})
+		.join("\n");
+}
+
+function renderCodeBlock(node: AdfNode): string {
+	const code = (node.content ?? []).map((child) => child.text ?? "").join("");
+	// Use a fence longer than any backtick run inside the code
+	const longestRun = Math.max(
+		0,
+		...(code.match(/`+/g) ?? []).map((run) => run.length),
+	);
+	const fence = "`".repeat(Math.max(3, longestRun + 1));
+	return `${fence}${attr(node, "language")}\n${code}\n${fence}`;
+}
+
+function renderTable(node: AdfNode): string {
+	const rows = (node.content ?? []).map((row) =>
+		(row.content ?? []).map((cell) =>
+			renderBlocks(cell.content, " ")
+				.replace(/\|/g, "\\|")
+				.replace(/\n+/g, "<br>"),
+		),
+	);
+	if (rows.length === 0) return "";
+
+	const columns = Math.max(...rows.map((row) => row.length));
+	const formatRow = (cells: string[]) =>
+		`| ${Array.from({ length: columns }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+
+	// GFM tables need a header row; the first row serves as one
+	const [header = [], ...body] = rows;
+	return [
+		formatRow(header),
+		formatRow(Array.from({ length: columns }, () => "---")),
+		...body.map(formatRow),
+	].join("\n");
+}
+
+function prefixLines(text: string, prefix: string): string {
+	return text
+		.split("\n")
+		.map((line) => (line ? `${prefix}${line}` : prefix.trimEnd()))
+		.join("\n");
+}
+
+function indentContinuation(text: string, marker: string): string {
+	const padding = " ".repeat(marker.length);
+	return text
+		.split("\n")
+		.map((line, i) => (i === 0 ? `${marker}${line}` : line && padding + line))
+		.join("\n");
+}
+
+// ============================================================================
+// Inline nodes
+// ============================================================================
+
+const INLINE_TYPES = new Set([
+	"text",
+	"hardBreak",
+	"mention",
+	"emoji",
+	"inlineCard",
+	"date",
+	"status",
+	"mediaInline",
+	"placeholder",
+]);
+
+function isInlineNode(node: AdfNode): boolean {
+	return INLINE_TYPES.has(node.type);
+}
+
+function renderInline(nodes: AdfNode[] = []): string {
+	return nodes.map(renderInlineNode).join("");
+}
+
+function renderInlineNode(node: AdfNode): string {
+	switch (node.type) {
+		case "text":
+			return applyMarks(node.text ?? "", node.marks ?? []);
+
+		case "hardBreak":
+			return "  \n";
+
+		case "mention": {
+			const name = attr(node, "text") || attr(node, "id");
+			return name.startsWith("@") ? name : `@${name}`;
+		}
+
+		case "emoji":
+			return attr(node, "text") || attr(node, "shortName");
+
+		case "inlineCard":
+			return attr(node, "url") ? `<${attr(node, "url")}>` : "";
+
+		case "date": {
+			const timestamp = Number(attr(node, "timestamp"));
+			return Number.isFinite(timestamp) && timestamp > 0
+				? new Date(timestamp).toISOString().slice(0, 10)
+				: "";
+		}
+
+		case "status":
+			return `[${attr(node, "text")}]`;
+
+		case "mediaInline":
+			return "[attachment]";
+
+		case "placeholder":
+			return "";
+
+		default:
+			return node.text ?? renderInline(node.content);
+	}
+}
+
+/**
+ * Wrap text in Markdown for its marks. Surrounding whitespace stays outside
+ * the delimiters, otherwise `**bold **` would not render.
+ */
+function applyMarks(text: string, marks: AdfMark[]): string {
+	if (!text.trim() || marks.length === 0) return text;
+
+	const [, leading = "", core = "", trailing = ""] =
+		/^(\s*)([\s\S]*?)(\s*)$/.exec(text) ?? [];
+	const has = (type: string) => marks.some((mark) => mark.type === type);
+
+	let result = core;
+	if (has("code")) result = `\`${result}\``;
+	if (has("em")) result = `_${result}_`;
+	if (has("strong")) result = `**${result}**`;
+	if (has("strike")) result = `~~${result}~~`;
+
+	const link = marks.find((mark) => mark.type === "link");
+	if (link && attr(link, "href")) {
+		result = `[${result}](${attr(link, "href")})`;
+	}
+
+	return `${leading}${result}${trailing}`;
+}
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mockFetch } from "@/test/utils";
+import { hasTicketChanged, toSyncedFields } from "../conflicts";
+import { JiraTicketProvider } from "./jira";
+
+const BASE_URL = "https://acme.atlassian.net";
+const JQL = "project = ACME ORDER BY key ASC";
+
+function searchUrl(nextPageToken?: string): string {
+	const token = nextPageToken ? `&nextPageToken=${nextPageToken}` : "";
+	return `${BASE_URL}/rest/api/3/search/jql?jql=${encodeURIComponent(JQL)}&maxResults=100&fields=*navigable,comment&expand=names${token}`;
+}
+
+function issue(key: string, fields: Record<string, unknown> = {}) {
+	return {
+		id: key.replace(/\D/g, ""),
+		key,
+		fields: {
+			summary: `Issue ${key}`,
+			description: null,
+			status: { name: "To Do" },
+			priority: { name: "Medium" },
+			assignee: null,
+			labels: [],
+			created: "2026-01-01T00:00:00.000+0000",
+			updated: "2026-01-02T00:00:00.000+0000",
+			...fields,
+		},
+	};
+}
+
+function createProvider() {
+	return new JiraTicketProvider({
+		baseUrl: BASE_URL,
+		apiToken: "token",
+		projectKey: "ACME",
+	});
+}
+
+describe("JiraTicketProvider.listTickets", () => {
+	let restore: (() => void) | undefined;
+	afterEach(() => restore?.());
+
+	it("follows nextPageToken until the last page", async () => {
+		const mock = mockFetch({
+			[searchUrl()]: Response.json({
+				issues: [issue("ACME-1"), issue("ACME-2")],
+				nextPageToken: "page-2",
+				isLast: false,
+			}),
+			[searchUrl("page-2")]: Response.json({
+				issues: [issue("ACME-3")],
+				isLast: true,
+			}),
+		});
+		restore = mock.restore;
+
+		const result = await createProvider().listTickets();
+
+		expect(mock.requests).toHaveLength(2);
+		expect(result.pages).toBe(2);
+		expect(result.tickets.map((t) => t.externalId)).toEqual([
+			"ACME-1",
+			"ACME-2",
+			"ACME-3",
+		]);
+	});
+
+	it("lists an issue unchanged when only fields Jira touches on read moved", async () => {
+		const mock = mockFetch({
+			[searchUrl()]: [
+				Response.json({
+					issues: [
+						issue("ACME-1", {
+							lastViewed: "2026-01-03T09:00:00.000+0000",
+							watches: { watchCount: 1 },
+						}),
+					],
+					isLast: true,
+				}),
+				Response.json({
+					issues: [
+						issue("ACME-1", {
+							lastViewed: "2026-01-04T17:30:00.000+0000",
+							watches: { watchCount: 2 },
+						}),
+					],
+					isLast: true,
+				}),
+			],
+		});
+		restore = mock.restore;
+
+		const provider = createProvider();
+		const [first] = (await provider.listTickets()).tickets;
+		const [second] = (await provider.listTickets()).tickets;
+		if (!first || !second) throw new Error("Expected ACME-1 in both listings");
+
+		// Stored the way sync writes a new ticket
+		const stored = {
+			...toSyncedFields(first),
+			metadata: first.metadata,
+			syncedFields: toSyncedFields(first),
+			parentExternalId: first.parentExternalId ?? null,
+			estimate: first.estimate ?? null,
+			archivedAt: null,
+		} as Parameters<typeof hasTicketChanged>[0];
+
+		expect(hasTicketChanged(stored, toSyncedFields(second), second)).toBe(
+			false,
+		);
+	});
+});
+
+describe("JiraTicketProvider.updateTicket", () => {
+	const issueUrl = `${BASE_URL}/rest/api/3/issue/ACME-1`;
+	const prioritiesUrl = `${BASE_URL}/rest/api/3/priority/search?maxResults=100`;
+	const usersUrl = `${BASE_URL}/rest/api/3/user/assignable/search?issueKey=ACME-1&query=Ada`;
+	const transitionsUrl = `${issueUrl}/transitions`;
+
+	let restore: (() => void) | undefined;
+	afterEach(() => restore?.());
+
+	function createMappedProvider() {
+		const provider = createProvider();
+		provider.setValueMappings({
+			status: {},
+			priority: { "p1 - critical": "urgent" },
+		});
+		return provider;
+	}
+
+	it("sets priority and assignee in one request, using custom priorities", async () => {
+		const mock = mockFetch({
+			[prioritiesUrl]: Response.json({
+				values: [
+					{ id: "1", name: "P1 - Critical" },
+					{ id: "3", name: "Medium" },
+				],
+			}),
+			[usersUrl]: Response.json([{ accountId: "a-1", displayName: "Ada" }]),
+			[issueUrl]: new Response(null, { status: 204 }),
+		});
+		restore = mock.restore;
+
+		await createMappedProvider().updateTicket("ACME-1", {
+			priority: "urgent",
+			assignee: "Ada",
+		});
+
+		expect(mock.requests).toEqual([prioritiesUrl, usersUrl, issueUrl]);
+	});
+
+	it("says which changes Jira kept when the transition fails", async () => {
+		const mock = mockFetch({
+			[prioritiesUrl]: Response.json({
+				values: [{ id: "1", name: "P1 - Critical" }],
+			}),
+			[transitionsUrl]: [
+				Response.json({
+					transitions: [{ id: "31", to: { name: "Done" } }],
+				}),
+				Response.json(
+					{ errorMessages: ["Resolution is required"] },
+					{ status: 400 },
+				),
+			],
+			[issueUrl]: new Response(null, { status: 204 }),
+		});
+		restore = mock.restore;
+
+		const error = await createMappedProvider()
+			.updateTicket("ACME-1", { priority: "urgent", status: "done" })
+			.catch((e: unknown) => e);
+
+		expect(mock.requests).toEqual([
+			prioritiesUrl,
+			transitionsUrl,
+			issueUrl,
+			transitionsUrl,
+		]);
+		expect((error as Error).message).toStartWith(
+			"Jira updated the priority of ACME-1 but not its status:",
+		);
+	});
+});
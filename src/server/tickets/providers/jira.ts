@@ -1,73 +1,172 @@
+import { z } from "zod";
+import {
+	type SprintState,
+	sprintStateEnum,
+	type TicketLinkType,
+	type TicketPriority,
+	type TicketStatus,
+} from "@/server/db/schema";
 import {
 	BaseTicketProvider,
+	type ConnectionTestResult,
+	type ExternalSprint,
 	type ExternalTicket,
+	type ExternalTicketLink,
+	type ExternalTicketUpdate,
+	type ListTicketsOptions,
+	type TicketListResult,
 	type TicketProviderConfig,
+	type TicketWebhookEvent,
 } from "./base";
+import { getProviderHttpClient, isProviderNotFound } from "./http";
+import { type AdfNode, jiraRichTextToMarkdown } from "./jira-adf";
+import type { TicketProviderPlugin } from "./plugin";
 
 interface JiraIssue {
 	id: string;
 	key: string;
 	fields: {
 		summary: string;
-		description: string | null;
+		// ADF document on Jira Cloud (API v3), plain text on older servers
+		description: AdfNode | string | null;
 		status: { name: string };
 		priority: { name: string } | null;
 		assignee: { displayName: string; emailAddress: string } | null;
 		labels: string[];
+		issuetype?: { name: string };
+		comment?: { comments: JiraComment[]; total: number };
+		issuelinks?: JiraIssueLink[];
+		// Epic of a story or story of a sub-task (team-managed and newer sites)
+		parent?: { key: string };
 		created: string;
 		updated: string;
 		[key: string]: unknown;
 	};
 }
 
+interface JiraComment {
+	id: string;
+	author?: { displayName: string };
+	body: AdfNode | string;
+	created: string;
+	updated?: string;
+}
+
+/**
+ * Link as listed on one of its issues: `outwardIssue` when this issue is the
+ * link's source ("blocks"), `inwardIssue` when it is the target ("is blocked by")
+ */
+interface JiraIssueLink {
+	id: string;
+	type: { name: string; inward: string; outward: string };
+	outwardIssue?: { key: string };
+	inwardIssue?: { key: string };
+}
+
+/** Sprint as returned in the Jira Software sprint custom field */
+interface JiraSprint {
+	id: number;
+	name: string;
+	state: string;
+	boardId: number;
+	goal?: string;
+	startDate?: string;
+	endDate?: string;
+}
+
+interface JiraTransition {
+	id: string;
+	name: string;
+	to: {
+		name: string;
+		statusCategory?: { key: "new" | "indeterminate" | "done" };
+	};
+}
+
+interface JiraPriority {
+	id: string;
+	name: string;
+}
+
+interface JiraUser {
+	accountId: string;
+	displayName: string;
+	emailAddress?: string;
+}
+
+/** Display names of the returned fields, keyed by field ID (`expand=names`) */
+type JiraFieldNames = Record<string, string>;
+
+/** Page of the enhanced JQL search, which pages by token and has no total */
 interface JiraSearchResponse {
 	issues: JiraIssue[];
-	total: number;
-	maxResults: number;
-	startAt: number;
+	names?: JiraFieldNames;
+	nextPageToken?: string;
+	isLast?: boolean;
 }
 
+/** "Story point estimate" on Jira Cloud, used when no field is configured */
+const DEFAULT_STORY_POINTS_FIELD = "customfield_10016";
+
+/** Maximum page size accepted by the Jira search API */
+const JIRA_PAGE_SIZE = 100;
+
+/** Fallback status lookup by Jira status category when no name matches */
+const JIRA_STATUS_CATEGORIES: Partial<Record<TicketStatus, string>> = {
+	open: "new",
+	in_progress: "indeterminate",
+	done: "done",
+	closed: "done",
+};
+
 /**
  * Jira ticket provider implementation
  */
 export class JiraTicketProvider extends BaseTicketProvider {
 	readonly name = "jira" as const;
+	private readonly http = getProviderHttpClient("jira");
 
 	isConfigured(): boolean {
 		return !!(
 			this.config.baseUrl &&
 			this.config.apiToken &&
-			this.config.projectKey
+			(this.config.projectKey || this.jqlFilter)
 		);
 	}
 
-	async listTickets(): Promise<ExternalTicket[]> {
+	async listTickets(
+		options: ListTicketsOptions = {},
+	): Promise<TicketListResult> {
 		if (!this.isConfigured()) {
 			console.warn("Jira provider not configured, returning empty list");
-			return [];
+			return { tickets: [], pages: 0 };
 		}
 
-		try {
-			const jql = `project = ${this.config.projectKey} ORDER BY updated DESC`;
-			const response = await fetch(
-				`${this.config.baseUrl}/rest/api/3/search?jql=${encodeURIComponent(jql)}&maxResults=100`,
-				{
-					headers: this.getHeaders(),
-				},
+		// Page in key order: sorting by a field that changes while the listing
+		// runs, like updated, moves issues across pages and skips them
+		const jql = `${this.buildJqlFilter(options.updatedSince)} ORDER BY key ASC`;
+		const tickets: ExternalTicket[] = [];
+		let pages = 0;
+		let nextPageToken: string | undefined;
+
+		// Jira caps maxResults per request; follow nextPageToken until the
+		// last page
+		do {
+			const token = nextPageToken
+				? `&nextPageToken=${encodeURIComponent(nextPageToken)}`
+				: "";
+			const data = (await this.jiraRequest(
+				`/rest/api/3/search/jql?jql=${encodeURIComponent(jql)}&maxResults=${JIRA_PAGE_SIZE}&fields=*navigable,comment&expand=names${token}`,
+			)) as JiraSearchResponse;
+			pages++;
+			tickets.push(
+				...data.issues.map((issue) => this.mapJiraIssue(issue, data.names)),
 			);
 
-			if (!response.ok) {
-				throw new Error(
-					`Jira API error: ${response.status} ${response.statusText}`,
-				);
-			}
+			nextPageToken = data.isLast ? undefined : data.nextPageToken;
+		} while (nextPageToken);
 
-			const data = (await response.json()) as JiraSearchResponse;
-			return data.issues.map((issue) => this.mapJiraIssue(issue));
-		} catch (error) {
-			console.error("Failed to fetch Jira tickets:", error);
-			return [];
-		}
+		return { tickets, pages };
 	}
 
 	async getTicket(externalId: string): Promise<ExternalTicket | null> {
@@ -76,26 +175,293 @@ export class JiraTicketProvider extends BaseTicketProvider {
 		}
 
 		try {
-			const response = await fetch(
-				`${this.config.baseUrl}/rest/api/3/issue/${externalId}`,
+			const issue = (await this.jiraRequest(
+				`/rest/api/3/issue/${externalId}?expand=names`,
+			)) as JiraIssue & { names?: JiraFieldNames };
+			return this.mapJiraIssue(issue, issue.names);
+		} catch (error) {
+			if (isProviderNotFound(error)) return null;
+			throw error;
+		}
+	}
+
+	async updateTicket(
+		externalId: string,
+		changes: ExternalTicketUpdate,
+	): Promise<void> {
+		if (!this.isConfigured()) {
+			throw new Error("Jira provider is not configured");
+		}
+
+		// Resolve every value before writing, so a value Jira cannot take changes
+		// nothing
+		const fields: Record<string, unknown> = {};
+		if (changes.priority) {
+			fields.priority = { id: await this.findPriorityId(changes.priority) };
+		}
+		if (changes.assignee !== undefined) {
+			fields.assignee =
+				changes.assignee === null
+					? null
+					: {
+							accountId: await this.findAssignableAccountId(
+								externalId,
+								changes.assignee,
+							),
+						};
+		}
+		const transition = changes.status
+			? await this.findTransition(externalId, changes.status)
+			: undefined;
+
+		if (Object.keys(fields).length > 0) {
+			await this.jiraRequest(`/rest/api/3/issue/${externalId}`, {
+				method: "PUT",
+				body: JSON.stringify({ fields }),
+			});
+		}
+		if (!transition) return;
+
+		try {
+			await this.jiraRequest(`/rest/api/3/issue/${externalId}/transitions`, {
+				method: "POST",
+				body: JSON.stringify({ transition: { id: transition.id } }),
+			});
+		} catch (error) {
+			if (Object.keys(fields).length === 0) throw error;
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(
+				`Jira updated the ${Object.keys(fields).join(" and ")} of ${externalId} but not its status: ${message}`,
+			);
+		}
+	}
+
+	parseWebhookEvent(payload: unknown): TicketWebhookEvent | null {
+		const event = payload as {
+			webhookEvent?: string;
+			issue?: { key?: string };
+		} | null;
+		const key = event?.issue?.key;
+		if (!key || !event.webhookEvent?.startsWith("jira:issue_")) {
+			return null;
+		}
+
+		return {
+			action: event.webhookEvent === "jira:issue_deleted" ? "delete" : "upsert",
+			externalId: key,
+		};
+	}
+
+	async isInScope(externalId: string): Promise<boolean> {
+		const jql = `key = ${JSON.stringify(externalId)} AND (${this.buildJqlFilter()})`;
+		const data = (await this.jiraRequest(
+			`/rest/api/3/search/jql?jql=${encodeURIComponent(jql)}&maxResults=1&fields=key`,
+		)) as JiraSearchResponse;
+		return data.issues.length > 0;
+	}
+
+	async testConnection(): Promise<ConnectionTestResult> {
+		if (!this.isConfigured()) {
+			return {
+				ok: false,
+				message:
+					"Enter the site URL, the API token and a project key or JQL filter.",
+			};
+		}
+
+		const account = await this.probe(
+			this.http,
+			"your account",
+			`${this.config.baseUrl}/rest/api/3/myself`,
+			{ headers: this.getHeaders() },
+		);
+		if (!account.ok) {
+			return {
+				ok: false,
+				message:
+					account.status === 401
+						? `${account.message} Jira Cloud expects the base64 encoding of "email:api-token".`
+						: account.message,
+			};
+		}
+		const { displayName } = account.body as JiraUser;
+
+		if (this.jqlFilter) {
+			const search = await this.probe(
+				this.http,
+				"the JQL search",
+				`${this.config.baseUrl}/rest/api/3/search/approximate-count`,
 				{
+					method: "POST",
 					headers: this.getHeaders(),
+					body: JSON.stringify({ jql: this.jqlFilter }),
 				},
 			);
-
-			if (!response.ok) {
-				if (response.status === 404) return null;
-				throw new Error(
-					`Jira API error: ${response.status} ${response.statusText}`,
-				);
+			if (!search.ok) {
+				return {
+					ok: false,
+					message:
+						search.status === 400
+							? "Jira could not run the JQL filter. Check its syntax in Jira's advanced issue search."
+							: search.message,
+				};
 			}
+			const { count } = search.body as { count: number };
+			return {
+				ok: true,
+				message: `Connected as ${displayName}. The JQL filter matches about ${count} issues.`,
+			};
+		}
 
-			const issue = (await response.json()) as JiraIssue;
-			return this.mapJiraIssue(issue);
-		} catch (error) {
-			console.error(`Failed to fetch Jira ticket ${externalId}:`, error);
-			return null;
+		const project = await this.probe(
+			this.http,
+			`project ${this.config.projectKey}`,
+			`${this.config.baseUrl}/rest/api/3/project/${encodeURIComponent(this.config.projectKey ?? "")}`,
+			{ headers: this.getHeaders() },
+		);
+		if (!project.ok) return { ok: false, message: project.message };
+
+		const { name } = project.body as { name: string };
+		return {
+			ok: true,
+			message: `Connected as ${displayName}. Project "${name}" is readable.`,
+		};
+	}
+
+	/**
+	 * First workflow transition of an issue that ends in a status mapping to
+	 * the requested one
+	 */
+	private async findTransition(
+		externalId: string,
+		status: TicketStatus,
+	): Promise<JiraTransition> {
+		const { transitions } = (await this.jiraRequest(
+			`/rest/api/3/issue/${externalId}/transitions`,
+		)) as { transitions: JiraTransition[] };
+
+		const transition =
+			transitions.find((t) => this.mapStatus(t.to.name) === status) ??
+			transitions.find(
+				(t) => t.to.statusCategory?.key === JIRA_STATUS_CATEGORIES[status],
+			);
+
+		if (!transition) {
+			const available = transitions.map((t) => t.to.name).join(", ");
+			throw new Error(
+				`No Jira transition from the current status of ${externalId} leads to "${status}" (available: ${available || "none"})`,
+			);
+		}
+		return transition;
+	}
+
+	/**
+	 * First priority of the site that maps to the requested one, through the
+	 * same custom mappings as sync
+	 */
+	private async findPriorityId(priority: TicketPriority): Promise<string> {
+		const { values } = (await this.jiraRequest(
+			"/rest/api/3/priority/search?maxResults=100",
+		)) as { values: JiraPriority[] };
+
+		const match = values.find((p) => this.mapPriority(p.name) === priority);
+		if (!match) {
+			const available = values.map((p) => p.name).join(", ");
+			throw new Error(
+				`No Jira priority maps to "${priority}" (available: ${available || "none"})`,
+			);
 		}
+		return match.id;
+	}
+
+	/**
+	 * Resolve a display name or email to an account that can be assigned the issue
+	 */
+	private async findAssignableAccountId(
+		externalId: string,
+		assignee: string,
+	): Promise<string> {
+		const users = (await this.jiraRequest(
+			`/rest/api/3/user/assignable/search?issueKey=${encodeURIComponent(externalId)}&query=${encodeURIComponent(assignee)}`,
+		)) as JiraUser[];
+
+		const needle = assignee.toLowerCase();
+		const user =
+			users.find(
+				(u) =>
+					u.displayName.toLowerCase() === needle ||
+					u.emailAddress?.toLowerCase() === needle,
+			) ?? (users.length === 1 ? users[0] : undefined);
+
+		if (!user) {
+			throw new Error(
+				`Jira has no assignable user matching "${assignee}" for ${externalId}`,
+			);
+		}
+		return user.accountId;
+	}
+
+	/**
+	 * Call the Jira API; failures throw a ProviderHttpError carrying Jira's own
+	 * error messages
+	 */
+	private async jiraRequest(
+		path: string,
+		init?: RequestInit,
+	): Promise<unknown> {
+		const response = await this.http.fetch(
+			`${this.config.baseUrl}${path}`,
+			{ ...init, headers: this.getHeaders() },
+			{ errorDetails: describeJiraError },
+		);
+		return response.status === 204 ? null : response.json();
+	}
+
+	/**
+	 * Legacy "Epic Link" custom field from `additionalConfig.epicLinkField`,
+	 * for company-managed projects that do not report epics as `parent`
+	 */
+	private get epicLinkField(): string | undefined {
+		const field = this.config.additionalConfig?.epicLinkField;
+		return typeof field === "string" && field.trim() ? field.trim() : undefined;
+	}
+
+	private getEstimate(issue: JiraIssue): number | null {
+		const configured = this.config.additionalConfig?.storyPointsField;
+		const field =
+			typeof configured === "string" && configured.trim()
+				? configured.trim()
+				: DEFAULT_STORY_POINTS_FIELD;
+		const value = issue.fields[field];
+		return typeof value === "number" && Number.isFinite(value) ? value : null;
+	}
+
+	private getParentKey(issue: JiraIssue): string | null {
+		if (issue.fields.parent) return issue.fields.parent.key;
+		const epicLink = this.epicLinkField
+			? issue.fields[this.epicLinkField]
+			: undefined;
+		return typeof epicLink === "string" && epicLink ? epicLink : null;
+	}
+
+	/**
+	 * Custom JQL filter from `additionalConfig.jql`, without ORDER BY
+	 */
+	private get jqlFilter(): string | undefined {
+		const jql = this.config.additionalConfig?.jql;
+		return typeof jql === "string" && jql.trim() ? jql.trim() : undefined;
+	}
+
+	private buildJqlFilter(updatedSince?: Date): string {
+		const filter = this.jqlFilter ?? `project = ${this.config.projectKey}`;
+		if (!updatedSince) return filter;
+
+		// JQL absolute dates are read in the Jira user's timezone, so use a
+		// relative offset in minutes to stay timezone-independent
+		const minutesAgo = Math.ceil(
+			(Date.now() - updatedSince.getTime()) / 60_000,
+		);
+		return `(${filter}) AND updated >= "-${Math.max(minutesAgo, 1)}m"`;
 	}
 
 	private getHeaders(): HeadersInit {
@@ -108,11 +474,14 @@ export class JiraTicketProvider extends BaseTicketProvider {
 		};
 	}
 
-	private mapJiraIssue(issue: JiraIssue): ExternalTicket {
+	private mapJiraIssue(
+		issue: JiraIssue,
+		names: JiraFieldNames = {},
+	): ExternalTicket {
 		return {
 			externalId: issue.key,
 			title: issue.fields.summary,
-			description: issue.fields.description,
+			description: jiraRichTextToMarkdown(issue.fields.description),
 			status: this.mapStatus(issue.fields.status.name),
 			priority: this.mapPriority(issue.fields.priority?.name ?? null),
 			assignee: issue.fields.assignee?.displayName ?? null,
@@ -120,16 +489,158 @@ export class JiraTicketProvider extends BaseTicketProvider {
 			metadata: {
 				jiraId: issue.id,
 				jiraKey: issue.key,
-				fullFields: issue.fields,
+				// Not the raw fields: some, like lastViewed, change on every read
+				// and would make each sync rewrite the ticket
+				jiraIssueType: issue.fields.issuetype?.name ?? null,
 			},
+			comments: issue.fields.comment?.comments.map((c) => ({
+				externalId: c.id,
+				author: c.author?.displayName ?? null,
+				body: jiraRichTextToMarkdown(c.body) ?? "",
+				createdAt: new Date(c.created),
+				updatedAt: c.updated ? new Date(c.updated) : null,
+			})),
+			links: issue.fields.issuelinks?.flatMap(mapJiraIssueLink),
+			parentExternalId: this.getParentKey(issue),
+			estimate: this.getEstimate(issue),
+			sprints: getJiraSprints(issue.fields, names),
 			createdAt: new Date(issue.fields.created),
 			updatedAt: issue.fields.updated ? new Date(issue.fields.updated) : null,
 		};
 	}
 }
 
+/**
+ * Translate a Jira issue link to our link types. Jira link types are
+ * configurable per site, so anything not about blocking or duplicates is
+ * treated as a plain relation.
+ */
+function mapJiraIssueLink(link: JiraIssueLink): ExternalTicketLink[] {
+	const target = link.outwardIssue ?? link.inwardIssue;
+	if (!target) return [];
+
+	const outward = !!link.outwardIssue;
+	const name = `${link.type.name} ${link.type.outward}`.toLowerCase();
+	let type: TicketLinkType = "relates-to";
+	if (name.includes("block")) {
+		type = outward ? "blocks" : "blocked-by";
+	} else if (name.includes("duplicat")) {
+		type = outward ? "duplicates" : "duplicated-by";
+	}
+	return [{ type, targetExternalId: target.key }];
+}
+
+function isJiraSprint(value: unknown): value is JiraSprint {
+	const sprint = value as JiraSprint | null;
+	return (
+		typeof sprint === "object" &&
+		sprint !== null &&
+		typeof sprint.id === "number" &&
+		typeof sprint.name === "string" &&
+		typeof sprint.state === "string" &&
+		"boardId" in sprint
+	);
+}
+
+/**
+ * Sprints of an issue from the Jira Software "Sprint" field, whose ID differs
+ * between sites. Undefined without Jira Software, and on old servers that
+ * return sprints as strings.
+ */
+function getJiraSprints(
+	fields: Record<string, unknown>,
+	names: JiraFieldNames,
+): ExternalSprint[] | undefined {
+	const field = Object.keys(names).find(
+		(id) => id.startsWith("customfield_") && names[id] === "Sprint",
+	);
+	if (!field) return undefined;
+
+	const value = fields[field] ?? [];
+	if (!Array.isArray(value) || !value.every(isJiraSprint)) return undefined;
+
+	return value.map((sprint) => ({
+		externalId: String(sprint.id),
+		name: sprint.name,
+		goal: sprint.goal || null,
+		state: (sprintStateEnum as readonly string[]).includes(sprint.state)
+			? (sprint.state as SprintState)
+			: "future",
+		startDate: sprint.startDate ? new Date(sprint.startDate) : null,
+		endDate: sprint.endDate ? new Date(sprint.endDate) : null,
+	}));
+}
+
+function describeJiraError(body: unknown): string | undefined {
+	const error = body as {
+		errorMessages?: string[];
+		errors?: Record<string, string>;
+	} | null;
+	const details = [
+		...(error?.errorMessages ?? []),
+		...Object.values(error?.errors ?? {}),
+	].join("; ");
+	return details || undefined;
+}
+
 export function createJiraProvider(
 	config?: TicketProviderConfig,
 ): JiraTicketProvider {
 	return new JiraTicketProvider(config ?? {});
 }
+
+export const jiraProviderPlugin: TicketProviderPlugin = {
+	key: "jira",
+	displayName: "Jira",
+	capabilities: {
+		incrementalSync: true,
+		writeBack: true,
+		webhooks: true,
+		comments: true,
+	},
+	configSchema: z
+		.object({
+			baseUrl: z.url().meta({
+				title: "Site URL",
+				placeholder: "https://your-team.atlassian.net",
+			}),
+			apiToken: z.string().min(1).meta({
+				title: "API token",
+				placeholder: "base64 of email:api-token",
+				secret: true,
+			}),
+			projectKey: z
+				.string()
+				.optional()
+				.meta({ title: "Project key", placeholder: "PROJ" }),
+			jql: z.string().optional().meta({
+				title: "JQL filter",
+				placeholder: "Optional, replaces the project key",
+			}),
+			storyPointsField: z
+				.string()
+				.optional()
+				.meta({
+					title: "Story points field",
+					placeholder: `Optional, defaults to ${DEFAULT_STORY_POINTS_FIELD}`,
+				}),
+			epicLinkField: z.string().optional().meta({
+				title: "Epic Link field",
+				description:
+					"Only needed when epics are not reported as the parent of their stories",
+				placeholder: "Optional, e.g. customfield_10014",
+			}),
+		})
+		.refine((config) => !!(config.projectKey || config.jql), {
+			message: "Enter a project key or a JQL filter",
+		}),
+	envConfig: () => ({
+		baseUrl: process.env.JIRA_BASE_URL,
+		apiToken: process.env.JIRA_API_TOKEN,
+		projectKey: process.env.JIRA_PROJECT_KEY,
+		jql: process.env.JIRA_JQL,
+		storyPointsField: process.env.JIRA_STORY_POINTS_FIELD,
+		epicLinkField: process.env.JIRA_EPIC_LINK_FIELD,
+	}),
+	createProvider: createJiraProvider,
+};
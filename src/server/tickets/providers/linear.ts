@@ -1,8 +1,26 @@
+import { z } from "zod";
+import type {
+	TicketLinkType,
+	TicketPriority,
+	TicketStatus,
+} from "@/server/db/schema";
 import {
 	BaseTicketProvider,
+	type ConnectionTestResult,
 	type ExternalTicket,
+	type ExternalTicketLink,
+	type ExternalTicketUpdate,
+	type ListTicketsOptions,
+	type TicketListResult,
 	type TicketProviderConfig,
+	type TicketWebhookEvent,
 } from "./base";
+import {
+	getProviderHttpClient,
+	isProviderNotFound,
+	ProviderHttpError,
+} from "./http";
+import type { TicketProviderPlugin } from "./plugin";
 
 interface LinearIssue {
 	id: string;
@@ -11,74 +29,178 @@ interface LinearIssue {
 	description: string | null;
 	state: { name: string };
 	priority: number;
+	/** Points on the team's estimate scale; null when not estimated */
+	estimate: number | null;
 	assignee: { name: string; email: string } | null;
 	labels: { nodes: { name: string }[] };
+	team: { key: string } | null;
+	project: { id: string; name: string } | null;
+	parent: { identifier: string } | null;
+	url: string;
+	comments: { nodes: LinearComment[] };
+	/** Relations created on this issue; `relatedIssue` is the other end */
+	relations: {
+		nodes: { type: string; relatedIssue: { identifier: string } }[];
+	};
+	/** Relations created on other issues pointing at this one */
+	inverseRelations: {
+		nodes: { type: string; issue: { identifier: string } }[];
+	};
+	createdAt: string;
+	updatedAt: string;
+}
+
+interface LinearComment {
+	id: string;
+	body: string;
+	user: { name: string; displayName: string } | null;
 	createdAt: string;
 	updatedAt: string;
 }
 
 interface LinearIssuesResponse {
-	data: {
-		issues: {
-			nodes: LinearIssue[];
+	issues: {
+		nodes: LinearIssue[];
+		pageInfo: {
+			hasNextPage: boolean;
+			endCursor: string | null;
 		};
 	};
 }
 
+interface LinearGraphqlResponse {
+	data?: unknown;
+	errors?: {
+		message: string;
+		extensions?: { code?: string; userPresentableMessage?: string };
+	}[];
+}
+
+const LINEAR_API_URL = "https://api.linear.app/graphql";
+
+/**
+ * Issues per page. Linear rejects queries above 10,000 complexity points and
+ * counts every object a connection may return, so each issue costs about
+ * 150 points with the nested lists below: 20 labels, 20 comments with their
+ * authors (40) and 20 relations each way with their issues (80). 25 issues
+ * stay well under the limit; 100 would exceed it.
+ */
+const LINEAR_PAGE_SIZE = 25;
+
+/** Labels fetched per issue; Linear would otherwise assume its default of 50 */
+const LINEAR_LABEL_LIMIT = 20;
+
+/** Comments fetched per issue, covering the recent discussion */
+const LINEAR_COMMENT_LIMIT = 20;
+
+/** Relations fetched per issue and direction */
+const LINEAR_RELATION_LIMIT = 20;
+
+/**
+ * Our link types for Linear relation types, from the side of the issue the
+ * relation was created on and from the related issue
+ */
+const LINEAR_RELATION_TYPES: Record<
+	string,
+	{ forward: TicketLinkType; inverse: TicketLinkType }
+> = {
+	blocks: { forward: "blocks", inverse: "blocked-by" },
+	duplicate: { forward: "duplicates", inverse: "duplicated-by" },
+};
+
+/** Linear priority numbers (1 = urgent ... 4 = low), keyed by our priority values */
+const LINEAR_PRIORITIES: Record<TicketPriority, number> = {
+	urgent: 1,
+	high: 2,
+	medium: 3,
+	low: 4,
+};
+
+/** Fallback workflow state types when no state name maps to the target status */
+const LINEAR_STATE_TYPES: Record<TicketStatus, string[]> = {
+	open: ["unstarted", "backlog", "triage"],
+	in_progress: ["started"],
+	review: ["started"],
+	done: ["completed"],
+	closed: ["canceled"],
+};
+
+const LINEAR_ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  description
+  state { name }
+  priority
+  estimate
+  assignee { name email }
+  labels(first: ${LINEAR_LABEL_LIMIT}) { nodes { name } }
+  team { key }
+  project { id name }
+  parent { identifier }
+  url
+  comments(first: ${LINEAR_COMMENT_LIMIT}, orderBy: updatedAt) {
+    nodes { id body user { name displayName } createdAt updatedAt }
+  }
+  relations(first: ${LINEAR_RELATION_LIMIT}) {
+    nodes { type relatedIssue { identifier } }
+  }
+  inverseRelations(first: ${LINEAR_RELATION_LIMIT}) {
+    nodes { type issue { identifier } }
+  }
+  createdAt
+  updatedAt
+`;
+
 /**
  * Linear ticket provider implementation
  */
 export class LinearTicketProvider extends BaseTicketProvider {
 	readonly name = "linear" as const;
+	private readonly http = getProviderHttpClient("linear");
 
 	isConfigured(): boolean {
 		return !!this.config.apiToken;
 	}
 
-	async listTickets(): Promise<ExternalTicket[]> {
+	async listTickets(
+		options: ListTicketsOptions = {},
+	): Promise<TicketListResult> {
 		if (!this.isConfigured()) {
 			console.warn("Linear provider not configured, returning empty list");
-			return [];
+			return { tickets: [], pages: 0 };
 		}
 
-		try {
-			const query = `
-        query {
-          issues(first: 100, orderBy: updatedAt) {
-            nodes {
-              id
-              identifier
-              title
-              description
-              state { name }
-              priority
-              assignee { name email }
-              labels { nodes { name } }
-              createdAt
-              updatedAt
-            }
+		// Cursor over creation order, which edits during the listing do not change
+		const query = `
+        query($first: Int!, $after: String, $filter: IssueFilter) {
+          issues(first: $first, after: $after, filter: $filter, orderBy: createdAt) {
+            nodes {${LINEAR_ISSUE_FIELDS}}
+            pageInfo { hasNextPage endCursor }
           }
         }
       `;
 
-			const response = await fetch("https://api.linear.app/graphql", {
-				method: "POST",
-				headers: this.getHeaders(),
-				body: JSON.stringify({ query }),
-			});
+		const filter = this.buildIssueFilter(options.updatedSince);
+		const tickets: ExternalTicket[] = [];
+		let after: string | null = null;
+		let pages = 0;
 
-			if (!response.ok) {
-				throw new Error(
-					`Linear API error: ${response.status} ${response.statusText}`,
-				);
-			}
+		// Follow the cursor until Linear reports no further pages
+		do {
+			const data = (await this.graphqlRequest(query, {
+				first: LINEAR_PAGE_SIZE,
+				after,
+				filter,
+			})) as LinearIssuesResponse;
+			const { nodes, pageInfo } = data.issues;
+			pages++;
+			tickets.push(...nodes.map((issue) => this.mapLinearIssue(issue)));
 
-			const data = (await response.json()) as LinearIssuesResponse;
-			return data.data.issues.nodes.map((issue) => this.mapLinearIssue(issue));
-		} catch (error) {
-			console.error("Failed to fetch Linear tickets:", error);
-			return [];
-		}
+			after = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+		} while (after);
+
+		return { tickets, pages };
 	}
 
 	async getTicket(externalId: string): Promise<ExternalTicket | null> {
@@ -86,48 +208,322 @@ export class LinearTicketProvider extends BaseTicketProvider {
 			return null;
 		}
 
-		try {
-			const query = `
+		const query = `
         query($id: String!) {
-          issue(id: $id) {
-            id
-            identifier
-            title
-            description
-            state { name }
-            priority
-            assignee { name email }
-            labels { nodes { name } }
-            createdAt
-            updatedAt
-          }
+          issue(id: $id) {${LINEAR_ISSUE_FIELDS}}
         }
       `;
 
-			const response = await fetch("https://api.linear.app/graphql", {
+		try {
+			const data = (await this.graphqlRequest(query, { id: externalId })) as {
+				issue: LinearIssue | null;
+			};
+			return data.issue ? this.mapLinearIssue(data.issue) : null;
+		} catch (error) {
+			if (isProviderNotFound(error)) return null;
+			throw error;
+		}
+	}
+
+	async updateTicket(
+		externalId: string,
+		changes: ExternalTicketUpdate,
+	): Promise<void> {
+		if (!this.isConfigured()) {
+			throw new Error("Linear provider is not configured");
+		}
+
+		const input: Record<string, unknown> = {};
+
+		if (changes.priority) {
+			input.priority = LINEAR_PRIORITIES[changes.priority];
+		}
+		if (changes.status) {
+			input.stateId = await this.findWorkflowStateId(
+				externalId,
+				changes.status,
+			);
+		}
+		if (changes.assignee !== undefined) {
+			input.assigneeId =
+				changes.assignee === null
+					? null
+					: await this.findUserId(changes.assignee);
+		}
+
+		if (Object.keys(input).length === 0) return;
+
+		const data = (await this.graphqlRequest(
+			`
+        mutation($id: String!, $input: IssueUpdateInput!) {
+          issueUpdate(id: $id, input: $input) { success }
+        }
+      `,
+			{ id: externalId, input },
+		)) as { issueUpdate: { success: boolean } };
+
+		if (!data.issueUpdate.success) {
+			throw new Error(`Linear did not accept the update for ${externalId}`);
+		}
+	}
+
+	parseWebhookEvent(payload: unknown): TicketWebhookEvent | null {
+		const event = payload as {
+			action?: "create" | "update" | "remove";
+			type?: string;
+			data?: { identifier?: string };
+		} | null;
+		const identifier = event?.data?.identifier;
+		if (event?.type !== "Issue" || !identifier) {
+			return null;
+		}
+
+		return {
+			action: event.action === "remove" ? "delete" : "upsert",
+			externalId: identifier,
+		};
+	}
+
+	async isInScope(externalId: string): Promise<boolean> {
+		const teamKeys = this.readListConfig("teamKeys");
+		const projectIds = this.readListConfig("projectIds");
+		const states = this.readListConfig("states");
+		if (teamKeys.length + projectIds.length + states.length === 0) {
+			return true;
+		}
+
+		const data = (await this.graphqlRequest(
+			`
+        query($id: String!) {
+          issue(id: $id) { team { key } project { id } state { name } }
+        }
+      `,
+			{ id: externalId },
+		)) as {
+			issue: {
+				team: { key: string } | null;
+				project: { id: string } | null;
+				state: { name: string } | null;
+			} | null;
+		};
+		const issue = data.issue;
+		if (!issue) return false;
+
+		// Same conditions as buildIssueFilter
+		const matches = (allowed: string[], value: string | undefined) =>
+			allowed.length === 0 || (!!value && allowed.includes(value));
+		return (
+			matches(teamKeys, issue.team?.key) &&
+			matches(projectIds, issue.project?.id) &&
+			matches(states, issue.state?.name)
+		);
+	}
+
+	async testConnection(): Promise<ConnectionTestResult> {
+		if (!this.isConfigured()) {
+			return { ok: false, message: "Enter a Linear API key." };
+		}
+
+		const result = await this.probe(
+			this.http,
+			"the workspace",
+			LINEAR_API_URL,
+			{
 				method: "POST",
 				headers: this.getHeaders(),
 				body: JSON.stringify({
-					query,
-					variables: { id: externalId },
+					query:
+						"{ viewer { name } organization { name } teams { nodes { key } } }",
 				}),
-			});
-
-			if (!response.ok) {
-				throw new Error(
-					`Linear API error: ${response.status} ${response.statusText}`,
-				);
-			}
+			},
+		);
+		if (!result.ok) {
+			// Linear answers a bad key with 400 instead of 401
+			return {
+				ok: false,
+				message:
+					result.status === 400
+						? "Linear rejected the API key. Check that it was copied completely and has not been revoked."
+						: result.message,
+			};
+		}
 
-			const data = (await response.json()) as {
-				data: { issue: LinearIssue | null };
+		const { data } = result.body as {
+			data: {
+				viewer: { name: string };
+				organization: { name: string };
+				teams: { nodes: { key: string }[] };
 			};
-			if (!data.data.issue) return null;
-			return this.mapLinearIssue(data.data.issue);
-		} catch (error) {
-			console.error(`Failed to fetch Linear ticket ${externalId}:`, error);
-			return null;
+		};
+		const available = data.teams.nodes.map((team) => team.key);
+		const missing = this.readListConfig("teamKeys").filter(
+			(key) => !available.includes(key),
+		);
+		if (missing.length > 0) {
+			return {
+				ok: false,
+				message: `Workspace "${data.organization.name}" has no team ${missing.join(", ")}, or the key cannot see it. Available teams: ${available.join(", ") || "none"}.`,
+			};
+		}
+
+		return {
+			ok: true,
+			message: `Connected to "${data.organization.name}" as ${data.viewer.name}.`,
+		};
+	}
+
+	/**
+	 * Pick a workflow state of the issue's team that maps to the target status
+	 */
+	private async findWorkflowStateId(
+		externalId: string,
+		status: TicketStatus,
+	): Promise<string> {
+		const data = (await this.graphqlRequest(
+			`
+        query($id: String!) {
+          issue(id: $id) {
+            team { states { nodes { id name type } } }
+          }
+        }
+      `,
+			{ id: externalId },
+		)) as {
+			issue: {
+				team: {
+					states: { nodes: { id: string; name: string; type: string }[] };
+				};
+			} | null;
+		};
+
+		if (!data.issue) {
+			throw new Error(`Linear issue ${externalId} not found`);
+		}
+
+		const states = data.issue.team.states.nodes;
+		const state =
+			states.find((s) => this.mapStatus(s.name) === status) ??
+			states.find((s) => LINEAR_STATE_TYPES[status].includes(s.type));
+
+		if (!state) {
+			throw new Error(
+				`The Linear team of ${externalId} has no workflow state for "${status}"`,
+			);
 		}
+		return state.id;
+	}
+
+	/**
+	 * Resolve a name, display name or email to a Linear user ID
+	 */
+	private async findUserId(assignee: string): Promise<string> {
+		const data = (await this.graphqlRequest(
+			`
+        query($value: String!) {
+          users(filter: {
+            or: [
+              { name: { eqIgnoreCase: $value } }
+              { displayName: { eqIgnoreCase: $value } }
+              { email: { eqIgnoreCase: $value } }
+            ]
+          }) {
+            nodes { id }
+          }
+        }
+      `,
+			{ value: assignee },
+		)) as { users: { nodes: { id: string }[] } };
+
+		const user = data.users.nodes[0];
+		if (!user) {
+			throw new Error(`Linear has no user matching "${assignee}"`);
+		}
+		return user.id;
+	}
+
+	/**
+	 * Run a GraphQL operation and throw a ProviderHttpError on HTTP or GraphQL
+	 * errors. Queries are retried on transient failures; mutations only when
+	 * rate limited.
+	 */
+	private async graphqlRequest(
+		query: string,
+		variables: Record<string, unknown>,
+	): Promise<unknown> {
+		const response = await this.http.fetch(
+			LINEAR_API_URL,
+			{
+				method: "POST",
+				headers: this.getHeaders(),
+				body: JSON.stringify({ query, variables }),
+			},
+			{
+				idempotent: !query.trimStart().startsWith("mutation"),
+				errorDetails: describeLinearErrors,
+				isRateLimited: isLinearRateLimited,
+			},
+		);
+
+		const body = (await response
+			.json()
+			.catch(() => null)) as LinearGraphqlResponse | null;
+		if (body?.errors?.length) {
+			// Unknown IDs come back as a GraphQL error rather than a 404
+			const notFound = body.errors.every((e) => /not found/i.test(e.message));
+			throw new ProviderHttpError(
+				`Linear API error: ${describeLinearErrors(body)}`,
+				{
+					service: this.http.service,
+					status: notFound ? 404 : response.status,
+				},
+			);
+		}
+
+		return body?.data;
+	}
+
+	/**
+	 * Build a Linear `IssueFilter` from `additionalConfig.teamKeys`,
+	 * `projectIds` and `states`, plus an optional `updatedAt` lower bound.
+	 * Returns undefined when no scope is set.
+	 */
+	private buildIssueFilter(
+		updatedSince?: Date,
+	): Record<string, unknown> | undefined {
+		const teamKeys = this.readListConfig("teamKeys");
+		const projectIds = this.readListConfig("projectIds");
+		const states = this.readListConfig("states");
+
+		const filter: Record<string, unknown> = {};
+		if (teamKeys.length > 0) {
+			filter.team = { key: { in: teamKeys } };
+		}
+		if (projectIds.length > 0) {
+			filter.project = { id: { in: projectIds } };
+		}
+		if (states.length > 0) {
+			filter.state = { name: { in: states } };
+		}
+		if (updatedSince) {
+			filter.updatedAt = { gte: updatedSince.toISOString() };
+		}
+
+		return Object.keys(filter).length > 0 ? filter : undefined;
+	}
+
+	/**
+	 * Read a list option that may be given as an array or a comma-separated string
+	 */
+	private readListConfig(key: string): string[] {
+		const value = this.config.additionalConfig?.[key];
+		const items = Array.isArray(value)
+			? value
+			: typeof value === "string"
+				? value.split(",")
+				: [];
+		return items
+			.map((item) => String(item).trim())
+			.filter((item) => item.length > 0);
 	}
 
 	private getHeaders(): HeadersInit {
@@ -149,15 +545,89 @@ export class LinearTicketProvider extends BaseTicketProvider {
 			metadata: {
 				linearId: issue.id,
 				linearIdentifier: issue.identifier,
+				linearTeamKey: issue.team?.key ?? null,
+				linearProjectId: issue.project?.id ?? null,
+				linearProjectName: issue.project?.name ?? null,
+				externalUrl: issue.url,
 			},
+			// Linear returns the most recently updated comments first
+			comments: issue.comments.nodes
+				.map((comment) => ({
+					externalId: comment.id,
+					author: comment.user?.displayName ?? comment.user?.name ?? null,
+					body: comment.body,
+					createdAt: new Date(comment.createdAt),
+					updatedAt: comment.updatedAt ? new Date(comment.updatedAt) : null,
+				}))
+				.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+			links: [
+				...issue.relations.nodes.map(
+					(relation): ExternalTicketLink => ({
+						type: LINEAR_RELATION_TYPES[relation.type]?.forward ?? "relates-to",
+						targetExternalId: relation.relatedIssue.identifier,
+					}),
+				),
+				...issue.inverseRelations.nodes.map(
+					(relation): ExternalTicketLink => ({
+						type: LINEAR_RELATION_TYPES[relation.type]?.inverse ?? "relates-to",
+						targetExternalId: relation.issue.identifier,
+					}),
+				),
+			],
+			parentExternalId: issue.parent?.identifier ?? null,
+			estimate: issue.estimate,
 			createdAt: new Date(issue.createdAt),
 			updatedAt: issue.updatedAt ? new Date(issue.updatedAt) : null,
 		};
 	}
 }
 
+function describeLinearErrors(body: unknown): string | undefined {
+	const errors = (body as LinearGraphqlResponse | null)?.errors;
+	return errors?.map((e) => e.message).join("; ") || undefined;
+}
+
+/** Linear reports rate limiting as a GraphQL error, with HTTP 400 */
+function isLinearRateLimited(body: unknown): boolean {
+	const errors = (body as LinearGraphqlResponse | null)?.errors;
+	return !!errors?.some((e) => e.extensions?.code === "RATELIMITED");
+}
+
 export function createLinearProvider(
 	config?: TicketProviderConfig,
 ): LinearTicketProvider {
 	return new LinearTicketProvider(config ?? {});
 }
+
+export const linearProviderPlugin: TicketProviderPlugin = {
+	key: "linear",
+	displayName: "Linear",
+	capabilities: {
+		incrementalSync: true,
+		writeBack: true,
+		webhooks: true,
+		comments: true,
+	},
+	configSchema: z.object({
+		apiToken: z.string().min(1).meta({ title: "API key", secret: true }),
+		teamKeys: z
+			.string()
+			.optional()
+			.meta({ title: "Team keys", placeholder: "Optional, e.g. ENG, OPS" }),
+		projectIds: z
+			.string()
+			.optional()
+			.meta({ title: "Project IDs", placeholder: "Optional" }),
+		states: z.string().optional().meta({
+			title: "States",
+			placeholder: "Optional, e.g. Todo, In Progress",
+		}),
+	}),
+	envConfig: () => ({
+		apiToken: process.env.LINEAR_API_KEY,
+		teamKeys: process.env.LINEAR_TEAM_KEYS,
+		projectIds: process.env.LINEAR_PROJECT_IDS,
+		states: process.env.LINEAR_STATES,
+	}),
+	createProvider: createLinearProvider,
+};
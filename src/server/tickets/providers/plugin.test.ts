@@ -0,0 +1,176 @@
+import { describe, expect, it } from "bun:test";
+import { z } from "zod";
+import {
+	defineTicketProvider,
+	describeConfigFields,
+	fromConfigValues,
+	parseProviderConfig,
+	TicketProviderPluginRegistry,
+	toConfigValues,
+} from "./plugin";
+
+const configSchema = z.object({
+	baseUrl: z.url().meta({ title: "Tracker URL", placeholder: "https://..." }),
+	apiToken: z.string().min(1).meta({ title: "API token", secret: true }),
+	board: z.string().optional().meta({ description: "Board to sync" }),
+	pageSize: z.coerce.number().int().positive().default(50),
+	scope: z.enum(["open", "all"]).optional().meta({ title: "Scope" }),
+});
+
+const tracker = defineTicketProvider({
+	key: "tracker",
+	displayName: "Tracker",
+	configSchema,
+	async listTickets({ config, mapStatus }) {
+		return [
+			{
+				externalId: `${config.board ?? "main"}-1`,
+				title: "First",
+				description: null,
+				status: mapStatus("In Progress"),
+				priority: "medium",
+				assignee: null,
+				labels: [],
+				metadata: { pageSize: config.pageSize },
+				createdAt: new Date(0),
+				updatedAt: null,
+			},
+		];
+	},
+	async getTicket() {
+		return null;
+	},
+});
+
+describe("describeConfigFields", () => {
+	it("turns the schema into form fields", () => {
+		expect(describeConfigFields(configSchema)).toEqual([
+			{
+				key: "baseUrl",
+				label: "Tracker URL",
+				placeholder: "https://...",
+				type: "text",
+				required: true,
+			},
+			{ key: "apiToken", label: "API token", type: "password", required: true },
+			{
+				key: "board",
+				label: "board",
+				description: "Board to sync",
+				type: "text",
+				required: false,
+			},
+			{ key: "pageSize", label: "pageSize", type: "number", required: false },
+			{
+				key: "scope",
+				label: "Scope",
+				type: "select",
+				options: ["open", "all"],
+				required: false,
+			},
+		]);
+	});
+});
+
+describe("parseProviderConfig", () => {
+	it("reports issues with field labels", () => {
+		const result = parseProviderConfig(tracker, { baseUrl: "nope" });
+		expect(result.success).toBe(false);
+		expect(!result.success && result.message).toStartWith("Tracker URL: ");
+		expect(!result.success && result.message).toContain("API token: ");
+	});
+
+	it("splits parsed values into connection columns and config", () => {
+		const result = parseProviderConfig(tracker, {
+			baseUrl: "https://tracker.test",
+			apiToken: "secret",
+			pageSize: "20",
+		});
+		expect(result.success && fromConfigValues(result.data)).toEqual({
+			baseUrl: "https://tracker.test",
+			apiToken: "secret",
+			projectKey: null,
+			config: { pageSize: 20 },
+		});
+	});
+});
+
+describe("TicketProviderPluginRegistry", () => {
+	it("rejects invalid and duplicate keys", () => {
+		const registry = new TicketProviderPluginRegistry();
+		registry.register(tracker);
+		expect(registry.list().map((p) => p.key)).toEqual(["tracker"]);
+		expect(() => registry.register(tracker)).toThrow("already registered");
+		expect(() => registry.register({ ...tracker, key: "My Tracker" })).toThrow(
+			"not a valid provider key",
+		);
+		expect(() => registry.register({ ...tracker, key: "manual" })).toThrow(
+			"not a valid provider key",
+		);
+	});
+
+	it("only allows apiToken to be secret", () => {
+		const registry = new TicketProviderPluginRegistry();
+		expect(() =>
+			registry.register({
+				...tracker,
+				key: "leaky",
+				configSchema: z.object({
+					password: z.string().meta({ secret: true }),
+				}),
+			}),
+		).toThrow('marks "password" as secret');
+	});
+});
+
+describe("defineTicketProvider", () => {
+	it("derives capabilities from the hooks given", () => {
+		expect(tracker.capabilities).toEqual({
+			incrementalSync: false,
+			writeBack: false,
+			webhooks: false,
+			comments: false,
+		});
+		const provider = tracker.createProvider({});
+		expect(provider.updateTicket).toBeUndefined();
+	});
+
+	it("passes the parsed config and value mapping to the hooks", async () => {
+		const provider = tracker.createProvider({
+			baseUrl: "https://tracker.test",
+			apiToken: "secret",
+			additionalConfig: { board: "ops" },
+		});
+		provider.setValueMappings?.({
+			status: { "in progress": "review" },
+			priority: {},
+		});
+
+		expect(provider.isConfigured()).toBe(true);
+		const { tickets, pages } = await provider.listTickets();
+		expect(pages).toBe(1);
+		expect(tickets[0]).toMatchObject({
+			externalId: "ops-1",
+			status: "review",
+			metadata: { pageSize: 50 },
+		});
+	});
+
+	it("treats an invalid config as not configured", async () => {
+		const provider = tracker.createProvider({
+			baseUrl: "https://tracker.test",
+		});
+		expect(provider.isConfigured()).toBe(false);
+		expect(await provider.listTickets()).toEqual({ tickets: [], pages: 0 });
+		expect(await provider.testConnection?.()).toMatchObject({ ok: false });
+	});
+
+	it("round-trips connection columns", () => {
+		expect(
+			toConfigValues({
+				baseUrl: "https://tracker.test",
+				additionalConfig: { board: "ops" },
+			}),
+		).toEqual({ board: "ops", baseUrl: "https://tracker.test" });
+	});
+});
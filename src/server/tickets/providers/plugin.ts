@@ -0,0 +1,454 @@
+/**
+ * Ticket Provider SDK
+ *
+ * A provider plugin describes one kind of ticket source: its key, what it
+ * supports and a zod schema of its connection settings. The schema validates
+ * saved connections and is turned into the fields of the settings form.
+ */
+
+import { z } from "zod";
+import type { TicketPriority, TicketStatus } from "@/server/db/schema";
+import {
+	BaseTicketProvider,
+	type ConnectionTestResult,
+	type ExternalTicket,
+	type ExternalTicketUpdate,
+	type ITicketProvider,
+	type ListTicketsOptions,
+	type TicketListResult,
+	type TicketProviderConfig,
+	type TicketWebhookEvent,
+} from "./base";
+import { getProviderHttpClient, type ProviderHttpClient } from "./http";
+
+/**
+ * What a provider supports beyond listing and fetching tickets
+ */
+export interface TicketProviderCapabilities {
+	/** Honors `updatedSince`, so syncs after the first only fetch changes */
+	incrementalSync: boolean;
+	/** Pushes status, priority and assignee edits back to the source */
+	writeBack: boolean;
+	/** Understands the source's webhook payloads */
+	webhooks: boolean;
+	/** Syncs the discussion thread of each ticket */
+	comments: boolean;
+}
+
+/**
+ * Connection settings schema. Fields named `baseUrl`, `apiToken` and
+ * `projectKey` are stored in the connection's own columns (`apiToken`
+ * encrypted); all other fields go into its `config`.
+ *
+ * Form fields take their label, help text and placeholder from
+ * `.meta({ title, description, placeholder })`; `secret: true` renders a
+ * password input and is only allowed on `apiToken`.
+ */
+export type ProviderConfigSchema = z.ZodObject;
+
+export interface TicketProviderPlugin {
+	/** Stored on connections and tickets; lowercase letters, digits and dashes */
+	readonly key: string;
+	readonly displayName: string;
+	readonly description?: string;
+	readonly capabilities: TicketProviderCapabilities;
+	readonly configSchema: ProviderConfigSchema;
+
+	/**
+	 * Settings read from environment variables, keyed like the config schema.
+	 * When they configure a working provider they are imported as a connection
+	 * on first start.
+	 */
+	envConfig?(): Record<string, unknown>;
+
+	/**
+	 * Create the provider for a stored connection
+	 */
+	createProvider(config: TicketProviderConfig): ITicketProvider;
+}
+
+/** Provider key format shared by plugins, connections and API inputs */
+export const ticketProviderKeySchema = z
+	.string()
+	.max(50)
+	.regex(/^[a-z][a-z0-9-]*$/, "Use lowercase letters, digits and dashes");
+
+const CONNECTION_COLUMNS = ["baseUrl", "apiToken", "projectKey"] as const;
+
+/**
+ * Flatten a provider config into the values the config schema describes
+ */
+export function toConfigValues(
+	config: TicketProviderConfig,
+): Record<string, unknown> {
+	const values: Record<string, unknown> = { ...config.additionalConfig };
+	for (const column of CONNECTION_COLUMNS) {
+		if (config[column] !== undefined) values[column] = config[column];
+	}
+	return values;
+}
+
+/**
+ * Split values shaped like the config schema into connection columns and
+ * provider-specific config
+ */
+export function fromConfigValues(values: Record<string, unknown>) {
+	const { baseUrl, apiToken, projectKey, ...config } = values;
+	const column = (value: unknown) =>
+		typeof value === "string" && value ? value : null;
+	return {
+		baseUrl: column(baseUrl),
+		apiToken: column(apiToken),
+		projectKey: column(projectKey),
+		config,
+	};
+}
+
+/** A settings form field generated from a config schema */
+export interface ProviderConfigField {
+	key: string;
+	label: string;
+	description?: string;
+	placeholder?: string;
+	type: "text" | "password" | "number" | "select";
+	/** Choices of a select field */
+	options?: string[];
+	required: boolean;
+}
+
+interface FieldMeta {
+	title?: string;
+	description?: string;
+	placeholder?: string;
+	secret?: boolean;
+}
+
+const WRAPPER_TYPES = new Set(["optional", "default", "nullable", "catch"]);
+
+/**
+ * Unwrap optional/default wrappers, collecting `.meta()` from every level
+ */
+function inspectField(schema: z.ZodType): {
+	inner: z.ZodType;
+	meta: FieldMeta;
+} {
+	let meta: FieldMeta = {};
+	let current = schema;
+	while (true) {
+		meta = { ...(current.meta() as FieldMeta | undefined), ...meta };
+		const def = current.def as { type: string; innerType?: z.ZodType };
+		if (!WRAPPER_TYPES.has(def.type) || !def.innerType) break;
+		current = def.innerType;
+	}
+	return { inner: current, meta };
+}
+
+/**
+ * Form fields for a config schema, in declaration order
+ */
+export function describeConfigFields(
+	schema: ProviderConfigSchema,
+): ProviderConfigField[] {
+	return Object.entries(schema.shape).map(([key, field]) => {
+		const { inner, meta } = inspectField(field as z.ZodType);
+		const kind = (inner.def as { type: string }).type;
+		const options =
+			kind === "enum" ? (inner as z.ZodEnum).options.map(String) : undefined;
+
+		return {
+			key,
+			label: meta.title ?? key,
+			...(meta.description ? { description: meta.description } : {}),
+			...(meta.placeholder ? { placeholder: meta.placeholder } : {}),
+			type: meta.secret
+				? "password"
+				: options
+					? "select"
+					: kind === "number"
+						? "number"
+						: "text",
+			...(options ? { options } : {}),
+			required: !(field as z.ZodType).safeParse(undefined).success,
+		};
+	});
+}
+
+/**
+ * Validate connection settings against a plugin's schema. Issues are
+ * reported with the form labels of their fields.
+ */
+export function parseProviderConfig(
+	plugin: Pick<TicketProviderPlugin, "configSchema">,
+	values: Record<string, unknown>,
+):
+	| { success: true; data: Record<string, unknown> }
+	| { success: false; message: string } {
+	const result = plugin.configSchema.safeParse(values);
+	if (result.success) return { success: true, data: result.data };
+
+	const labels = new Map(
+		describeConfigFields(plugin.configSchema).map((f) => [f.key, f.label]),
+	);
+	const message = result.error.issues
+		.map((issue) => {
+			const label = labels.get(String(issue.path[0] ?? ""));
+			return label ? `${label}: ${issue.message}` : issue.message;
+		})
+		.join("; ");
+	return { success: false, message };
+}
+
+/**
+ * Registry of the provider plugins available to connections
+ *
+ * @example
+ * ```typescript
+ * ticketProviderPlugins.register(jiraProviderPlugin);
+ *
+ * const plugin = ticketProviderPlugins.get("jira");
+ * const provider = plugin?.createProvider({ apiToken: "..." });
+ * ```
+ */
+export class TicketProviderPluginRegistry {
+	private plugins = new Map<string, TicketProviderPlugin>();
+
+	/**
+	 * Register a provider plugin
+	 *
+	 * @throws Error if the key is invalid or taken, or a secret field is not `apiToken`
+	 */
+	register(plugin: TicketProviderPlugin): void {
+		const key = ticketProviderKeySchema.safeParse(plugin.key);
+		if (!key.success || plugin.key === "manual") {
+			throw new Error(`"${plugin.key}" is not a valid provider key`);
+		}
+		if (this.plugins.has(plugin.key)) {
+			throw new Error(`Provider "${plugin.key}" is already registered`);
+		}
+
+		const secret = describeConfigFields(plugin.configSchema).find(
+			(field) => field.type === "password" && field.key !== "apiToken",
+		);
+		if (secret) {
+			throw new Error(
+				`Provider "${plugin.key}" marks "${secret.key}" as secret; only apiToken is stored encrypted`,
+			);
+		}
+
+		this.plugins.set(plugin.key, plugin);
+	}
+
+	get(key: string): TicketProviderPlugin | undefined {
+		return this.plugins.get(key);
+	}
+
+	has(key: string): boolean {
+		return this.plugins.has(key);
+	}
+
+	/**
+	 * All registered plugins, in registration order
+	 */
+	list(): TicketProviderPlugin[] {
+		return Array.from(this.plugins.values());
+	}
+}
+
+/** Provider plugins of this process */
+export const ticketProviderPlugins = new TicketProviderPluginRegistry();
+
+/**
+ * Make a provider available to connections. Call it from a module imported
+ * by `src/server/tickets/plugins/index.ts`.
+ */
+export function registerTicketProvider(plugin: TicketProviderPlugin): void {
+	ticketProviderPlugins.register(plugin);
+}
+
+/**
+ * What every hook of a hook-based provider receives
+ */
+export interface TicketProviderHookContext<TConfig> {
+	/** The connection's settings, parsed by the config schema */
+	config: TConfig;
+	/** Translate a source status, honoring the mappings set in settings */
+	mapStatus(value: string): TicketStatus;
+	/** Translate a source priority, honoring the mappings set in settings */
+	mapPriority(value: string | number | null): TicketPriority;
+	/** Retrying, rate-limited HTTP client shared by the plugin's connections */
+	http: ProviderHttpClient;
+}
+
+/**
+ * A provider written as hooks instead of a provider class
+ */
+export interface TicketProviderDefinition<
+	TSchema extends ProviderConfigSchema,
+> {
+	key: string;
+	displayName: string;
+	description?: string;
+	configSchema: TSchema;
+	/**
+	 * Defaults to write-back and webhooks when their hooks are given, and no
+	 * incremental sync or comments
+	 */
+	capabilities?: Partial<TicketProviderCapabilities>;
+	/** Requests in flight at once across the plugin's connections; default 4 */
+	concurrency?: number;
+	envConfig?(): Record<string, unknown>;
+
+	/**
+	 * Tickets in the configured scope. Throw on failure; an empty list means
+	 * the scope really is empty.
+	 */
+	listTickets(
+		context: TicketProviderHookContext<z.output<TSchema>> & ListTicketsOptions,
+	): Promise<ExternalTicket[]>;
+	/** A single ticket; null when the source does not have it */
+	getTicket(
+		context: TicketProviderHookContext<z.output<TSchema>> & {
+			externalId: string;
+		},
+	): Promise<ExternalTicket | null>;
+	updateTicket?(
+		context: TicketProviderHookContext<z.output<TSchema>> & {
+			externalId: string;
+			changes: ExternalTicketUpdate;
+		},
+	): Promise<void>;
+	testConnection?(
+		context: TicketProviderHookContext<z.output<TSchema>>,
+	): Promise<ConnectionTestResult>;
+	parseWebhookEvent?(payload: unknown): TicketWebhookEvent | null;
+}
+
+/**
+ * Provider instance for a hook-based plugin; the config is validated once
+ * and an invalid config counts as not configured
+ */
+class HookTicketProvider<
+	TSchema extends ProviderConfigSchema,
+> extends BaseTicketProvider {
+	readonly name: string;
+	updateTicket?: ITicketProvider["updateTicket"];
+	parseWebhookEvent?: ITicketProvider["parseWebhookEvent"];
+	private readonly parsed: ReturnType<typeof parseProviderConfig>;
+
+	constructor(
+		private readonly definition: TicketProviderDefinition<TSchema>,
+		config: TicketProviderConfig,
+	) {
+		super(config);
+		this.name = definition.key;
+		this.parsed = parseProviderConfig(definition, toConfigValues(config));
+
+		const { updateTicket, parseWebhookEvent } = definition;
+		if (updateTicket) {
+			this.updateTicket = (externalId, changes) =>
+				updateTicket({ ...this.context(), externalId, changes });
+		}
+		if (parseWebhookEvent) {
+			this.parseWebhookEvent = (payload) => parseWebhookEvent(payload);
+		}
+	}
+
+	isConfigured(): boolean {
+		return this.parsed.success;
+	}
+
+	async listTickets(
+		options: ListTicketsOptions = {},
+	): Promise<TicketListResult> {
+		if (!this.parsed.success) return { tickets: [], pages: 0 };
+		const tickets = await this.definition.listTickets({
+			...this.context(),
+			...options,
+		});
+		return { tickets, pages: 1 };
+	}
+
+	async getTicket(externalId: string): Promise<ExternalTicket | null> {
+		if (!this.parsed.success) return null;
+		return this.definition.getTicket({ ...this.context(), externalId });
+	}
+
+	async testConnection(): Promise<ConnectionTestResult> {
+		if (!this.parsed.success) {
+			return { ok: false, message: this.parsed.message };
+		}
+		if (!this.definition.testConnection) {
+			return {
+				ok: true,
+				message: `The settings are complete. ${this.definition.displayName} does not offer a connection test.`,
+			};
+		}
+		try {
+			return await this.definition.testConnection(this.context());
+		} catch (error) {
+			return {
+				ok: false,
+				message: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}
+
+	private context(): TicketProviderHookContext<z.output<TSchema>> {
+		if (!this.parsed.success) {
+			throw new Error(
+				`${this.definition.displayName} is not configured: ${this.parsed.message}`,
+			);
+		}
+		return {
+			config: this.parsed.data as z.output<TSchema>,
+			mapStatus: (value) => this.mapStatus(value),
+			mapPriority: (value) => this.mapPriority(value),
+			http: getProviderHttpClient(this.definition.key, {
+				service: this.definition.displayName,
+				concurrency: this.definition.concurrency,
+			}),
+		};
+	}
+}
+
+/**
+ * Build a plugin from list/get/update hooks
+ *
+ * @example
+ * ```typescript
+ * registerTicketProvider(
+ *   defineTicketProvider({
+ *     key: "tracker",
+ *     displayName: "Internal tracker",
+ *     configSchema: z.object({
+ *       baseUrl: z.url().meta({ title: "Tracker URL" }),
+ *       apiToken: z.string().min(1).meta({ title: "API token", secret: true }),
+ *     }),
+ *     async listTickets({ config, http, mapStatus }) {
+ *       const response = await http.fetch(`${config.baseUrl}/api/issues`);
+ *       ...
+ *     },
+ *     async getTicket({ config, externalId, http }) { ... },
+ *   }),
+ * );
+ * ```
+ */
+export function defineTicketProvider<TSchema extends ProviderConfigSchema>(
+	definition: TicketProviderDefinition<TSchema>,
+): TicketProviderPlugin {
+	return {
+		key: definition.key,
+		displayName: definition.displayName,
+		description: definition.description,
+		configSchema: definition.configSchema,
+		capabilities: {
+			incrementalSync: false,
+			writeBack: !!definition.updateTicket,
+			webhooks: !!definition.parseWebhookEvent,
+			comments: false,
+			...definition.capabilities,
+		},
+		envConfig: definition.envConfig,
+		createProvider: (config) => new HookTicketProvider(definition, config),
+	};
+}
@@ -1,47 +1,185 @@
 /**
- * Repository Analysis Service - stubbed for future Docker/Opencode integration.
+ * Repository Analysis Service
+ *
+ * Runs an analysis agent session over a local repository checkout and keeps
+ * each run as a `repo_scan` row. The docker ticket provider turns the findings
+ * of the latest completed scan into tickets.
  */
 
+import { and, desc, eq, inArray, lt } from "drizzle-orm";
+import { agentRegistry, OpencodeProvider } from "@/server/ai-agents";
+import { db } from "@/server/db";
+import {
+	type RepoScanFinding,
+	type RepoScanStatus,
+	repoScans,
+	tickets,
+} from "@/server/db/schema";
+import { buildRepoScanPrompt, parseRepoScanResponse } from "./repo-findings";
+
 export interface RepoAnalysis {
 	id: string;
-	repoUrl: string;
+	repoPath: string;
 	files: string[];
 	summary: string;
 	stackInfo: string;
 	potentialOwners: string[];
-	analyzedAt: Date;
-	status: "pending" | "running" | "completed" | "failed";
+	findings: RepoScanFinding[];
+	analyzedAt: Date | null;
+	status: RepoScanStatus;
 	error?: string;
 }
 
-export interface RepoFile {
-	path: string;
-	language: string;
-	summary?: string;
-	complexity?: number;
+// A scan still marked running after this long was cut off by a restart
+const STALE_SCAN_MS = 60 * 60 * 1000;
+
+if (!agentRegistry.has("opencode")) {
+	agentRegistry.register(new OpencodeProvider());
 }
 
-// TODO: Implement Docker/Opencode integration
-export async function startRepoScan(_repoUrl: string): Promise<string> {
-	return `scan-${Date.now()}`;
+function toRepoAnalysis(scan: typeof repoScans.$inferSelect): RepoAnalysis {
+	return {
+		id: scan.id,
+		repoPath: scan.repoPath,
+		files: scan.files ?? [],
+		summary: scan.summary ?? "",
+		stackInfo: scan.stackInfo ?? "",
+		potentialOwners: scan.potentialOwners ?? [],
+		findings: scan.findings ?? [],
+		analyzedAt: scan.completedAt,
+		status: scan.status,
+		...(scan.error ? { error: scan.error } : {}),
+	};
+}
+
+async function failStaleScans(repoPath: string): Promise<void> {
+	await db
+		.update(repoScans)
+		.set({
+			status: "failed",
+			error: "The scan was interrupted before it finished",
+			completedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(repoScans.repoPath, repoPath),
+				inArray(repoScans.status, ["pending", "running"]),
+				lt(repoScans.createdAt, new Date(Date.now() - STALE_SCAN_MS)),
+			),
+		);
+}
+
+async function runRepoScan(jobId: string, repoPath: string): Promise<void> {
+	try {
+		const agent = agentRegistry.getActive();
+		const session = await agent.createSession(`Repo scan: ${repoPath}`);
+		await db
+			.update(repoScans)
+			.set({
+				status: "running",
+				agentSessionId: session.id,
+				startedAt: new Date(),
+			})
+			.where(eq(repoScans.id, jobId));
+
+		const response = await agent.sendMessage(
+			session.id,
+			buildRepoScanPrompt(repoPath),
+		);
+		const report = parseRepoScanResponse(response.content);
+		if (!report) {
+			throw new Error("The analysis agent did not answer with a JSON report");
+		}
+
+		await db
+			.update(repoScans)
+			.set({ status: "completed", completedAt: new Date(), ...report })
+			.where(eq(repoScans.id, jobId));
+		console.log(
+			`[repo-analysis] Scan ${jobId} of ${repoPath} found ${report.findings.length} issues`,
+		);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(
+			`[repo-analysis] Scan ${jobId} of ${repoPath} failed:`,
+			error,
+		);
+		// Runs in the background, so nothing else would handle this rejection;
+		// failStaleScans marks the scan failed later if this update is lost
+		await db
+			.update(repoScans)
+			.set({ status: "failed", error: message, completedAt: new Date() })
+			.where(eq(repoScans.id, jobId))
+			.catch((updateError: unknown) => {
+				console.error(
+					`[repo-analysis] Could not record the failure of scan ${jobId}:`,
+					updateError,
+				);
+			});
+	}
+}
+
+/**
+ * Start analyzing a repository checkout in the background and return the
+ * scan job ID. A scan already pending or running for the path is reused.
+ */
+export async function startRepoScan(repoPath: string): Promise<string> {
+	await failStaleScans(repoPath);
+
+	const active = await db.query.repoScans.findFirst({
+		columns: { id: true },
+		where: and(
+			eq(repoScans.repoPath, repoPath),
+			inArray(repoScans.status, ["pending", "running"]),
+		),
+	});
+	if (active) return active.id;
+
+	const [job] = await db
+		.insert(repoScans)
+		.values({ repoPath, status: "pending" })
+		.returning({ id: repoScans.id });
+	if (!job) {
+		throw new Error("Failed to create repository scan");
+	}
+
+	void runRepoScan(job.id, repoPath);
+	return job.id;
 }
 
+/**
+ * Current state of a scan job; null when it does not exist
+ */
 export async function getRepoScanResult(
 	jobId: string,
 ): Promise<RepoAnalysis | null> {
-	return {
-		id: jobId,
-		repoUrl: "https://github.com/example/repo",
-		files: [],
-		summary: "Repository analysis not yet implemented",
-		stackInfo: "Unknown",
-		potentialOwners: [],
-		analyzedAt: new Date(),
-		status: "pending",
-	};
+	const scan = await db.query.repoScans.findFirst({
+		where: eq(repoScans.id, jobId),
+	});
+	return scan ? toRepoAnalysis(scan) : null;
+}
+
+/**
+ * Most recent scan of a repository, optionally only among the given statuses
+ */
+export async function getLatestRepoScan(
+	repoPath: string,
+	statuses?: RepoScanStatus[],
+): Promise<RepoAnalysis | null> {
+	const scan = await db.query.repoScans.findFirst({
+		where: and(
+			eq(repoScans.repoPath, repoPath),
+			statuses ? inArray(repoScans.status, statuses) : undefined,
+		),
+		orderBy: [desc(repoScans.createdAt)],
+	});
+	return scan ? toRepoAnalysis(scan) : null;
 }
 
-export async function getRepoContextForTicket(_ticketId: string): Promise<
+/**
+ * Files and repository summary for a ticket created from a scan finding
+ */
+export async function getRepoContextForTicket(ticketId: string): Promise<
 	| {
 			files?: string[];
 			summary?: string;
@@ -49,9 +187,27 @@ export async function getRepoContextForTicket(_ticketId: string): Promise<
 	  }
 	| undefined
 > {
-	return undefined;
+	const ticket = await db.query.tickets.findFirst({
+		columns: { provider: true, metadata: true },
+		where: eq(tickets.id, ticketId),
+	});
+	if (ticket?.provider !== "docker") return undefined;
+
+	const metadata = (ticket.metadata ?? {}) as {
+		repoPath?: string;
+		files?: RepoScanFinding["files"];
+	};
+	const scan = metadata.repoPath
+		? await getLatestRepoScan(metadata.repoPath, ["completed"])
+		: null;
+
+	return {
+		files: metadata.files?.map((file) => file.path),
+		summary: scan?.summary,
+		stackInfo: scan?.stackInfo,
+	};
 }
 
 export function isRepoAnalysisAvailable(): boolean {
-	return !!process.env.DOCKER_SOCKET && !!process.env.OPENCODE_IMAGE;
+	return !!process.env.REPO_ANALYSIS_PATH;
 }
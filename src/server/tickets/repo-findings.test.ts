@@ -0,0 +1,103 @@
+import { describe, expect, it } from "bun:test";
+import {
+	findingToExternalTicket,
+	getFindingId,
+	parseRepoScanResponse,
+} from "./repo-findings";
+
+const answer = `Here is the report:
+\`\`\`json
+{
+  "summary": "A ticket dashboard",
+  "stack": "TypeScript, Next.js",
+  "files": ["src/server"],
+  "owners": [],
+  "findings": [
+    {
+      "kind": "todo",
+      "title": "Finish webhook retries",
+      "description": "Retries are a TODO.",
+      "priority": "high",
+      "files": [{ "path": "src/server/webhooks.ts", "line": 40 }]
+    },
+    { "kind": "mystery", "title": "Add tests for sync", "priority": "p0" },
+    { "kind": "bug-risk", "title": "" }
+  ]
+}
+\`\`\``;
+
+describe("parseRepoScanResponse", () => {
+	it("reads a fenced JSON report and tolerates loose findings", () => {
+		const report = parseRepoScanResponse(answer);
+
+		expect(report?.summary).toBe("A ticket dashboard");
+		expect(report?.stackInfo).toBe("TypeScript, Next.js");
+		expect(report?.findings).toEqual([
+			{
+				kind: "todo",
+				title: "Finish webhook retries",
+				description: "Retries are a TODO.",
+				priority: "high",
+				files: [{ path: "src/server/webhooks.ts", line: 40 }],
+			},
+			{
+				kind: "other",
+				title: "Add tests for sync",
+				description: "",
+				priority: "medium",
+				files: [],
+			},
+		]);
+	});
+
+	it("returns null when there is no JSON object", () => {
+		expect(
+			parseRepoScanResponse("I could not read the repository."),
+		).toBeNull();
+	});
+});
+
+describe("findingToExternalTicket", () => {
+	const report = parseRepoScanResponse(answer);
+	const finding = report?.findings[0];
+	if (!finding) throw new Error("fixture did not parse");
+
+	it("keeps file references in the description and metadata", () => {
+		const completedAt = new Date("2026-01-01T00:00:00Z");
+		const ticket = findingToExternalTicket(finding, {
+			repoPath: "/workspace/repo",
+			completedAt,
+		});
+
+		expect(ticket.externalId).toBe(getFindingId(finding));
+		expect(ticket.labels).toEqual(["todo"]);
+		expect(ticket.description).toContain("- `src/server/webhooks.ts:40`");
+		expect(ticket.metadata).toEqual({
+			kind: "todo",
+			files: [{ path: "src/server/webhooks.ts", line: 40 }],
+			repoPath: "/workspace/repo",
+		});
+	});
+
+	it("gives the same finding the same ID across scans", () => {
+		expect(
+			getFindingId({
+				...finding,
+				title: "Finish  webhook RETRIES",
+				description: "",
+			}),
+		).toBe(getFindingId(finding));
+		expect(
+			getFindingId({ ...finding, title: "Add retries to webhook delivery" }),
+		).toBe(getFindingId(finding));
+		expect(getFindingId({ ...finding, files: [] })).not.toBe(
+			getFindingId(finding),
+		);
+		expect(
+			getFindingId({
+				...finding,
+				files: [{ path: "src/server/webhooks.ts", line: 88 }],
+			}),
+		).not.toBe(getFindingId(finding));
+	});
+});
@@ -0,0 +1,171 @@
+import { createHash } from "node:crypto";
+import dedent from "dedent";
+import { z } from "zod";
+import {
+	type RepoFindingKind,
+	type RepoScanFinding,
+	repoFindingKindEnum,
+	ticketPriorityEnum,
+} from "@/server/db/schema";
+import type { ExternalTicket } from "./providers/base";
+
+/** Upper bound on findings kept from one scan */
+export const MAX_REPO_FINDINGS = 25;
+
+const FINDING_LABELS: Record<RepoFindingKind, string> = {
+	todo: "todo",
+	"bug-risk": "bug-risk",
+	"missing-tests": "missing-tests",
+	other: "code-analysis",
+};
+
+/**
+ * Prompt for the analysis agent. The agent works inside the checkout, so
+ * paths in its answer are relative to the repository root.
+ */
+export function buildRepoScanPrompt(repoPath: string): string {
+	return dedent`
+		Analyze the repository checked out at ${repoPath} and report work that deserves a ticket:
+		- TODO, FIXME and HACK comments that describe unfinished work
+		- code patterns likely to fail: unhandled errors, races, unsafe input handling, deprecated APIs
+		- important modules without tests
+
+		Read the code; do not change any files. Report at most ${MAX_REPO_FINDINGS} findings, most important first, and skip trivial ones.
+
+		Answer with a single JSON object and nothing else:
+		{
+		  "summary": "two or three sentences on what the repository does",
+		  "stack": "languages, frameworks and tooling",
+		  "files": ["the most important files or directories"],
+		  "owners": ["people or teams that own the code, from CODEOWNERS or git history, if known"],
+		  "findings": [
+		    {
+		      "kind": "todo | bug-risk | missing-tests | other",
+		      "title": "short imperative ticket title",
+		      "description": "what is wrong and what should be done, in Markdown",
+		      "priority": "low | medium | high | urgent",
+		      "files": [{ "path": "path/relative/to/repo", "line": 42 }]
+		    }
+		  ]
+		}
+	`;
+}
+
+const findingSchema = z.object({
+	kind: z.enum(repoFindingKindEnum).catch("other"),
+	title: z.string().trim().min(1).max(200),
+	description: z.string().trim().default(""),
+	priority: z.enum(ticketPriorityEnum).catch("medium"),
+	files: z
+		.array(
+			z.object({
+				path: z.string().trim().min(1),
+				line: z.number().int().positive().optional().catch(undefined),
+			}),
+		)
+		.catch([]),
+});
+
+const responseSchema = z.object({
+	summary: z.string().catch(""),
+	stack: z.string().catch(""),
+	files: z.array(z.string()).catch([]),
+	owners: z.array(z.string()).catch([]),
+	findings: z.array(z.unknown()).catch([]),
+});
+
+export interface RepoScanReport {
+	summary: string;
+	stackInfo: string;
+	files: string[];
+	potentialOwners: string[];
+	findings: RepoScanFinding[];
+}
+
+/**
+ * Read the agent's answer. Malformed findings are dropped rather than failing
+ * the scan; an answer without a JSON object returns null.
+ */
+export function parseRepoScanResponse(text: string): RepoScanReport | null {
+	const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1];
+	const json =
+		fenced ?? text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch {
+		return null;
+	}
+
+	const parsed = responseSchema.safeParse(data);
+	if (!parsed.success) return null;
+
+	const findings = parsed.data.findings
+		.map((finding) => findingSchema.safeParse(finding))
+		.flatMap((result) => (result.success ? [result.data] : []))
+		.slice(0, MAX_REPO_FINDINGS);
+
+	return {
+		summary: parsed.data.summary.trim(),
+		stackInfo: parsed.data.stack.trim(),
+		files: parsed.data.files,
+		potentialOwners: parsed.data.owners,
+		findings,
+	};
+}
+
+/**
+ * Stable ID for a finding so repeated scans update the same ticket. Built
+ * from where the finding points rather than from the agent's wording, which
+ * changes from one scan to the next; only findings without any file fall
+ * back to their title.
+ */
+export function getFindingId(finding: RepoScanFinding): string {
+	const [file] = finding.files;
+	const location = file
+		? [file.path, file.line ?? ""]
+		: [finding.title.toLowerCase().replace(/\s+/g, " ")];
+	const key = [finding.kind, ...location].join("|");
+	return `scan-${createHash("sha256").update(key).digest("hex").slice(0, 16)}`;
+}
+
+function formatFileRef(file: RepoScanFinding["files"][number]): string {
+	return file.line ? `${file.path}:${file.line}` : file.path;
+}
+
+/**
+ * Turn a finding into a ticket; file references go into the description and
+ * into `metadata.files`
+ */
+export function findingToExternalTicket(
+	finding: RepoScanFinding,
+	scan: { repoPath: string; completedAt: Date },
+): ExternalTicket {
+	const fileList = finding.files
+		.map((file) => `- \`${formatFileRef(file)}\``)
+		.join("\n");
+	const description = [
+		finding.description,
+		fileList ? `**Files**\n\n${fileList}` : "",
+	]
+		.filter(Boolean)
+		.join("\n\n");
+
+	return {
+		externalId: getFindingId(finding),
+		title: finding.title,
+		description: description || null,
+		status: "open",
+		priority: finding.priority,
+		assignee: null,
+		labels: [FINDING_LABELS[finding.kind]],
+		metadata: {
+			kind: finding.kind,
+			files: finding.files,
+			repoPath: scan.repoPath,
+		},
+		createdAt: scan.completedAt,
+		updatedAt: scan.completedAt,
+	};
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "bun:test";
+import { summarizeSprintLoad } from "./sprint-planning";
+
+describe("summarizeSprintLoad", () => {
+	it("totals estimates against capacity", () => {
+		expect(
+			summarizeSprintLoad(
+				[
+					{ estimate: 3 },
+					{ estimate: 5 },
+					{ estimate: null },
+					{ estimate: 0.5 },
+				],
+				8,
+			),
+		).toEqual({ effort: 8.5, unestimated: 1, capacity: 8, remaining: -0.5 });
+	});
+
+	it("leaves remaining capacity open when none is set", () => {
+		expect(summarizeSprintLoad([], null)).toEqual({
+			effort: 0,
+			unestimated: 0,
+			capacity: null,
+			remaining: null,
+		});
+	});
+});
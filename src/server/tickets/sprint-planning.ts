@@ -0,0 +1,32 @@
+import type { tickets } from "@/server/db/schema";
+
+/**
+ * Planned effort of a sprint against the team's capacity, in story points
+ */
+export interface SprintLoad {
+	/** Sum of the estimates of the sprint's tickets */
+	effort: number;
+	/** Tickets without an estimate, not counted in `effort` */
+	unestimated: number;
+	capacity: number | null;
+	/** Capacity left; negative when the sprint is overcommitted */
+	remaining: number | null;
+}
+
+export function summarizeSprintLoad(
+	sprintTickets: Pick<typeof tickets.$inferSelect, "estimate">[],
+	capacity: number | null,
+): SprintLoad {
+	let effort = 0;
+	let unestimated = 0;
+	for (const ticket of sprintTickets) {
+		if (ticket.estimate === null) unestimated++;
+		else effort += ticket.estimate;
+	}
+	return {
+		effort,
+		unestimated,
+		capacity,
+		remaining: capacity === null ? null : capacity - effort,
+	};
+}
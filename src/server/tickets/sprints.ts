@@ -0,0 +1,241 @@
+import { and, asc, count, desc, eq, sql } from "drizzle-orm";
+import { db } from "@/server/db";
+import {
+	type SprintState,
+	type SprintTicketSource,
+	sprints,
+	sprintTickets,
+	tickets,
+} from "@/server/db/schema";
+import { type SprintLoad, summarizeSprintLoad } from "./sprint-planning";
+
+type Sprint = typeof sprints.$inferSelect;
+type Ticket = typeof tickets.$inferSelect;
+
+/**
+ * Sprint fields that can be set when planning
+ */
+export interface SprintInput {
+	name: string;
+	goal?: string | null;
+	state?: SprintState;
+	startDate?: Date | null;
+	endDate?: Date | null;
+	capacity?: number | null;
+}
+
+export type SprintSummary = Sprint & {
+	connection: { name: string } | null;
+	ticketCount: number;
+};
+
+export type SprintPlanTicket = Ticket & {
+	position: number;
+	source: SprintTicketSource;
+};
+
+export type SprintPlan = SprintSummary & {
+	tickets: SprintPlanTicket[];
+	load: SprintLoad;
+};
+
+/** Active sprints first, then upcoming ones by start date, closed ones last */
+const SPRINT_STATE_ORDER = sql`case ${sprints.state} when 'active' then 0 when 'future' then 1 else 2 end`;
+
+/**
+ * List sprints with the number of tickets in each
+ */
+export async function listSprints(): Promise<SprintSummary[]> {
+	const [rows, counts] = await Promise.all([
+		db.query.sprints.findMany({
+			with: { connection: { columns: { name: true } } },
+			orderBy: [
+				asc(SPRINT_STATE_ORDER),
+				asc(sprints.startDate),
+				desc(sprints.createdAt),
+			],
+		}),
+		db
+			.select({ sprintId: sprintTickets.sprintId, count: count() })
+			.from(sprintTickets)
+			.groupBy(sprintTickets.sprintId),
+	]);
+
+	const countBySprint = new Map(counts.map((row) => [row.sprintId, row.count]));
+	return rows.map((sprint) => ({
+		...sprint,
+		ticketCount: countBySprint.get(sprint.id) ?? 0,
+	}));
+}
+
+/**
+ * A sprint with its tickets in plan order and their effort against its
+ * capacity; null when the sprint does not exist
+ */
+export async function getSprintPlan(id: string): Promise<SprintPlan | null> {
+	const sprint = await db.query.sprints.findFirst({
+		where: eq(sprints.id, id),
+		with: { connection: { columns: { name: true } } },
+	});
+	if (!sprint) return null;
+
+	const rows = await db
+		.select({
+			ticket: tickets,
+			position: sprintTickets.position,
+			source: sprintTickets.source,
+		})
+		.from(sprintTickets)
+		.innerJoin(tickets, eq(tickets.id, sprintTickets.ticketId))
+		.where(eq(sprintTickets.sprintId, id))
+		.orderBy(asc(sprintTickets.position), asc(sprintTickets.addedAt));
+
+	const planTickets = rows.map((row) => ({
+		...row.ticket,
+		position: row.position,
+		source: row.source,
+	}));
+	return {
+		...sprint,
+		ticketCount: planTickets.length,
+		tickets: planTickets,
+		load: summarizeSprintLoad(planTickets, sprint.capacity),
+	};
+}
+
+function assertValidDates(input: Partial<SprintInput>): void {
+	if (input.startDate && input.endDate && input.endDate < input.startDate) {
+		throw new Error("The sprint cannot end before it starts");
+	}
+}
+
+/**
+ * Create a sprint planned here
+ */
+export async function createSprint(input: SprintInput): Promise<Sprint> {
+	assertValidDates(input);
+
+	const [created] = await db.insert(sprints).values(input).returning();
+	if (!created) {
+		throw new Error("Failed to create sprint");
+	}
+	return created;
+}
+
+/**
+ * Change a sprint. Synced sprints are owned by their provider, so only their
+ * capacity can change here. Returns null when the sprint does not exist.
+ */
+export async function updateSprint(
+	id: string,
+	changes: Partial<SprintInput>,
+): Promise<Sprint | null> {
+	const existing = await db.query.sprints.findFirst({
+		where: eq(sprints.id, id),
+	});
+	if (!existing) return null;
+
+	if (
+		existing.connectionId &&
+		Object.keys(changes).some((field) => field !== "capacity")
+	) {
+		throw new Error(
+			`"${existing.name}" is synced from its provider; only its capacity can be changed here`,
+		);
+	}
+	assertValidDates({
+		startDate: changes.startDate ?? existing.startDate,
+		endDate: changes.endDate ?? existing.endDate,
+	});
+
+	const [updated] = await db
+		.update(sprints)
+		.set(changes)
+		.where(eq(sprints.id, id))
+		.returning();
+	return updated ?? null;
+}
+
+/**
+ * Delete a sprint planned here; its tickets stay in the backlog. Returns
+ * false when the sprint does not exist.
+ */
+export async function deleteSprint(id: string): Promise<boolean> {
+	const existing = await db.query.sprints.findFirst({
+		columns: { connectionId: true, name: true },
+		where: eq(sprints.id, id),
+	});
+	if (!existing) return false;
+
+	// The next sync would bring it back
+	if (existing.connectionId) {
+		throw new Error(
+			`"${existing.name}" is synced from its provider and cannot be deleted here`,
+		);
+	}
+
+	await db.delete(sprints).where(eq(sprints.id, id));
+	return true;
+}
+
+/**
+ * Position after the last ticket of a sprint
+ */
+export async function getNextSprintPosition(sprintId: string): Promise<number> {
+	const [row] = await db
+		.select({ last: sql<number | null>`max(${sprintTickets.position})` })
+		.from(sprintTickets)
+		.where(eq(sprintTickets.sprintId, sprintId));
+	return (row?.last ?? -1) + 1;
+}
+
+/**
+ * Plan a ticket into a sprint, after the tickets already in it. Returns false
+ * when the sprint or the ticket does not exist.
+ */
+export async function addTicketToSprint(
+	sprintId: string,
+	ticketId: string,
+): Promise<boolean> {
+	const [sprint, ticket] = await Promise.all([
+		db.query.sprints.findFirst({
+			columns: { id: true },
+			where: eq(sprints.id, sprintId),
+		}),
+		db.query.tickets.findFirst({
+			columns: { id: true },
+			where: eq(tickets.id, ticketId),
+		}),
+	]);
+	if (!sprint || !ticket) return false;
+
+	await db
+		.insert(sprintTickets)
+		.values({
+			sprintId,
+			ticketId,
+			source: "local",
+			position: await getNextSprintPosition(sprintId),
+		})
+		.onConflictDoNothing();
+	return true;
+}
+
+/**
+ * Take a ticket out of a sprint; returns false when it was not in it
+ */
+export async function removeTicketFromSprint(
+	sprintId: string,
+	ticketId: string,
+): Promise<boolean> {
+	const removed = await db
+		.delete(sprintTickets)
+		.where(
+			and(
+				eq(sprintTickets.sprintId, sprintId),
+				eq(sprintTickets.ticketId, ticketId),
+			),
+		)
+		.returning({ id: sprintTickets.id });
+	return removed.length > 0;
+}
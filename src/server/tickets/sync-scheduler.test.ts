@@ -0,0 +1,120 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	mock,
+	spyOn,
+} from "bun:test";
+
+interface TestConnection {
+	id: string;
+	name: string;
+	provider: string;
+}
+
+let connections: TestConnection[] = [];
+let finishSync: (() => void) | null = null;
+const syncConnection = mock(
+	() =>
+		new Promise<{ errors: string[] }>((resolve) => {
+			finishSync = () => resolve({ errors: [] });
+		}),
+);
+
+mock.module("@/server/db", () => ({
+	db: { query: { providerConnections: { findMany: async () => [] } } },
+}));
+mock.module("./provider-registry", () => ({
+	getProviderRegistry: async () => ({
+		getConfiguredConnections: () =>
+			connections.map((connection) => ({ connection })),
+	}),
+}));
+mock.module("./sync", () => ({
+	isConnectionSyncRunning: () => false,
+	syncConnection,
+}));
+
+const { SyncScheduler } = await import("./sync-scheduler");
+
+/** Pending timers by ID, fired by hand instead of waiting for them */
+const timers = new Map<number, () => void>();
+let nextTimerId = 1;
+
+function fireTimers(): Promise<void>[] {
+	const callbacks = Array.from(timers.values());
+	timers.clear();
+	return callbacks.map(async (callback) => callback());
+}
+
+describe("SyncScheduler", () => {
+	const env = { ...process.env };
+
+	beforeEach(() => {
+		process.env.SYNC_INTERVAL_MINUTES = "5";
+		process.env.SYNC_PROVIDER_INTERVALS = "";
+		connections = [{ id: "jira-1", name: "Jira", provider: "jira" }];
+		timers.clear();
+		syncConnection.mockClear();
+		spyOn(globalThis, "setTimeout").mockImplementation(((
+			callback: () => void,
+		) => {
+			const id = nextTimerId++;
+			timers.set(id, callback);
+			return { id, unref: () => {} };
+		}) as unknown as typeof setTimeout);
+		spyOn(globalThis, "clearTimeout").mockImplementation(((timer: {
+			id: number;
+		}) => {
+			timers.delete(timer.id);
+		}) as unknown as typeof clearTimeout);
+	});
+
+	afterEach(() => {
+		process.env = { ...env };
+		mock.restore();
+	});
+
+	it("does not double up timers when restarted during a sync", async () => {
+		const scheduler = new SyncScheduler();
+		await scheduler.start();
+		expect(timers.size).toBe(1);
+
+		fireTimers();
+		await Bun.sleep(0);
+		expect(syncConnection).toHaveBeenCalledTimes(1);
+
+		await scheduler.restart();
+		finishSync?.();
+		await Bun.sleep(0);
+
+		expect(timers.size).toBe(1);
+		scheduler.stop();
+		expect(timers.size).toBe(0);
+	});
+
+	it("keeps the next run of connections whose interval did not change", async () => {
+		const scheduler = new SyncScheduler();
+		await scheduler.start();
+		const [before] = await scheduler.getStatus();
+
+		connections.push({ id: "linear-1", name: "Linear", provider: "linear" });
+		process.env.SYNC_PROVIDER_INTERVALS = "linear=15";
+		await scheduler.restart();
+
+		const status = await scheduler.getStatus();
+		expect(status.map((s) => [s.connectionId, s.intervalMinutes])).toEqual([
+			["jira-1", 5],
+			["linear-1", 15],
+		]);
+		expect(status[0]?.nextRunAt).toBe(before?.nextRunAt ?? null);
+		expect(timers.size).toBe(2);
+
+		connections = [];
+		await scheduler.restart();
+		expect(await scheduler.getStatus()).toEqual([]);
+		expect(timers.size).toBe(0);
+	});
+});
@@ -0,0 +1,241 @@
+import { inArray } from "drizzle-orm";
+import { db } from "@/server/db";
+import { providerConnections, type TicketProvider } from "@/server/db/schema";
+import { getProviderRegistry } from "./provider-registry";
+import { isConnectionSyncRunning, syncConnection } from "./sync";
+
+export interface ProviderScheduleStatus {
+	provider: TicketProvider;
+	connectionId: string;
+	connectionName: string;
+	intervalMinutes: number;
+	paused: boolean;
+	running: boolean;
+	nextRunAt: Date | null;
+	lastRunAt: Date | null;
+	lastRunErrors: number | null;
+}
+
+interface ScheduledConnection {
+	provider: TicketProvider;
+	name: string;
+	intervalMs: number;
+	timer: ReturnType<typeof setTimeout> | null;
+	nextRunAt: Date | null;
+	lastRunAt: Date | null;
+	lastRunErrors: number | null;
+}
+
+/** Spread of each delay (±10%) so connections do not all fire together */
+const SCHEDULE_JITTER_RATIO = 0.1;
+
+/**
+ * Parse "jira=5,linear=15" into per-provider intervals in minutes
+ */
+function parseProviderIntervals(
+	value: string | undefined,
+): Partial<Record<TicketProvider, number>> {
+	const intervals: Partial<Record<TicketProvider, number>> = {};
+	for (const entry of (value ?? "").split(",")) {
+		const [key, minutes] = entry.split("=").map((part) => part.trim());
+		const parsed = Number(minutes);
+		if (key && Number.isFinite(parsed) && parsed > 0) {
+			intervals[key] = parsed;
+		}
+	}
+	return intervals;
+}
+
+/**
+ * Runs `syncConnection` for each configured connection on its own interval.
+ *
+ * SYNC_INTERVAL_MINUTES sets the default interval and SYNC_PROVIDER_INTERVALS
+ * overrides it per provider type; connections without an interval are not
+ * scheduled. Paused connections keep their timer but skip the sync.
+ */
+export class SyncScheduler {
+	/** Scheduled connections keyed by connection ID */
+	private scheduled = new Map<string, ScheduledConnection>();
+	private starting: Promise<void> | null = null;
+
+	get isStarted(): boolean {
+		return this.scheduled.size > 0;
+	}
+
+	start(): Promise<void> {
+		if (this.isStarted) return Promise.resolve();
+		if (!this.starting) {
+			this.starting = this.scheduleConnections().finally(() => {
+				this.starting = null;
+			});
+		}
+		return this.starting;
+	}
+
+	/**
+	 * Reschedule from the current connections, e.g. after one was added.
+	 * Connections whose interval did not change keep their next run.
+	 */
+	async restart(): Promise<void> {
+		await this.starting;
+		this.starting = this.scheduleConnections().finally(() => {
+			this.starting = null;
+		});
+		await this.starting;
+	}
+
+	private async scheduleConnections(): Promise<void> {
+		const defaultMinutes = Number(process.env.SYNC_INTERVAL_MINUTES);
+		const overrides = parseProviderIntervals(
+			process.env.SYNC_PROVIDER_INTERVALS,
+		);
+		const registry = await getProviderRegistry();
+		const wanted = new Set<string>();
+
+		for (const { connection } of registry.getConfiguredConnections()) {
+			const minutes =
+				overrides[connection.provider] ??
+				(defaultMinutes > 0 ? defaultMinutes : null);
+			if (!minutes) continue;
+
+			wanted.add(connection.id);
+			const intervalMs = minutes * 60_000;
+			const existing = this.scheduled.get(connection.id);
+			if (existing) {
+				existing.provider = connection.provider;
+				existing.name = connection.name;
+				if (existing.intervalMs === intervalMs) continue;
+				existing.intervalMs = intervalMs;
+			} else {
+				this.scheduled.set(connection.id, {
+					provider: connection.provider,
+					name: connection.name,
+					intervalMs,
+					timer: null,
+					nextRunAt: null,
+					lastRunAt: null,
+					lastRunErrors: null,
+				});
+			}
+			this.scheduleNext(connection.id);
+		}
+
+		for (const [id, entry] of this.scheduled) {
+			if (wanted.has(id)) continue;
+			if (entry.timer) clearTimeout(entry.timer);
+			this.scheduled.delete(id);
+		}
+
+		if (this.isStarted) {
+			console.log(
+				`[sync-scheduler] Scheduled ${Array.from(this.scheduled.values(), (entry) => entry.name).join(", ")}`,
+			);
+		}
+	}
+
+	stop(): void {
+		for (const entry of this.scheduled.values()) {
+			if (entry.timer) clearTimeout(entry.timer);
+		}
+		this.scheduled.clear();
+	}
+
+	async getStatus(): Promise<ProviderScheduleStatus[]> {
+		const pausedConnections = await getPausedConnections();
+
+		return Array.from(this.scheduled.entries()).map(([id, entry]) => ({
+			provider: entry.provider,
+			connectionId: id,
+			connectionName: entry.name,
+			intervalMinutes: entry.intervalMs / 60_000,
+			paused: pausedConnections.has(id),
+			running: isConnectionSyncRunning(id),
+			nextRunAt: entry.nextRunAt,
+			lastRunAt: entry.lastRunAt,
+			lastRunErrors: entry.lastRunErrors,
+		}));
+	}
+
+	private scheduleNext(key: string): void {
+		const entry = this.scheduled.get(key);
+		if (!entry) return;
+
+		const jitter =
+			entry.intervalMs * SCHEDULE_JITTER_RATIO * (Math.random() * 2 - 1);
+		const delay = Math.round(entry.intervalMs + jitter);
+
+		// Replace rather than add to a pending run, e.g. when the interval
+		// changed while a sync was in progress
+		if (entry.timer) clearTimeout(entry.timer);
+		entry.nextRunAt = new Date(Date.now() + delay);
+		entry.timer = setTimeout(() => {
+			void this.run(key);
+		}, delay);
+		// Never keep the process alive just for the next sync
+		entry.timer.unref?.();
+	}
+
+	private async run(key: string): Promise<void> {
+		const entry = this.scheduled.get(key);
+		if (!entry) return;
+		entry.timer = null;
+
+		try {
+			const pausedConnections = await getPausedConnections();
+			// A manual sync in progress already covers this slot
+			if (!pausedConnections.has(key) && !isConnectionSyncRunning(key)) {
+				entry.lastRunAt = new Date();
+				const result = await syncConnection(key);
+				entry.lastRunErrors = result?.errors.length ?? null;
+			}
+		} catch (error) {
+			console.error(
+				`[sync-scheduler] Scheduled sync of ${entry.name} failed:`,
+				error,
+			);
+		} finally {
+			// The connection may have been removed, or removed and added again,
+			// while the sync ran; its current entry schedules itself
+			if (this.scheduled.get(key) === entry) this.scheduleNext(key);
+		}
+	}
+}
+
+/**
+ * IDs of connections whose scheduled syncs are paused
+ */
+async function getPausedConnections(): Promise<Set<string>> {
+	const states = await db.query.providerConnections.findMany({
+		columns: { id: true, schedulePaused: true },
+	});
+	return new Set(states.filter((s) => s.schedulePaused).map((s) => s.id));
+}
+
+/**
+ * Pause or resume scheduled syncs for the given connections
+ */
+export async function setSchedulePaused(
+	connectionIds: string[],
+	paused: boolean,
+): Promise<void> {
+	if (connectionIds.length === 0) return;
+	await db
+		.update(providerConnections)
+		.set({ schedulePaused: paused })
+		.where(inArray(providerConnections.id, connectionIds));
+}
+
+/**
+ * Cache the scheduler across HMR updates in development so timers are not
+ * started twice
+ */
+const globalForScheduler = globalThis as unknown as {
+	syncScheduler: SyncScheduler | undefined;
+};
+
+export function getSyncScheduler(): SyncScheduler {
+	if (!globalForScheduler.syncScheduler) {
+		globalForScheduler.syncScheduler = new SyncScheduler();
+	}
+	return globalForScheduler.syncScheduler;
+}
@@ -1,13 +1,62 @@
-import { eq } from "drizzle-orm";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
 import { db } from "@/server/db";
-import { type TicketProvider, tickets } from "@/server/db/schema";
-import { getProviderRegistry } from "./provider-registry";
-import type { ExternalTicket } from "./providers";
+import {
+	providerConnections,
+	type SyncConflictResolution,
+	sprints,
+	sprintTickets,
+	syncRuns,
+	type TicketProvider,
+	ticketComments,
+	ticketLinks,
+	ticketSyncConflicts,
+	tickets,
+} from "@/server/db/schema";
+import {
+	type ConflictStrategy,
+	type FieldConflict,
+	getConflictStrategy,
+	hasTicketChanged,
+	mergeProviderChanges,
+	toSyncedFields,
+} from "./conflicts";
+import {
+	type ConnectedProvider,
+	getProviderRegistry,
+	type ProviderConnection,
+} from "./provider-registry";
+import {
+	type ExternalComment,
+	type ExternalSprint,
+	type ExternalTicket,
+	type ExternalTicketLink,
+	isCompleteListing,
+} from "./providers";
+import { getNextSprintPosition } from "./sprints";
+import type { ImportedTicket } from "./ticket-import";
+import { applyValueMappings, recordUnmappedValues } from "./value-mappings";
+import { pushTicketChanges } from "./write-back";
 
 export interface SyncResult {
 	provider: TicketProvider;
+	connectionId: string;
+	connectionName: string;
 	created: number;
 	updated: number;
+	/** Existing tickets whose provider data had not changed */
+	unchanged: number;
+	/** Tickets returned by the provider */
+	fetched: number;
+	/** API pages requested from the provider */
+	pages: number;
+	/** Whether only tickets changed since the last watermark were requested */
+	incremental: boolean;
+	/** External IDs no longer returned by the provider in a full sync */
+	orphaned: string[];
+	/** What was done with the orphaned tickets */
+	orphanPolicy: OrphanPolicy;
+	/** Fields changed both locally and in the provider */
+	conflicts: number;
 	errors: string[];
 }
 
@@ -15,39 +64,404 @@ export interface FullSyncResult {
 	results: SyncResult[];
 	totalCreated: number;
 	totalUpdated: number;
+	totalFetched: number;
+	totalOrphaned: number;
+	totalConflicts: number;
 	totalErrors: number;
 }
 
 /**
- * Sync tickets from a single provider into the database
+ * How to treat local tickets that a full sync no longer sees in the provider
+ * (deleted at the source or moved out of the configured scope)
  */
-async function syncProviderTickets(
-	providerKey: TicketProvider,
-	externalTickets: ExternalTicket[],
-): Promise<SyncResult> {
-	const result: SyncResult = {
-		provider: providerKey,
+export const orphanPolicyEnum = ["archive", "delete", "keep"] as const;
+export type OrphanPolicy = (typeof orphanPolicyEnum)[number];
+
+export interface SyncOptions {
+	/** Ignore the stored watermark and fetch every ticket */
+	full?: boolean;
+	/** Overrides SYNC_ORPHAN_POLICY for this sync */
+	orphanPolicy?: OrphanPolicy;
+	/** Overrides SYNC_CONFLICT_STRATEGY for this sync */
+	conflictStrategy?: ConflictStrategy;
+}
+
+type Ticket = typeof tickets.$inferSelect;
+
+/** The connection tickets are synced from */
+export type SyncConnection = Pick<
+	ProviderConnection,
+	"id" | "name" | "provider"
+>;
+
+/**
+ * Overlap subtracted from the watermark so tickets updated while the previous
+ * sync was running, or affected by small clock skew, are not missed
+ */
+const WATERMARK_OVERLAP_MS = 60_000;
+
+/** Keeps `IN (...)` lists well below SQLite's bound parameter limit */
+const EXISTING_LOOKUP_CHUNK_SIZE = 500;
+
+/** Connections with a sync in progress; a connection is never synced twice at once */
+const runningSyncs = new Set<string>();
+
+function createSyncResult(
+	connection: SyncConnection,
+	errors: string[] = [],
+): SyncResult {
+	return {
+		provider: connection.provider,
+		connectionId: connection.id,
+		connectionName: connection.name,
 		created: 0,
 		updated: 0,
-		errors: [],
+		unchanged: 0,
+		fetched: 0,
+		pages: 0,
+		incremental: false,
+		orphaned: [],
+		orphanPolicy: "keep",
+		conflicts: 0,
+		errors,
 	};
+}
+
+/**
+ * Orphan policy from the environment, defaulting to archive
+ */
+export function getOrphanPolicy(): OrphanPolicy {
+	const policy = process.env.SYNC_ORPHAN_POLICY as OrphanPolicy | undefined;
+	return policy && orphanPolicyEnum.includes(policy) ? policy : "archive";
+}
+
+/**
+ * Load existing tickets of a connection keyed by external ID
+ */
+async function loadExistingTickets(
+	connectionId: string,
+	externalIds: string[],
+): Promise<Map<string, Ticket>> {
+	const existing = new Map<string, Ticket>();
+
+	for (let i = 0; i < externalIds.length; i += EXISTING_LOOKUP_CHUNK_SIZE) {
+		const chunk = externalIds.slice(i, i + EXISTING_LOOKUP_CHUNK_SIZE);
+		const rows = await db.query.tickets.findMany({
+			where: and(
+				eq(tickets.connectionId, connectionId),
+				inArray(tickets.externalId, chunk),
+			),
+		});
+		for (const row of rows) {
+			if (row.externalId) existing.set(row.externalId, row);
+		}
+	}
+
+	return existing;
+}
+
+/**
+ * Store detected conflicts. Under the manual strategy they stay open (one per
+ * field, refreshed with the latest values); otherwise they are recorded as
+ * already resolved by the strategy.
+ */
+async function recordConflicts(
+	ticketId: string,
+	conflicts: FieldConflict[],
+	strategy: ConflictStrategy,
+): Promise<void> {
+	const now = new Date();
+	const resolution =
+		strategy === "manual"
+			? {}
+			: {
+					status: "resolved" as const,
+					resolution: (strategy === "local-wins"
+						? "local"
+						: "provider") as SyncConflictResolution,
+					resolvedAt: now,
+				};
+
+	for (const conflict of conflicts) {
+		const open = await db.query.ticketSyncConflicts.findFirst({
+			where: and(
+				eq(ticketSyncConflicts.ticketId, ticketId),
+				eq(ticketSyncConflicts.field, conflict.field),
+				eq(ticketSyncConflicts.status, "open"),
+			),
+		});
+
+		const values = {
+			localValue: conflict.localValue,
+			providerValue: conflict.providerValue,
+			detectedAt: now,
+			...resolution,
+		};
+
+		if (open) {
+			await db
+				.update(ticketSyncConflicts)
+				.set(values)
+				.where(eq(ticketSyncConflicts.id, open.id));
+		} else {
+			await db
+				.insert(ticketSyncConflicts)
+				.values({ ticketId, field: conflict.field, ...values });
+		}
+	}
+}
+
+function toSeconds(date: Date | null): number | null {
+	return date ? Math.floor(date.getTime() / 1000) : null;
+}
+
+/**
+ * Insert new provider comments and update edited ones. Comments missing
+ * from the provider response are kept, since providers only return the
+ * most recent ones.
+ */
+async function syncTicketComments(
+	ticketId: string,
+	comments: ExternalComment[],
+): Promise<void> {
+	if (comments.length === 0) return;
+
+	const stored = await db.query.ticketComments.findMany({
+		where: eq(ticketComments.ticketId, ticketId),
+	});
+	const storedByExternalId = new Map(stored.map((c) => [c.externalId, c]));
+
+	for (const comment of comments) {
+		const existing = storedByExternalId.get(comment.externalId);
+		if (
+			existing &&
+			existing.body === comment.body &&
+			existing.author === comment.author &&
+			// Timestamps are stored with second precision
+			toSeconds(existing.updatedAt) === toSeconds(comment.updatedAt)
+		) {
+			continue;
+		}
+
+		const values = {
+			author: comment.author,
+			body: comment.body,
+			createdAt: comment.createdAt,
+			updatedAt: comment.updatedAt,
+		};
+
+		if (existing) {
+			await db
+				.update(ticketComments)
+				.set(values)
+				.where(eq(ticketComments.id, existing.id));
+		} else {
+			await db
+				.insert(ticketComments)
+				.values({ ticketId, externalId: comment.externalId, ...values });
+		}
+	}
+}
+
+/**
+ * Replace the stored links of a ticket with the provider's current set,
+ * leaving unchanged links in place
+ */
+async function syncTicketLinks(
+	ticketId: string,
+	links: ExternalTicketLink[],
+): Promise<void> {
+	const linkKey = (link: ExternalTicketLink) =>
+		`${link.type}:${link.targetExternalId}`;
+	// Several provider relation types can map to the same link type
+	const wanted = new Map(links.map((link) => [linkKey(link), link]));
+
+	const stored = await db.query.ticketLinks.findMany({
+		where: eq(ticketLinks.ticketId, ticketId),
+	});
+	const removed = stored.filter((link) => !wanted.has(linkKey(link)));
+	for (const link of stored) wanted.delete(linkKey(link));
+
+	if (removed.length > 0) {
+		await db.delete(ticketLinks).where(
+			inArray(
+				ticketLinks.id,
+				removed.map((link) => link.id),
+			),
+		);
+	}
+	if (wanted.size > 0) {
+		await db
+			.insert(ticketLinks)
+			.values([...wanted.values()].map((link) => ({ ticketId, ...link })));
+	}
+}
+
+/**
+ * Create or update a provider sprint of a connection
+ */
+async function upsertSprint(
+	connectionId: string,
+	sprint: ExternalSprint,
+): Promise<string> {
+	const values = {
+		name: sprint.name,
+		goal: sprint.goal,
+		state: sprint.state,
+		startDate: sprint.startDate,
+		endDate: sprint.endDate,
+	};
+	const [row] = await db
+		.insert(sprints)
+		.values({ connectionId, externalId: sprint.externalId, ...values })
+		.onConflictDoUpdate({
+			target: [sprints.connectionId, sprints.externalId],
+			set: values,
+		})
+		.returning({ id: sprints.id });
+	if (!row) {
+		throw new Error(`Could not store sprint ${sprint.name}`);
+	}
+	return row.id;
+}
+
+/**
+ * Match the provider sprints a ticket belongs to. Only memberships added by
+ * sync are removed; tickets planned into a sprint here stay in it.
+ */
+async function syncTicketSprints(
+	connectionId: string,
+	ticketId: string,
+	ticketSprints: ExternalSprint[],
+	sprintIds: Map<string, string>,
+): Promise<void> {
+	const wanted = new Set<string>();
+	for (const sprint of ticketSprints) {
+		let sprintId = sprintIds.get(sprint.externalId);
+		if (!sprintId) {
+			sprintId = await upsertSprint(connectionId, sprint);
+			sprintIds.set(sprint.externalId, sprintId);
+		}
+		wanted.add(sprintId);
+	}
+
+	const stored = await db
+		.select({
+			id: sprintTickets.id,
+			sprintId: sprintTickets.sprintId,
+			source: sprintTickets.source,
+		})
+		.from(sprintTickets)
+		.innerJoin(sprints, eq(sprints.id, sprintTickets.sprintId))
+		.where(
+			and(
+				eq(sprintTickets.ticketId, ticketId),
+				eq(sprints.connectionId, connectionId),
+			),
+		);
+
+	const removed = stored.filter(
+		(row) => row.source === "provider" && !wanted.has(row.sprintId),
+	);
+	if (removed.length > 0) {
+		await db.delete(sprintTickets).where(
+			inArray(
+				sprintTickets.id,
+				removed.map((row) => row.id),
+			),
+		);
+	}
+
+	for (const sprintId of wanted) {
+		const existing = stored.find((row) => row.sprintId === sprintId);
+		if (existing) {
+			// Planned here and since confirmed by the provider
+			if (existing.source === "local") {
+				await db
+					.update(sprintTickets)
+					.set({ source: "provider" })
+					.where(eq(sprintTickets.id, existing.id));
+			}
+			continue;
+		}
+		await db.insert(sprintTickets).values({
+			sprintId,
+			ticketId,
+			source: "provider",
+			position: await getNextSprintPosition(sprintId),
+		});
+	}
+}
+
+/**
+ * Write tickets from a single connection into the database, creating new
+ * ones and updating those whose provider data changed
+ */
+export async function syncProviderTickets(
+	connection: SyncConnection,
+	externalTickets: ExternalTicket[],
+	conflictStrategy: ConflictStrategy = getConflictStrategy(),
+): Promise<SyncResult> {
+	const result = createSyncResult(connection);
+	result.fetched = externalTickets.length;
+
+	const existingTickets = await loadExistingTickets(
+		connection.id,
+		externalTickets.map((t) => t.externalId),
+	);
+	// Local sprint IDs by external ID, each sprint written once per sync
+	const sprintIds = new Map<string, string>();
 
 	for (const externalTicket of externalTickets) {
 		try {
-			// Check if ticket already exists
-			const existing = await db.query.tickets.findFirst({
-				where: (t, { and, eq }) =>
-					and(
-						eq(t.externalId, externalTicket.externalId),
-						eq(t.provider, providerKey),
-					),
-			});
+			const existing = existingTickets.get(externalTicket.externalId);
+			let ticketId: string;
 
 			if (existing) {
-				// Update existing ticket
-				await db
-					.update(tickets)
-					.set({
+				ticketId = existing.id;
+				const providerFields = toSyncedFields(externalTicket);
+				const merge = mergeProviderChanges(
+					existing.syncedFields,
+					toSyncedFields(existing),
+					providerFields,
+					conflictStrategy,
+				);
+
+				if (!hasTicketChanged(existing, merge.values, externalTicket)) {
+					result.unchanged++;
+				} else {
+					// Update existing ticket
+					await db
+						.update(tickets)
+						.set({
+							...merge.values,
+							metadata: externalTicket.metadata,
+							parentExternalId: externalTicket.parentExternalId,
+							estimate: externalTicket.estimate,
+							syncedFields: providerFields,
+							lastSyncedAt: new Date(),
+							archivedAt: null,
+						})
+						.where(eq(tickets.id, existing.id));
+					result.updated++;
+
+					if (merge.conflicts.length > 0) {
+						await recordConflicts(
+							existing.id,
+							merge.conflicts,
+							conflictStrategy,
+						);
+						result.conflicts += merge.conflicts.length;
+					}
+				}
+			} else {
+				// Create new ticket
+				const [created] = await db
+					.insert(tickets)
+					.values({
+						externalId: externalTicket.externalId,
+						provider: connection.provider,
+						connectionId: connection.id,
 						title: externalTicket.title,
 						description: externalTicket.description,
 						status: externalTicket.status,
@@ -55,27 +469,36 @@ async function syncProviderTickets(
 						assignee: externalTicket.assignee,
 						labels: externalTicket.labels,
 						metadata: externalTicket.metadata,
+						parentExternalId: externalTicket.parentExternalId,
+						estimate: externalTicket.estimate,
+						syncedFields: toSyncedFields(externalTicket),
+						createdAt: externalTicket.createdAt,
 						lastSyncedAt: new Date(),
 					})
-					.where(eq(tickets.id, existing.id));
-				result.updated++;
-			} else {
-				// Create new ticket
-				await db.insert(tickets).values({
-					externalId: externalTicket.externalId,
-					provider: providerKey,
-					title: externalTicket.title,
-					description: externalTicket.description,
-					status: externalTicket.status,
-					priority: externalTicket.priority,
-					assignee: externalTicket.assignee,
-					labels: externalTicket.labels,
-					metadata: externalTicket.metadata,
-					createdAt: externalTicket.createdAt,
-					lastSyncedAt: new Date(),
-				});
+					.returning({ id: tickets.id });
+				if (!created) {
+					throw new Error("Insert returned no row");
+				}
+				ticketId = created.id;
 				result.created++;
 			}
+
+			// Comments, links and sprints change without touching ticket fields, so
+			// always compare
+			if (externalTicket.comments) {
+				await syncTicketComments(ticketId, externalTicket.comments);
+			}
+			if (externalTicket.links) {
+				await syncTicketLinks(ticketId, externalTicket.links);
+			}
+			if (externalTicket.sprints) {
+				await syncTicketSprints(
+					connection.id,
+					ticketId,
+					externalTicket.sprints,
+					sprintIds,
+				);
+			}
 		} catch (error) {
 			const message = error instanceof Error ? error.message : String(error);
 			result.errors.push(
@@ -88,71 +511,339 @@ async function syncProviderTickets(
 }
 
 /**
- * Sync tickets from all configured providers
+ * Apply the orphan policy to the given tickets of a connection
  */
-export async function syncAllProviders(): Promise<FullSyncResult> {
-	const registry = getProviderRegistry();
-	const configuredProviders = registry.getConfiguredProviders();
+export async function applyOrphanPolicy(
+	connectionId: string,
+	externalIds: string[],
+	policy: OrphanPolicy,
+): Promise<void> {
+	if (policy === "keep") return;
 
-	const results: SyncResult[] = [];
+	for (let i = 0; i < externalIds.length; i += EXISTING_LOOKUP_CHUNK_SIZE) {
+		const chunk = externalIds.slice(i, i + EXISTING_LOOKUP_CHUNK_SIZE);
+		const where = and(
+			eq(tickets.connectionId, connectionId),
+			inArray(tickets.externalId, chunk),
+		);
+
+		if (policy === "delete") {
+			await db.delete(tickets).where(where);
+		} else {
+			await db
+				.update(tickets)
+				.set({ archivedAt: new Date() })
+				.where(and(where, isNull(tickets.archivedAt)));
+		}
+	}
+}
 
-	for (const provider of configuredProviders) {
+/**
+ * Find active local tickets of a connection that a full sync did not return
+ * and apply the orphan policy to them
+ */
+async function reconcileOrphans(
+	connectionId: string,
+	seenExternalIds: Set<string>,
+	policy: OrphanPolicy,
+): Promise<string[]> {
+	const activeTickets = await db.query.tickets.findMany({
+		columns: { externalId: true },
+		where: and(
+			eq(tickets.connectionId, connectionId),
+			isNull(tickets.archivedAt),
+		),
+	});
+
+	const orphaned = activeTickets
+		.map((t) => t.externalId)
+		.filter((id): id is string => !!id && !seenExternalIds.has(id));
+
+	await applyOrphanPolicy(connectionId, orphaned, policy);
+	return orphaned;
+}
+
+/**
+ * Get the stored sync watermark of a connection
+ */
+export async function getSyncWatermark(
+	connectionId: string,
+): Promise<Date | null> {
+	const state = await db.query.providerConnections.findFirst({
+		columns: { lastSyncedAt: true },
+		where: eq(providerConnections.id, connectionId),
+	});
+	return state?.lastSyncedAt ?? null;
+}
+
+/**
+ * Fetch tickets from a connection, write them and advance its watermark
+ */
+async function runProviderSync(
+	{ connection, provider, plugin }: ConnectedProvider,
+	options: SyncOptions,
+): Promise<SyncResult> {
+	const startedAt = new Date();
+	// Providers without server-side filtering always list everything, so run
+	// them as full syncs and let orphan handling see the complete list
+	const watermark =
+		options.full || !plugin.capabilities.incrementalSync
+			? null
+			: await getSyncWatermark(connection.id);
+	const updatedSince = watermark
+		? new Date(watermark.getTime() - WATERMARK_OVERLAP_MS)
+		: undefined;
+
+	await applyValueMappings(connection.id, provider);
+	const listResult = await provider.listTickets({ updatedSince });
+	const result = await syncProviderTickets(
+		connection,
+		listResult.tickets,
+		options.conflictStrategy,
+	);
+	result.pages = listResult.pages;
+	result.incremental = !!updatedSince;
+
+	try {
+		await recordUnmappedValues(connection.id, provider);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		result.errors.push(`Failed to record unmapped values: ${message}`);
+	}
+
+	// Only a complete full listing tells us which tickets are gone; anything
+	// less must never orphan the tickets it happened to miss
+	const complete = isCompleteListing(listResult);
+	if (listResult.pages > 0 && !complete) {
+		result.errors.push(
+			`Listed ${listResult.tickets.length} of the ${listResult.total} tickets ${connection.name} reports; missing tickets were kept and the next sync lists everything again`,
+		);
+	}
+	if (!updatedSince && complete) {
+		result.orphanPolicy = options.orphanPolicy ?? getOrphanPolicy();
 		try {
-			console.log(`Syncing tickets from ${provider.name}...`);
-			const externalTickets = await provider.listTickets();
-			const result = await syncProviderTickets(provider.name, externalTickets);
-			results.push(result);
-			console.log(
-				`Synced ${provider.name}: ${result.created} created, ${result.updated} updated, ${result.errors.length} errors`,
+			result.orphaned = await reconcileOrphans(
+				connection.id,
+				new Set(listResult.tickets.map((t) => t.externalId)),
+				result.orphanPolicy,
 			);
 		} catch (error) {
 			const message = error instanceof Error ? error.message : String(error);
-			results.push({
-				provider: provider.name,
-				created: 0,
-				updated: 0,
-				errors: [`Provider sync failed: ${message}`],
-			});
+			result.errors.push(`Failed to reconcile orphaned tickets: ${message}`);
 		}
 	}
 
+	// Only move the watermark forward after a complete, clean sync so no
+	// changes are skipped
+	if (complete && result.errors.length === 0) {
+		const state = {
+			lastSyncedAt: startedAt,
+			...(updatedSince ? {} : { lastFullSyncAt: startedAt }),
+		};
+		await db
+			.update(providerConnections)
+			.set(state)
+			.where(eq(providerConnections.id, connection.id));
+	}
+
+	return result;
+}
+
+/**
+ * Store the outcome of a provider sync in the run history. Failing to record
+ * must not fail the sync itself.
+ */
+async function recordSyncRun(
+	result: SyncResult,
+	startedAt: Date,
+): Promise<void> {
+	try {
+		await db.insert(syncRuns).values({
+			provider: result.provider,
+			connectionId: result.connectionId,
+			startedAt,
+			finishedAt: new Date(),
+			incremental: result.incremental,
+			fetched: result.fetched,
+			created: result.created,
+			updated: result.updated,
+			orphaned: result.orphaned.length,
+			conflicts: result.conflicts,
+			errored: result.errors.length,
+			errors: result.errors,
+		});
+	} catch (error) {
+		console.error(
+			`Failed to record sync run for ${result.connectionName}:`,
+			error,
+		);
+	}
+}
+
+/**
+ * Check whether a sync of the connection is in progress
+ */
+export function isConnectionSyncRunning(connectionId: string): boolean {
+	return runningSyncs.has(connectionId);
+}
+
+/**
+ * Run a connection sync, turning a thrown error into a failed result, and
+ * record it in the run history. A sync requested while another one of the
+ * same connection is running is skipped and not recorded.
+ */
+async function runRecordedProviderSync(
+	connected: ConnectedProvider,
+	options: SyncOptions,
+): Promise<SyncResult> {
+	const { connection } = connected;
+	if (runningSyncs.has(connection.id)) {
+		return createSyncResult(connection, [
+			`A sync of ${connection.name} is already running`,
+		]);
+	}
+
+	const startedAt = new Date();
+	let result: SyncResult;
+
+	runningSyncs.add(connection.id);
+	try {
+		result = await runProviderSync(connected, options);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		result = createSyncResult(connection, [`Provider sync failed: ${message}`]);
+	} finally {
+		runningSyncs.delete(connection.id);
+	}
+
+	await recordSyncRun(result, startedAt);
+	return result;
+}
+
+/**
+ * Get the most recent sync runs with their connection name, optionally for
+ * a single provider type or connection
+ */
+export async function getRecentSyncRuns(
+	options: {
+		provider?: TicketProvider;
+		connectionId?: string;
+		limit?: number;
+	} = {},
+) {
+	const conditions = [];
+	if (options.provider)
+		conditions.push(eq(syncRuns.provider, options.provider));
+	if (options.connectionId) {
+		conditions.push(eq(syncRuns.connectionId, options.connectionId));
+	}
+
+	return db.query.syncRuns.findMany({
+		where: conditions.length > 0 ? and(...conditions) : undefined,
+		orderBy: desc(syncRuns.startedAt),
+		limit: options.limit ?? 20,
+		with: { connection: { columns: { name: true } } },
+	});
+}
+
+/**
+ * Sync tickets from all configured connections
+ */
+export async function syncAllProviders(
+	options: SyncOptions = {},
+): Promise<FullSyncResult> {
+	const registry = await getProviderRegistry();
+	const configuredConnections = registry.getConfiguredConnections();
+
+	const results: SyncResult[] = [];
+
+	for (const connected of configuredConnections) {
+		const { connection } = connected;
+		console.log(
+			`Syncing tickets from ${connection.name} (${connection.provider})...`,
+		);
+		const result = await runRecordedProviderSync(connected, options);
+		results.push(result);
+		console.log(
+			`Synced ${connection.name}${result.incremental ? " (incremental)" : ""}: ${result.fetched} fetched in ${result.pages} pages, ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged, ${result.orphaned.length} orphaned (${result.orphanPolicy}), ${result.conflicts} conflicts, ${result.errors.length} errors`,
+		);
+	}
+
 	return {
 		results,
 		totalCreated: results.reduce((sum, r) => sum + r.created, 0),
 		totalUpdated: results.reduce((sum, r) => sum + r.updated, 0),
+		totalFetched: results.reduce((sum, r) => sum + r.fetched, 0),
+		totalOrphaned: results.reduce((sum, r) => sum + r.orphaned.length, 0),
+		totalConflicts: results.reduce((sum, r) => sum + r.conflicts, 0),
 		totalErrors: results.reduce((sum, r) => sum + r.errors.length, 0),
 	};
 }
 
 /**
- * Sync tickets from a specific provider
+ * Sync tickets from a specific connection. Returns null when the connection
+ * does not exist.
  */
-export async function syncProvider(
-	providerKey: TicketProvider,
-): Promise<SyncResult> {
-	const registry = getProviderRegistry();
-	const provider = registry.getProvider(providerKey);
-
-	if (!provider) {
-		return {
-			provider: providerKey,
-			created: 0,
-			updated: 0,
-			errors: [`Provider ${providerKey} not found`],
-		};
+export async function syncConnection(
+	connectionId: string,
+	options: SyncOptions = {},
+): Promise<SyncResult | null> {
+	const registry = await getProviderRegistry();
+	const connected = registry.getConnection(connectionId);
+
+	if (!connected) return null;
+
+	const { connection, provider } = connected;
+	if (!connection.enabled || !provider.isConfigured()) {
+		return createSyncResult(connection, [
+			`Connection ${connection.name} is ${connection.enabled ? "not configured" : "disabled"}`,
+		]);
 	}
 
-	if (!provider.isConfigured()) {
-		return {
-			provider: providerKey,
-			created: 0,
-			updated: 0,
-			errors: [`Provider ${providerKey} is not configured`],
-		};
+	return runRecordedProviderSync(connected, options);
+}
+
+/**
+ * Settle an open sync conflict by keeping the provider or the local value.
+ * Keeping a local status, priority or assignee pushes it to the provider.
+ * Returns null when the conflict does not exist.
+ */
+export async function resolveSyncConflict(
+	conflictId: string,
+	keep: SyncConflictResolution,
+): Promise<typeof ticketSyncConflicts.$inferSelect | null> {
+	const conflict = await db.query.ticketSyncConflicts.findFirst({
+		where: eq(ticketSyncConflicts.id, conflictId),
+		with: { ticket: true },
+	});
+
+	if (!conflict) return null;
+	if (conflict.status === "resolved") {
+		throw new Error(`Conflict on ${conflict.field} is already resolved`);
+	}
+
+	const value = keep === "local" ? conflict.localValue : conflict.providerValue;
+
+	if (keep === "local") {
+		// The provider currently holds the conflicting value
+		await pushTicketChanges(
+			{ ...conflict.ticket, [conflict.field]: conflict.providerValue },
+			{ [conflict.field]: value },
+		);
 	}
 
-	const externalTickets = await provider.listTickets();
-	return syncProviderTickets(providerKey, externalTickets);
+	await db
+		.update(tickets)
+		.set({ [conflict.field]: value })
+		.where(eq(tickets.id, conflict.ticketId));
+
+	const [resolved] = await db
+		.update(ticketSyncConflicts)
+		.set({ status: "resolved", resolution: keep, resolvedAt: new Date() })
+		.where(eq(ticketSyncConflicts.id, conflictId))
+		.returning();
+
+	return resolved ?? null;
 }
 
 /**
@@ -183,3 +874,27 @@ export async function createManualTicket(input: {
 	}
 	return result[0] as typeof tickets.$inferSelect;
 }
+
+/**
+ * Insert imported tickets as manual tickets in one transaction; returns the
+ * number created
+ */
+export async function importManualTickets(
+	inputs: ImportedTicket[],
+): Promise<number> {
+	if (inputs.length === 0) return 0;
+
+	await db.transaction(async (tx) => {
+		// Chunked to stay under SQLite's bound parameter limit
+		for (let i = 0; i < inputs.length; i += 100) {
+			await tx
+				.insert(tickets)
+				.values(
+					inputs
+						.slice(i, i + 100)
+						.map((input) => ({ ...input, provider: "manual" as const })),
+				);
+		}
+	});
+	return inputs.length;
+}
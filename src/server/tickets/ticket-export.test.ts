@@ -0,0 +1,107 @@
+import { describe, expect, it } from "bun:test";
+import { type ExportTicket, formatTicketExport } from "./ticket-export";
+
+const exportedAt = new Date("2026-03-02T09:30:00Z");
+
+const ranked: ExportTicket = {
+	id: "t1",
+	externalId: "PROJ-1",
+	provider: "jira",
+	title: "Fix login | SSO",
+	description: "Users are logged out",
+	status: "in_progress",
+	priority: "high",
+	assignee: "ana",
+	labels: ["auth", "web"],
+	aiScore: 8.25,
+	createdAt: new Date("2026-03-01T00:00:00Z"),
+	connection: { name: "Platform Jira" },
+	rankings: [
+		{
+			overallScore: 8.25,
+			urgencyScore: 9,
+			impactScore: 8,
+			complexityScore: 3,
+			reasoning: "Blocks every SSO customer",
+		},
+	],
+	recommendations: [
+		{
+			recommendedSteps: "1. Reproduce\n2. Patch the session refresh",
+			recommendedProgrammer: "ana",
+			reasoning: null,
+		},
+	],
+};
+
+const unranked: ExportTicket = {
+	id: "t2",
+	externalId: null,
+	provider: "manual",
+	title: "=SUM(A1)",
+	description: null,
+	status: "open",
+	priority: "low",
+	assignee: null,
+	labels: [],
+	aiScore: null,
+	createdAt: new Date("2026-03-01T00:00:00Z"),
+};
+
+describe("formatTicketExport", () => {
+	it("writes CSV with quoting and neutralized formulas", () => {
+		const file = formatTicketExport([ranked, unranked], "csv", exportedAt);
+		const [header, first, second] = file.content.split("\r\n");
+
+		expect(file.filename).toBe("tickets-2026-03-02.csv");
+		expect(header?.startsWith("id,externalId,source,title,status")).toBe(true);
+		expect(first).toContain('"auth, web",8.25,9,8,3,Blocks every SSO customer');
+		expect(first).toContain('"1. Reproduce\n2. Patch the session refresh"');
+		expect(second).toContain(",'=SUM(A1),open,low,");
+	});
+
+	it("includes ranking scores and recommendation text in JSON", () => {
+		const file = formatTicketExport([ranked], "json", exportedAt);
+		const data = JSON.parse(file.content);
+
+		expect(data.exportedAt).toBe(exportedAt.toISOString());
+		expect(data.tickets[0]).toMatchObject({
+			source: "Platform Jira",
+			aiScore: 8.25,
+			urgencyScore: 9,
+			rankingReasoning: "Blocks every SSO customer",
+			recommendedProgrammer: "ana",
+		});
+	});
+
+	it("renders a Markdown report with a summary table and sections", () => {
+		const { content } = formatTicketExport(
+			[ranked, unranked],
+			"markdown",
+			exportedAt,
+		);
+
+		expect(content).toContain("Exported 2026-03-02 09:30 UTC · 2 tickets");
+		expect(content).toContain(
+			"| 1 | PROJ-1 Fix login \\| SSO | in progress | high | 8.3 | ana |",
+		);
+		expect(content).toContain("| 2 | =SUM(A1) | open | low | – | – |");
+		expect(content).toContain("## 1. PROJ-1: Fix login | SSO");
+		expect(content).toContain(
+			"- **AI score:** 8.3 (urgency 9.0, impact 8.0, complexity 3.0)",
+		);
+		expect(content).toContain("**Recommended steps**\n\n1. Reproduce");
+	});
+
+	it("says when the limit left tickets out", () => {
+		const file = formatTicketExport([ranked], "markdown", exportedAt, 40);
+
+		expect(file).toMatchObject({ count: 1, total: 40 });
+		expect(file.content).toContain(
+			"Exported 2026-03-02 09:30 UTC · first 1 of 40 tickets",
+		);
+		expect(
+			JSON.parse(formatTicketExport([ranked], "json", exportedAt, 40).content),
+		).toMatchObject({ total: 40 });
+	});
+});
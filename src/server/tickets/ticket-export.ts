@@ -0,0 +1,249 @@
+import type {
+	ticketRankings,
+	ticketRecommendations,
+	tickets,
+} from "@/server/db/schema";
+
+export const ticketExportFormatEnum = ["csv", "json", "markdown"] as const;
+export type TicketExportFormat = (typeof ticketExportFormatEnum)[number];
+
+/**
+ * A ticket with its latest ranking and recommendation, as loaded for export
+ */
+export type ExportTicket = Pick<
+	typeof tickets.$inferSelect,
+	| "id"
+	| "externalId"
+	| "provider"
+	| "title"
+	| "description"
+	| "status"
+	| "priority"
+	| "assignee"
+	| "labels"
+	| "aiScore"
+	| "createdAt"
+> & {
+	connection?: { name: string } | null;
+	rankings?: Pick<
+		typeof ticketRankings.$inferSelect,
+		| "overallScore"
+		| "urgencyScore"
+		| "impactScore"
+		| "complexityScore"
+		| "reasoning"
+	>[];
+	recommendations?: Pick<
+		typeof ticketRecommendations.$inferSelect,
+		"recommendedSteps" | "recommendedProgrammer" | "reasoning"
+	>[];
+};
+
+export interface TicketExportFile {
+	filename: string;
+	mimeType: string;
+	content: string;
+	/** Tickets in the file */
+	count: number;
+	/** Tickets matching the filters; above `count` when the limit cut it short */
+	total: number;
+}
+
+interface ExportRow {
+	id: string;
+	externalId: string;
+	source: string;
+	title: string;
+	status: string;
+	priority: string;
+	assignee: string;
+	labels: string[];
+	aiScore: number | null;
+	urgencyScore: number | null;
+	impactScore: number | null;
+	complexityScore: number | null;
+	rankingReasoning: string;
+	recommendedSteps: string;
+	recommendedProgrammer: string;
+	description: string;
+	createdAt: string;
+}
+
+function toExportRow(ticket: ExportTicket): ExportRow {
+	const ranking = ticket.rankings?.[0];
+	const recommendation = ticket.recommendations?.[0];
+	return {
+		id: ticket.id,
+		externalId: ticket.externalId ?? "",
+		source: ticket.connection?.name ?? ticket.provider,
+		title: ticket.title,
+		status: ticket.status,
+		priority: ticket.priority ?? "",
+		assignee: ticket.assignee ?? "",
+		labels: ticket.labels ?? [],
+		aiScore: ticket.aiScore ?? ranking?.overallScore ?? null,
+		urgencyScore: ranking?.urgencyScore ?? null,
+		impactScore: ranking?.impactScore ?? null,
+		complexityScore: ranking?.complexityScore ?? null,
+		rankingReasoning: ranking?.reasoning ?? "",
+		recommendedSteps: recommendation?.recommendedSteps ?? "",
+		recommendedProgrammer: recommendation?.recommendedProgrammer ?? "",
+		description: ticket.description ?? "",
+		createdAt: ticket.createdAt.toISOString(),
+	};
+}
+
+/**
+ * Quote a CSV field when needed. Text starting with a formula character is
+ * prefixed with an apostrophe so spreadsheets do not evaluate it.
+ */
+function csvField(value: string | number | null): string {
+	if (value === null) return "";
+	let text = String(value);
+	if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: ExportRow[]): string {
+	const columns: (keyof ExportRow)[] = [
+		"id",
+		"externalId",
+		"source",
+		"title",
+		"status",
+		"priority",
+		"assignee",
+		"labels",
+		"aiScore",
+		"urgencyScore",
+		"impactScore",
+		"complexityScore",
+		"rankingReasoning",
+		"recommendedSteps",
+		"recommendedProgrammer",
+		"description",
+		"createdAt",
+	];
+	const lines = rows.map((row) =>
+		columns
+			.map((column) => {
+				const value = row[column];
+				return csvField(Array.isArray(value) ? value.join(", ") : value);
+			})
+			.join(","),
+	);
+	return `${[columns.join(","), ...lines].join("\r\n")}\r\n`;
+}
+
+function formatScore(score: number | null): string {
+	return score === null ? "–" : score.toFixed(1);
+}
+
+/** Keep table cells on one line and stop pipes from ending the cell */
+function tableCell(text: string): string {
+	return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function toMarkdown(
+	rows: ExportRow[],
+	exportedAt: Date,
+	total: number,
+): string {
+	const count =
+		total > rows.length
+			? `first ${rows.length} of ${total} tickets`
+			: `${rows.length} ticket${rows.length === 1 ? "" : "s"}`;
+	const lines = [
+		"# Ticket backlog",
+		"",
+		`Exported ${exportedAt.toISOString().slice(0, 16).replace("T", " ")} UTC · ${count}`,
+		"",
+	];
+	if (rows.length === 0) return `${lines.join("\n")}No tickets matched.\n`;
+
+	lines.push(
+		"| # | Ticket | Status | Priority | AI score | Assignee |",
+		"| --: | --- | --- | --- | --: | --- |",
+	);
+	rows.forEach((row, i) => {
+		const key = row.externalId ? `${row.externalId} ` : "";
+		lines.push(
+			`| ${i + 1} | ${tableCell(key + row.title)} | ${row.status.replace("_", " ")} | ${row.priority || "–"} | ${formatScore(row.aiScore)} | ${tableCell(row.assignee) || "–"} |`,
+		);
+	});
+
+	rows.forEach((row, i) => {
+		lines.push(
+			"",
+			`## ${i + 1}. ${row.externalId ? `${row.externalId}: ` : ""}${row.title}`,
+			"",
+			`- **Source:** ${row.source}`,
+			`- **Status:** ${row.status.replace("_", " ")} · **Priority:** ${row.priority || "–"}`,
+		);
+		if (row.assignee) lines.push(`- **Assignee:** ${row.assignee}`);
+		if (row.labels.length > 0) {
+			lines.push(`- **Labels:** ${row.labels.join(", ")}`);
+		}
+		if (row.urgencyScore !== null) {
+			lines.push(
+				`- **AI score:** ${formatScore(row.aiScore)} (urgency ${formatScore(row.urgencyScore)}, impact ${formatScore(row.impactScore)}, complexity ${formatScore(row.complexityScore)})`,
+			);
+		}
+		if (row.rankingReasoning) {
+			lines.push("", "**Why this rank**", "", row.rankingReasoning.trim());
+		}
+		if (row.recommendedSteps) {
+			lines.push("", "**Recommended steps**", "", row.recommendedSteps.trim());
+		}
+		if (row.recommendedProgrammer) {
+			lines.push(
+				"",
+				`**Suggested assignee:** ${row.recommendedProgrammer.trim()}`,
+			);
+		}
+	});
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Render tickets as a CSV sheet, a JSON document or a Markdown report for
+ * people without dashboard access. `total` is the number of tickets matching
+ * the filters, when the export holds only the first of them.
+ */
+export function formatTicketExport(
+	tickets: ExportTicket[],
+	format: TicketExportFormat,
+	exportedAt: Date = new Date(),
+	total: number = tickets.length,
+): TicketExportFile {
+	const rows = tickets.map(toExportRow);
+	const basename = `tickets-${exportedAt.toISOString().slice(0, 10)}`;
+	const counts = { count: rows.length, total };
+
+	switch (format) {
+		case "csv":
+			return {
+				filename: `${basename}.csv`,
+				mimeType: "text/csv",
+				content: toCsv(rows),
+				...counts,
+			};
+		case "json":
+			return {
+				filename: `${basename}.json`,
+				mimeType: "application/json",
+				content: `${JSON.stringify({ exportedAt: exportedAt.toISOString(), total, tickets: rows }, null, 2)}\n`,
+				...counts,
+			};
+		case "markdown":
+			return {
+				filename: `${basename}.md`,
+				mimeType: "text/markdown",
+				content: toMarkdown(rows, exportedAt, total),
+				...counts,
+			};
+	}
+}
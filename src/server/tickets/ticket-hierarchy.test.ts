@@ -0,0 +1,87 @@
+import { describe, expect, it } from "bun:test";
+import { type HierarchyTicket, TicketHierarchy } from "./ticket-hierarchy";
+
+function ticket(
+	externalId: string,
+	parentExternalId: string | null,
+	status: HierarchyTicket["status"] = "open",
+	connectionId = "jira",
+): HierarchyTicket {
+	return {
+		id: `${connectionId}-${externalId}`,
+		externalId,
+		parentExternalId,
+		connectionId,
+		title: externalId,
+		status,
+	};
+}
+
+const rows = [
+	ticket("EPIC-1", null),
+	ticket("STORY-1", "EPIC-1", "done"),
+	ticket("STORY-2", "EPIC-1", "in_progress"),
+	ticket("SUB-1", "STORY-2", "closed"),
+	ticket("SUB-2", "STORY-2"),
+	ticket("LONE-1", null),
+	// Same external ID in another connection is a different ticket
+	ticket("STORY-3", "EPIC-1", "open", "linear"),
+];
+const hierarchy = new TicketHierarchy(rows);
+function byExternalId(id: string, connectionId = "jira"): HierarchyTicket {
+	const row = rows.find(
+		(r) => r.externalId === id && r.connectionId === connectionId,
+	);
+	if (!row) throw new Error(`No test ticket ${id}`);
+	return row;
+}
+
+describe("TicketHierarchy", () => {
+	it("walks up to the epic and down to the children", () => {
+		expect(
+			hierarchy.ancestors(byExternalId("SUB-1")).map((t) => t.externalId),
+		).toEqual(["EPIC-1", "STORY-2"]);
+		expect(
+			hierarchy.children(byExternalId("EPIC-1")).map((t) => t.externalId),
+		).toEqual(["STORY-1", "STORY-2"]);
+		expect(hierarchy.parentOf(byExternalId("STORY-3", "linear"))).toBeNull();
+	});
+
+	it("rolls progress up over all descendants", () => {
+		expect(hierarchy.progress(byExternalId("EPIC-1"))).toEqual({
+			done: 2,
+			total: 4,
+		});
+		expect(hierarchy.progress(byExternalId("LONE-1"))).toEqual({
+			done: 0,
+			total: 0,
+		});
+	});
+
+	it("stops at parent cycles", () => {
+		const cyclic = new TicketHierarchy([ticket("A", "B"), ticket("B", "A")]);
+		expect(cyclic.ancestors(ticket("A", "B")).map((t) => t.externalId)).toEqual(
+			["B"],
+		);
+		expect(cyclic.progress(ticket("A", "B"))).toEqual({ done: 0, total: 1 });
+	});
+
+	it("groups a list under top-level ancestors", () => {
+		const groups = hierarchy.groupByEpic([
+			byExternalId("SUB-2"),
+			byExternalId("LONE-1"),
+			byExternalId("EPIC-1"),
+			byExternalId("STORY-1"),
+		]);
+		expect(
+			groups.map((g) => [
+				g.epic?.externalId ?? null,
+				g.progress,
+				g.tickets.map((t) => t.externalId),
+			]),
+		).toEqual([
+			["EPIC-1", { done: 2, total: 4 }, ["SUB-2", "STORY-1"]],
+			[null, null, ["LONE-1"]],
+		]);
+	});
+});
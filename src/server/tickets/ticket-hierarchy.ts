@@ -0,0 +1,145 @@
+import { finishedTicketStatuses, type tickets } from "@/server/db/schema";
+
+/** The columns needed to place a ticket in its hierarchy */
+export type HierarchyTicket = Pick<
+	typeof tickets.$inferSelect,
+	"id" | "externalId" | "parentExternalId" | "connectionId" | "title" | "status"
+>;
+
+/** Finished tickets among all descendants of a ticket */
+export interface TicketProgress {
+	done: number;
+	total: number;
+}
+
+/**
+ * Tickets of one epic (the top-level ancestor), in list order. `epic` is
+ * null for the group of tickets outside any hierarchy.
+ */
+export interface EpicGroup<T> {
+	epic: HierarchyTicket | null;
+	progress: TicketProgress | null;
+	tickets: T[];
+}
+
+function hierarchyKey(
+	connectionId: string | null,
+	externalId: string | null,
+): string | null {
+	return connectionId && externalId ? `${connectionId}:${externalId}` : null;
+}
+
+/**
+ * Parent/child index over the tickets of one or more connections. Parents
+ * are matched by external ID within the child's connection; a parent that
+ * was not synced ends the chain.
+ */
+export class TicketHierarchy {
+	private readonly byKey = new Map<string, HierarchyTicket>();
+	private readonly childrenByKey = new Map<string, HierarchyTicket[]>();
+
+	constructor(rows: HierarchyTicket[]) {
+		for (const row of rows) {
+			const key = hierarchyKey(row.connectionId, row.externalId);
+			if (key) this.byKey.set(key, row);
+		}
+		for (const row of rows) {
+			const parentKey = hierarchyKey(row.connectionId, row.parentExternalId);
+			if (!parentKey || !this.byKey.has(parentKey)) continue;
+			const siblings = this.childrenByKey.get(parentKey) ?? [];
+			siblings.push(row);
+			this.childrenByKey.set(parentKey, siblings);
+		}
+	}
+
+	parentOf(
+		ticket: Pick<HierarchyTicket, "connectionId" | "parentExternalId">,
+	): HierarchyTicket | null {
+		const key = hierarchyKey(ticket.connectionId, ticket.parentExternalId);
+		return (key && this.byKey.get(key)) || null;
+	}
+
+	/** Parents of a ticket, top-level ancestor first */
+	ancestors(
+		ticket: Pick<
+			HierarchyTicket,
+			"id" | "connectionId" | "externalId" | "parentExternalId"
+		>,
+	): HierarchyTicket[] {
+		const ancestors: HierarchyTicket[] = [];
+		// Providers do not prevent every cycle, so stop at a repeated ticket
+		const seen = new Set([ticket.id]);
+		let parent = this.parentOf(ticket);
+		while (parent && !seen.has(parent.id)) {
+			seen.add(parent.id);
+			ancestors.unshift(parent);
+			parent = this.parentOf(parent);
+		}
+		return ancestors;
+	}
+
+	children(
+		ticket: Pick<HierarchyTicket, "connectionId" | "externalId">,
+	): HierarchyTicket[] {
+		const key = hierarchyKey(ticket.connectionId, ticket.externalId);
+		return (key && this.childrenByKey.get(key)) || [];
+	}
+
+	/** Rolled up over children, grandchildren and so on */
+	progress(
+		ticket: Pick<HierarchyTicket, "id" | "connectionId" | "externalId">,
+	): TicketProgress {
+		const progress = { done: 0, total: 0 };
+		const seen = new Set([ticket.id]);
+		const queue = [...this.children(ticket)];
+		for (let next = queue.shift(); next; next = queue.shift()) {
+			if (seen.has(next.id)) continue;
+			seen.add(next.id);
+			progress.total++;
+			if (finishedTicketStatuses.includes(next.status)) progress.done++;
+			queue.push(...this.children(next));
+		}
+		return progress;
+	}
+
+	/**
+	 * Group tickets under their top-level ancestor, keeping list order. An
+	 * epic in the list heads its own group instead of appearing in it.
+	 */
+	groupByEpic<
+		T extends Pick<
+			HierarchyTicket,
+			"id" | "connectionId" | "externalId" | "parentExternalId"
+		>,
+	>(list: T[]): EpicGroup<T>[] {
+		const groups = new Map<string, EpicGroup<T>>();
+		const ungrouped: T[] = [];
+
+		for (const ticket of list) {
+			const epic =
+				this.ancestors(ticket)[0] ??
+				(this.children(ticket).length > 0
+					? this.byKey.get(
+							hierarchyKey(ticket.connectionId, ticket.externalId) ?? "",
+						)
+					: undefined);
+			if (!epic) {
+				ungrouped.push(ticket);
+				continue;
+			}
+
+			let group = groups.get(epic.id);
+			if (!group) {
+				group = { epic, progress: this.progress(epic), tickets: [] };
+				groups.set(epic.id, group);
+			}
+			if (ticket.id !== epic.id) group.tickets.push(ticket);
+		}
+
+		const result = [...groups.values()];
+		if (ungrouped.length > 0) {
+			result.push({ epic: null, progress: null, tickets: ungrouped });
+		}
+		return result;
+	}
+}
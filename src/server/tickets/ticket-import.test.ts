@@ -0,0 +1,112 @@
+import { describe, expect, it } from "bun:test";
+import {
+	guessImportMapping,
+	parseImportFile,
+	validateImportRows,
+} from "./ticket-import";
+
+describe("parseImportFile", () => {
+	it("reads quoted CSV fields with commas, quotes and line breaks", () => {
+		const csv =
+			'\uFEFFSummary,Description,Tags\r\n"Fix login","Fails on ""Safari"",\nsometimes","auth, web"\r\n\r\n';
+		const parsed = parseImportFile(csv, "csv");
+
+		expect(parsed.columns).toEqual(["Summary", "Description", "Tags"]);
+		expect(parsed.rows).toEqual([
+			{
+				Summary: "Fix login",
+				Description: 'Fails on "Safari",\nsometimes',
+				Tags: "auth, web",
+			},
+		]);
+	});
+
+	it("accepts a JSON array or a { tickets } wrapper", () => {
+		const rows = [{ title: "A" }, { title: "B", labels: ["x"] }];
+
+		expect(parseImportFile(JSON.stringify(rows), "json").columns).toEqual([
+			"title",
+			"labels",
+		]);
+		expect(
+			parseImportFile(JSON.stringify({ tickets: rows }), "json").rows,
+		).toEqual(rows);
+		expect(() => parseImportFile('{"title":"A"}', "json")).toThrow(
+			"Expected a JSON array",
+		);
+	});
+});
+
+describe("validateImportRows", () => {
+	const mapping = guessImportMapping([
+		"Summary",
+		"State",
+		"Priority",
+		"Owner",
+		"Tags",
+	]);
+
+	it("guesses the mapping from common column names", () => {
+		expect(mapping).toEqual({
+			title: "Summary",
+			status: "State",
+			priority: "Priority",
+			assignee: "Owner",
+			labels: "Tags",
+		});
+	});
+
+	it("normalizes enum values and applies defaults", () => {
+		const { tickets, errors } = validateImportRows(
+			[
+				{
+					Summary: "Fix login",
+					State: "In Progress",
+					Priority: "HIGH",
+					Owner: "",
+					Tags: "auth; web",
+				},
+				{ Summary: "Write docs", State: "", Priority: "", Tags: "" },
+			],
+			mapping,
+		);
+
+		expect(errors).toEqual([]);
+		expect(tickets).toEqual([
+			{
+				row: 1,
+				title: "Fix login",
+				description: null,
+				status: "in_progress",
+				priority: "high",
+				assignee: null,
+				labels: ["auth", "web"],
+			},
+			{
+				row: 2,
+				title: "Write docs",
+				description: null,
+				status: "open",
+				priority: "medium",
+				assignee: null,
+				labels: [],
+			},
+		]);
+	});
+
+	it("reports rows with a missing title or unknown enum values", () => {
+		const { tickets, errors } = validateImportRows(
+			[
+				{ Summary: "", State: "open" },
+				{ Summary: "Crash", State: "blocked", Priority: "p1" },
+			],
+			mapping,
+		);
+
+		expect(tickets).toEqual([]);
+		expect(errors.map((e) => e.row)).toEqual([1, 2]);
+		expect(errors[0]?.message).toBe("Title is empty");
+		expect(errors[1]?.message).toContain('Status "blocked"');
+		expect(errors[1]?.message).toContain('Priority "p1"');
+	});
+});
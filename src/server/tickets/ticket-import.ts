@@ -0,0 +1,265 @@
+import {
+	type TicketPriority,
+	type TicketStatus,
+	ticketPriorityEnum,
+	ticketStatusEnum,
+} from "@/server/db/schema";
+
+export const ticketImportFormatEnum = ["csv", "json"] as const;
+export type TicketImportFormat = (typeof ticketImportFormatEnum)[number];
+
+/** Ticket fields a file column can be mapped to */
+export const ticketImportFieldEnum = [
+	"title",
+	"description",
+	"status",
+	"priority",
+	"assignee",
+	"labels",
+] as const;
+export type TicketImportField = (typeof ticketImportFieldEnum)[number];
+
+/** Which file column feeds each ticket field; unmapped fields use defaults */
+export type TicketImportMapping = Partial<Record<TicketImportField, string>>;
+
+/** A file row keyed by column name */
+export type TicketImportRow = Record<string, unknown>;
+
+export interface ParsedImportFile {
+	columns: string[];
+	rows: TicketImportRow[];
+}
+
+export interface ImportedTicket {
+	title: string;
+	description: string | null;
+	status: TicketStatus;
+	priority: TicketPriority;
+	assignee: string | null;
+	labels: string[];
+}
+
+export interface ValidImportRow extends ImportedTicket {
+	/** 1-based row number as shown in a spreadsheet, not counting the header */
+	row: number;
+}
+
+export interface TicketImportError {
+	/** 1-based row number as shown in a spreadsheet, not counting the header */
+	row: number;
+	message: string;
+}
+
+export interface TicketImportValidation {
+	tickets: ValidImportRow[];
+	errors: TicketImportError[];
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields may contain commas,
+ * line breaks and doubled quotes)
+ */
+function parseCsvRecords(text: string): string[][] {
+	const records: string[][] = [];
+	let record: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			record.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			record.push(field);
+			records.push(record);
+			record = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (quoted) {
+		throw new Error("CSV ends inside a quoted field");
+	}
+	if (field || record.length > 0) {
+		record.push(field);
+		records.push(record);
+	}
+
+	// Drop blank lines, common at the end of spreadsheet exports
+	return records.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function parseCsv(text: string): ParsedImportFile {
+	const [header, ...records] = parseCsvRecords(text);
+	if (!header) {
+		throw new Error("The CSV file is empty");
+	}
+
+	const columns = header.map((column) => column.trim());
+	const rows = records.map((record) =>
+		Object.fromEntries(columns.map((column, i) => [column, record[i] ?? ""])),
+	);
+	return { columns, rows };
+}
+
+function parseJson(text: string): ParsedImportFile {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error("The file is not valid JSON");
+	}
+
+	// Accept a bare array or an export wrapped as { tickets: [...] }
+	const items =
+		data && typeof data === "object" && !Array.isArray(data)
+			? (data as { tickets?: unknown }).tickets
+			: data;
+	if (!Array.isArray(items)) {
+		throw new Error("Expected a JSON array of ticket objects");
+	}
+
+	const columns = new Set<string>();
+	const rows = items.map((item, i) => {
+		if (!item || typeof item !== "object" || Array.isArray(item)) {
+			throw new Error(`Item ${i + 1} is not an object`);
+		}
+		for (const key of Object.keys(item)) columns.add(key);
+		return item as TicketImportRow;
+	});
+	return { columns: Array.from(columns), rows };
+}
+
+/**
+ * Read an uploaded CSV (first line is the header) or JSON file into rows
+ */
+export function parseImportFile(
+	content: string,
+	format: TicketImportFormat,
+): ParsedImportFile {
+	const text = content.replace(/^\uFEFF/, "");
+	return format === "csv" ? parseCsv(text) : parseJson(text);
+}
+
+const FIELD_ALIASES: Record<TicketImportField, string[]> = {
+	title: ["title", "summary", "name", "subject"],
+	description: ["description", "body", "details", "notes"],
+	status: ["status", "state"],
+	priority: ["priority", "severity"],
+	assignee: ["assignee", "owner", "assigned to", "assigned_to"],
+	labels: ["labels", "label", "tags"],
+};
+
+/**
+ * Suggest a mapping by matching column names against common spellings
+ */
+export function guessImportMapping(columns: string[]): TicketImportMapping {
+	const mapping: TicketImportMapping = {};
+	for (const field of ticketImportFieldEnum) {
+		const match = columns.find((column) =>
+			FIELD_ALIASES[field].includes(column.trim().toLowerCase()),
+		);
+		if (match) mapping[field] = match;
+	}
+	return mapping;
+}
+
+function toText(value: unknown): string {
+	if (value === null || value === undefined) return "";
+	return String(value).trim();
+}
+
+/** "In Progress" and "in-progress" both become in_progress */
+function toEnumValue<T extends string>(
+	value: string,
+	allowed: readonly T[],
+): T | null {
+	const normalized = value.toLowerCase().replace(/[\s-]+/g, "_");
+	return allowed.find((v) => v === normalized) ?? null;
+}
+
+function toLabels(value: unknown): string[] {
+	const labels = Array.isArray(value)
+		? value.map(toText)
+		: toText(value).split(/[,;]/);
+	return labels.map((label) => label.trim()).filter(Boolean);
+}
+
+/**
+ * Turn mapped rows into tickets. Rows with a missing title or a status or
+ * priority outside the ticket enums are reported instead of imported; empty
+ * status and priority fall back to open and medium.
+ */
+export function validateImportRows(
+	rows: TicketImportRow[],
+	mapping: TicketImportMapping,
+): TicketImportValidation {
+	const tickets: ValidImportRow[] = [];
+	const errors: TicketImportError[] = [];
+
+	rows.forEach((row, i) => {
+		const get = (field: TicketImportField) => {
+			const column = mapping[field];
+			return column ? row[column] : undefined;
+		};
+		const rowErrors: string[] = [];
+
+		const title = toText(get("title"));
+		if (!title) {
+			rowErrors.push("Title is empty");
+		} else if (title.length > 500) {
+			rowErrors.push("Title is longer than 500 characters");
+		}
+
+		const statusText = toText(get("status"));
+		const status = statusText
+			? toEnumValue(statusText, ticketStatusEnum)
+			: "open";
+		if (!status) {
+			rowErrors.push(
+				`Status "${statusText}" is not one of ${ticketStatusEnum.join(", ")}`,
+			);
+		}
+
+		const priorityText = toText(get("priority"));
+		const priority = priorityText
+			? toEnumValue(priorityText, ticketPriorityEnum)
+			: "medium";
+		if (!priority) {
+			rowErrors.push(
+				`Priority "${priorityText}" is not one of ${ticketPriorityEnum.join(", ")}`,
+			);
+		}
+
+		if (rowErrors.length > 0 || !status || !priority) {
+			errors.push({ row: i + 1, message: rowErrors.join("; ") });
+			return;
+		}
+
+		tickets.push({
+			row: i + 1,
+			title,
+			description: toText(get("description")) || null,
+			status,
+			priority,
+			assignee: toText(get("assignee")) || null,
+			labels: toLabels(get("labels")),
+		});
+	});
+
+	return { tickets, errors };
+}
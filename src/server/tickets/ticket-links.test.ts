@@ -0,0 +1,42 @@
+import { describe, expect, it } from "bun:test";
+import { resolveTicketLinks, summarizeBlocking } from "./ticket-links";
+
+const targets = [
+	{ id: "t2", externalId: "OPS-2", title: "Schema", status: "done" as const },
+	{ id: "t10", externalId: "OPS-10", title: "API", status: "open" as const },
+	{ id: "t3", externalId: "OPS-3", title: "UI", status: "review" as const },
+];
+
+const links = resolveTicketLinks(
+	[
+		{ id: "l1", type: "relates-to", targetExternalId: "OPS-3" },
+		{ id: "l2", type: "blocks", targetExternalId: "OPS-10" },
+		{ id: "l3", type: "blocked-by", targetExternalId: "OPS-2" },
+		{ id: "l4", type: "blocks", targetExternalId: "OPS-3" },
+		{ id: "l5", type: "blocks", targetExternalId: "WEB-7" },
+	],
+	targets,
+);
+
+describe("resolveTicketLinks", () => {
+	it("attaches synced targets and orders by type", () => {
+		expect(
+			links.map((l) => [l.type, l.targetExternalId, l.target?.id]),
+		).toEqual([
+			["blocks", "OPS-3", "t3"],
+			["blocks", "OPS-10", "t10"],
+			["blocks", "WEB-7", undefined],
+			["blocked-by", "OPS-2", "t2"],
+			["relates-to", "OPS-3", "t3"],
+		]);
+	});
+});
+
+describe("summarizeBlocking", () => {
+	it("counts only unfinished tickets on either side", () => {
+		expect(summarizeBlocking(links)).toEqual({
+			blocks: ["OPS-3", "OPS-10", "WEB-7"],
+			blockedBy: [],
+		});
+	});
+});
@@ -0,0 +1,73 @@
+import type { RankingTicketBlocking } from "@/server/ai/prompts";
+import {
+	finishedTicketStatuses,
+	type TicketLinkType,
+	type ticketLinks,
+	ticketLinkTypeEnum,
+	type tickets,
+} from "@/server/db/schema";
+
+type StoredTicketLink = Pick<
+	typeof ticketLinks.$inferSelect,
+	"id" | "type" | "targetExternalId"
+>;
+
+/** The ticket at the other end of a link, when it has been synced */
+export type LinkedTicket = Pick<
+	typeof tickets.$inferSelect,
+	"id" | "externalId" | "title" | "status"
+>;
+
+export interface ResolvedTicketLink {
+	id: string;
+	type: TicketLinkType;
+	targetExternalId: string;
+	target: LinkedTicket | null;
+}
+
+/**
+ * Attach the linked tickets (of the same connection) to stored links, ordered
+ * by link type and then external ID
+ */
+export function resolveTicketLinks(
+	links: StoredTicketLink[],
+	targets: LinkedTicket[],
+): ResolvedTicketLink[] {
+	const targetsByExternalId = new Map(
+		targets.map((target) => [target.externalId, target]),
+	);
+	return links
+		.map((link) => ({
+			id: link.id,
+			type: link.type,
+			targetExternalId: link.targetExternalId,
+			target: targetsByExternalId.get(link.targetExternalId) ?? null,
+		}))
+		.sort(
+			(a, b) =>
+				ticketLinkTypeEnum.indexOf(a.type) -
+					ticketLinkTypeEnum.indexOf(b.type) ||
+				a.targetExternalId.localeCompare(b.targetExternalId, undefined, {
+					numeric: true,
+				}),
+		);
+}
+
+/**
+ * Blocking links whose other end is still open. Targets that were never
+ * synced (another project, out of scope) are assumed to be open.
+ */
+export function summarizeBlocking(
+	links: ResolvedTicketLink[],
+): RankingTicketBlocking {
+	const open = (type: TicketLinkType) =>
+		links
+			.filter(
+				(link) =>
+					link.type === type &&
+					!(link.target && finishedTicketStatuses.includes(link.target.status)),
+			)
+			.map((link) => link.targetExternalId);
+
+	return { blocks: open("blocks"), blockedBy: open("blocked-by") };
+}
@@ -16,6 +16,7 @@ import {
 	ticketRecommendations,
 	tickets,
 } from "@/server/db/schema";
+import { pushTicketChanges } from "./write-back";
 
 type Ticket = typeof tickets.$inferSelect;
 type TicketRanking = typeof ticketRankings.$inferSelect;
@@ -90,6 +91,9 @@ export const ticketService = {
 	},
 
 	async update(ticketId: string, updates: TicketUpdateInput): Promise<Ticket> {
+		const existing = await ticketService.getOrThrow(ticketId);
+		await pushTicketChanges(existing, updates);
+
 		const [updated] = await db
 			.update(tickets)
 			.set(updates)
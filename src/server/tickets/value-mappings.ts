@@ -0,0 +1,137 @@
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/server/db";
+import {
+	type MappedTicketField,
+	providerValueMappings,
+	type TicketPriority,
+	type TicketStatus,
+} from "@/server/db/schema";
+import type { ITicketProvider, ProviderValueMappings } from "./providers";
+
+type ValueMapping = typeof providerValueMappings.$inferSelect;
+
+/**
+ * Load the custom status/priority mappings of a connection
+ */
+export async function loadValueMappings(
+	connectionId: string,
+): Promise<ProviderValueMappings> {
+	const rows = await db.query.providerValueMappings.findMany({
+		where: eq(providerValueMappings.connectionId, connectionId),
+	});
+
+	const mappings: ProviderValueMappings = { status: {}, priority: {} };
+	for (const row of rows) {
+		if (!row.internalValue) continue;
+		if (row.field === "status") {
+			mappings.status[row.externalValue] = row.internalValue as TicketStatus;
+		} else {
+			mappings.priority[row.externalValue] =
+				row.internalValue as TicketPriority;
+		}
+	}
+	return mappings;
+}
+
+/**
+ * Hand the stored mappings of a connection to its provider before it maps
+ * tickets
+ */
+export async function applyValueMappings(
+	connectionId: string,
+	provider: ITicketProvider,
+): Promise<void> {
+	if (!provider.setValueMappings) return;
+	provider.setValueMappings(await loadValueMappings(connectionId));
+}
+
+/**
+ * Store the values a provider could not map so they can be previewed and
+ * mapped from settings. Existing rows only get their last-seen time bumped.
+ */
+export async function recordUnmappedValues(
+	connectionId: string,
+	provider: ITicketProvider,
+): Promise<number> {
+	const unmapped = provider.takeUnmappedValues?.() ?? [];
+	const now = new Date();
+
+	for (const { field, value } of unmapped) {
+		await db
+			.insert(providerValueMappings)
+			.values({
+				connectionId,
+				field,
+				externalValue: value,
+				lastSeenAt: now,
+			})
+			.onConflictDoUpdate({
+				target: [
+					providerValueMappings.connectionId,
+					providerValueMappings.field,
+					providerValueMappings.externalValue,
+				],
+				set: { lastSeenAt: now },
+			});
+	}
+
+	return unmapped.length;
+}
+
+/**
+ * List stored mappings (including unmapped values) of one or all connections
+ */
+export async function listValueMappings(
+	connectionId?: string,
+): Promise<ValueMapping[]> {
+	return db.query.providerValueMappings.findMany({
+		where: connectionId
+			? eq(providerValueMappings.connectionId, connectionId)
+			: undefined,
+		orderBy: [
+			asc(providerValueMappings.connectionId),
+			asc(providerValueMappings.field),
+			asc(providerValueMappings.externalValue),
+		],
+	});
+}
+
+/**
+ * Create or change the mapping of an external value. A null internal value
+ * turns the row back into an unmapped value.
+ */
+export async function saveValueMapping(input: {
+	connectionId: string;
+	field: MappedTicketField;
+	externalValue: string;
+	internalValue: TicketStatus | TicketPriority | null;
+}): Promise<ValueMapping> {
+	const externalValue = input.externalValue.toLowerCase().trim();
+
+	const [saved] = await db
+		.insert(providerValueMappings)
+		.values({ ...input, externalValue })
+		.onConflictDoUpdate({
+			target: [
+				providerValueMappings.connectionId,
+				providerValueMappings.field,
+				providerValueMappings.externalValue,
+			],
+			set: { internalValue: input.internalValue },
+		})
+		.returning();
+
+	if (!saved) {
+		throw new Error("Failed to save value mapping");
+	}
+	return saved;
+}
+
+/**
+ * Delete a mapping; the value reappears as unmapped if a sync sees it again
+ */
+export async function deleteValueMapping(id: string): Promise<void> {
+	await db
+		.delete(providerValueMappings)
+		.where(eq(providerValueMappings.id, id));
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "bun:test";
+import { createHmac } from "node:crypto";
+import { verifyHmacSignature, verifySharedSecret } from "./webhook-signature";
+
+const secret = "test-secret";
+const body = JSON.stringify({ type: "Issue", action: "update" });
+const signature = createHmac("sha256", secret).update(body).digest("hex");
+
+describe("webhook-signature", () => {
+	describe("verifyHmacSignature", () => {
+		it("accepts a valid hex signature", () => {
+			expect(verifyHmacSignature(body, secret, signature)).toBe(true);
+		});
+
+		it("accepts a sha256= prefixed signature", () => {
+			expect(verifyHmacSignature(body, secret, `sha256=${signature}`)).toBe(
+				true,
+			);
+		});
+
+		it("rejects a signature for a different body", () => {
+			expect(verifyHmacSignature(`${body} `, secret, signature)).toBe(false);
+		});
+
+		it("rejects a missing or malformed signature", () => {
+			expect(verifyHmacSignature(body, secret, null)).toBe(false);
+			expect(verifyHmacSignature(body, secret, "abc")).toBe(false);
+		});
+	});
+
+	describe("verifySharedSecret", () => {
+		it("matches the configured secret only", () => {
+			expect(verifySharedSecret(secret, secret)).toBe(true);
+			expect(verifySharedSecret(secret, "other")).toBe(false);
+			expect(verifySharedSecret(secret, null)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Constant-time string comparison that tolerates different lengths
+ */
+function safeEqual(a: string, b: string): boolean {
+	const left = Buffer.from(a);
+	const right = Buffer.from(b);
+	return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Verify a hex-encoded HMAC-SHA256 signature of the raw request body.
+ * Accepts signatures with or without a "sha256=" prefix.
+ */
+export function verifyHmacSignature(
+	rawBody: string,
+	secret: string,
+	signature: string | null,
+): boolean {
+	if (!signature) return false;
+
+	const expected = createHmac("sha256", secret).update(rawBody).digest("hex");
+	const provided = signature
+		.replace(/^sha256=/, "")
+		.trim()
+		.toLowerCase();
+	return safeEqual(expected, provided);
+}
+
+/**
+ * Verify a shared secret passed alongside the webhook (query parameter or header)
+ */
+export function verifySharedSecret(
+	secret: string,
+	provided: string | null,
+): boolean {
+	return !!provided && safeEqual(secret, provided);
+}
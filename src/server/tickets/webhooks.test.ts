@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, mock } from "bun:test";
+import { mockFetch } from "@/test/utils";
+import { JiraTicketProvider } from "./providers/jira";
+
+const BASE_URL = "https://acme.atlassian.net";
+
+const provider = new JiraTicketProvider({
+	baseUrl: BASE_URL,
+	apiToken: "token",
+	projectKey: "ACME",
+});
+
+// Anything that tries to store the ticket fails on this empty database
+mock.module("@/server/db", () => ({ db: {} }));
+mock.module("./provider-registry", () => ({
+	getProviderRegistry: async () => ({
+		getConnection: () => undefined,
+		getConnectionsByProvider: () => [
+			{
+				connection: {
+					id: "jira-1",
+					name: "Jira",
+					provider: "jira",
+					enabled: true,
+				},
+				provider,
+			},
+		],
+	}),
+}));
+
+const { handleProviderWebhook } = await import("./webhooks");
+
+describe("handleProviderWebhook", () => {
+	let restore: (() => void) | undefined;
+	afterEach(() => restore?.());
+
+	it("ignores issues outside the connection's project", async () => {
+		const jql = 'key = "OTHER-7" AND (project = ACME)';
+		const mock = mockFetch({
+			[`${BASE_URL}/rest/api/3/search/jql?jql=${encodeURIComponent(jql)}&maxResults=1&fields=key`]:
+				Response.json({ issues: [], isLast: true }),
+		});
+		restore = mock.restore;
+
+		const outcome = await handleProviderWebhook("jira", {
+			webhookEvent: "jira:issue_updated",
+			issue: { key: "OTHER-7" },
+		});
+
+		expect(outcome.handled).toBe(false);
+		expect(outcome.message).toContain("outside the scope of Jira");
+		// Not even refetched
+		expect(mock.requests).toHaveLength(1);
+	});
+});
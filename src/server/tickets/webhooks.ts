@@ -0,0 +1,104 @@
+import type { TicketProvider } from "@/server/db/schema";
+import { getProviderRegistry } from "./provider-registry";
+import {
+	applyOrphanPolicy,
+	getOrphanPolicy,
+	type SyncResult,
+	syncProviderTickets,
+} from "./sync";
+import { applyValueMappings, recordUnmappedValues } from "./value-mappings";
+
+export interface WebhookHandleResult {
+	handled: boolean;
+	message: string;
+	result?: SyncResult;
+}
+
+/**
+ * Apply a verified webhook payload: refetch the affected ticket from the
+ * provider and upsert it through the regular sync mapping.
+ *
+ * The connection can be omitted when only one connection of the provider
+ * type exists; otherwise the webhook URL must name it.
+ */
+export async function handleProviderWebhook(
+	providerKey: TicketProvider,
+	payload: unknown,
+	connectionId?: string | null,
+): Promise<WebhookHandleResult> {
+	const registry = await getProviderRegistry();
+	const candidates = connectionId
+		? [registry.getConnection(connectionId)].filter(
+				(c) => c?.connection.provider === providerKey,
+			)
+		: registry.getConnectionsByProvider(providerKey);
+
+	if (candidates.length !== 1 || !candidates[0]) {
+		return {
+			handled: false,
+			message:
+				candidates.length === 0
+					? `No ${providerKey} connection${connectionId ? ` with ID ${connectionId}` : ""}`
+					: `Several ${providerKey} connections exist; add ?connection=<id> to the webhook URL`,
+		};
+	}
+
+	const { connection, provider } = candidates[0];
+	if (!provider.parseWebhookEvent) {
+		return {
+			handled: false,
+			message: `Provider ${providerKey} does not support webhooks`,
+		};
+	}
+
+	if (!connection.enabled || !provider.isConfigured()) {
+		return {
+			handled: false,
+			message: `Connection ${connection.name} is not configured`,
+		};
+	}
+
+	const event = provider.parseWebhookEvent(payload);
+	if (!event) {
+		return { handled: false, message: "Event ignored" };
+	}
+
+	if (event.action === "delete") {
+		const policy = getOrphanPolicy();
+		await applyOrphanPolicy(connection.id, [event.externalId], policy);
+		return {
+			handled: true,
+			message: `Ticket ${event.externalId} deleted at source (${policy})`,
+		};
+	}
+
+	// Events arrive for every ticket the credentials can see, including ones
+	// outside the project or filter this connection syncs
+	if (provider.isInScope && !(await provider.isInScope(event.externalId))) {
+		return {
+			handled: false,
+			message: `Ticket ${event.externalId} is outside the scope of ${connection.name}; event ignored`,
+		};
+	}
+
+	// Refetch instead of trusting the payload so webhook and polling syncs
+	// store identical data
+	await applyValueMappings(connection.id, provider);
+	const ticket = await provider.getTicket(event.externalId);
+	await recordUnmappedValues(connection.id, provider);
+	if (!ticket) {
+		return {
+			handled: false,
+			message: `Ticket ${event.externalId} could not be fetched`,
+		};
+	}
+
+	const result = await syncProviderTickets(connection, [ticket]);
+	return {
+		handled: result.errors.length === 0,
+		message:
+			result.errors[0] ??
+			`Ticket ${event.externalId} ${result.created > 0 ? "created" : "updated"}`,
+		result,
+	};
+}
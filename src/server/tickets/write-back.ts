@@ -0,0 +1,67 @@
+import type { tickets } from "@/server/db/schema";
+import { getProviderRegistry } from "./provider-registry";
+import type { ExternalTicketUpdate } from "./providers";
+import { applyValueMappings } from "./value-mappings";
+
+type Ticket = typeof tickets.$inferSelect;
+
+/**
+ * Push status, priority and assignee edits of a synced ticket to the
+ * connection it came from so the next sync does not overwrite them.
+ *
+ * Returns true when changes were pushed, false when there was nothing to push
+ * (manual ticket, unchanged fields, or a provider without write support).
+ * Throws if the provider rejects the change; callers should then skip the
+ * local update.
+ */
+export async function pushTicketChanges(
+	ticket: Ticket,
+	updates: ExternalTicketUpdate,
+): Promise<boolean> {
+	if (ticket.provider === "manual" || !ticket.externalId) {
+		return false;
+	}
+
+	const changes: ExternalTicketUpdate = {};
+	if (updates.status !== undefined && updates.status !== ticket.status) {
+		changes.status = updates.status;
+	}
+	if (updates.priority !== undefined && updates.priority !== ticket.priority) {
+		changes.priority = updates.priority;
+	}
+	if (updates.assignee !== undefined && updates.assignee !== ticket.assignee) {
+		changes.assignee = updates.assignee;
+	}
+
+	if (Object.keys(changes).length === 0) {
+		return false;
+	}
+
+	const connected = ticket.connectionId
+		? (await getProviderRegistry()).getConnection(ticket.connectionId)
+		: undefined;
+	if (!connected) {
+		throw new Error(
+			`Cannot update ${ticket.externalId}: the ${ticket.provider} connection it was synced from no longer exists`,
+		);
+	}
+
+	const { connection, provider } = connected;
+	if (!provider.updateTicket) {
+		console.warn(
+			`[write-back] ${ticket.provider} does not support updates; ${ticket.externalId} changed locally only`,
+		);
+		return false;
+	}
+
+	if (!provider.isConfigured()) {
+		throw new Error(
+			`Cannot update ${ticket.externalId}: ${connection.name} connection is not configured`,
+		);
+	}
+
+	// Status transitions are matched through the same mappings as sync
+	await applyValueMappings(connection.id, provider);
+	await provider.updateTicket(ticket.externalId, changes);
+	return true;
+}
@@ -4,6 +4,7 @@
  * Shared utilities for testing across the codebase.
  */
 
+import { spyOn } from "bun:test";
 import type { AgentMessage, AgentSession } from "@/types";
 
 /**
@@ -65,3 +66,32 @@ export async function waitFor(
 export function delay(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+type FetchRoute = Response | (() => Response);
+
+/**
+ * Replace `fetch` with canned responses keyed by URL, or with a handler that
+ * answers every request. A list answers successive requests for the same URL
+ * in order; any other URL fails the request. Call `restore` when done.
+ */
+export function mockFetch(
+	routes: Record<string, FetchRoute | FetchRoute[]> | ((url: URL) => Response),
+): {
+	requests: string[];
+	restore: () => void;
+} {
+	const requests: string[] = [];
+	const spy = spyOn(globalThis, "fetch").mockImplementation((async (
+		input: RequestInfo | URL,
+	) => {
+		const url = String(input);
+		requests.push(url);
+		if (typeof routes === "function") return routes(new URL(url));
+		const route = routes[url];
+		const next = Array.isArray(route) ? route.shift() : route;
+		if (!next) throw new Error(`Unexpected request ${url}`);
+		return typeof next === "function" ? next() : next;
+	}) as typeof fetch);
+
+	return { requests, restore: () => spy.mockRestore() };
+}
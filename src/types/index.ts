@@ -57,8 +57,14 @@ export type {
 	RankingInput,
 	RankingResult,
 	Ticket,
+	TicketChild,
+	TicketComment,
+	TicketConnection,
+	TicketHierarchyNode,
+	TicketLink,
 	TicketMessage,
 	TicketMetadata,
+	TicketProgress,
 	TicketRanking,
 	TicketRecommendation,
 	TicketWithRankings,
@@ -6,11 +6,18 @@
  */
 
 import type {
+	providerConnections,
+	ticketComments,
 	ticketMessages,
 	ticketRankings,
 	ticketRecommendations,
 	tickets,
 } from "@/server/db/schema";
+import type {
+	HierarchyTicket,
+	TicketProgress,
+} from "@/server/tickets/ticket-hierarchy";
+import type { ResolvedTicketLink } from "@/server/tickets/ticket-links";
 
 // ============================================================================
 // Base Types (inferred from schema)
@@ -28,6 +35,26 @@ export type TicketRanking = typeof ticketRankings.$inferSelect;
 /** Message in ticket conversation history */
 export type TicketMessage = typeof ticketMessages.$inferSelect;
 
+/** Comment synced from the provider's discussion thread */
+export type TicketComment = typeof ticketComments.$inferSelect;
+
+/** Link to another ticket, with the linked ticket when it has been synced */
+export type TicketLink = ResolvedTicketLink;
+
+/** Parent or child of a ticket in its epic/story/sub-task hierarchy */
+export type TicketHierarchyNode = HierarchyTicket;
+
+/** Child ticket with the progress of its own descendants */
+export type TicketChild = TicketHierarchyNode & { progress: TicketProgress };
+
+export type { TicketProgress };
+
+/** Provider connection a ticket was synced from (name only) */
+export type TicketConnection = Pick<
+	typeof providerConnections.$inferSelect,
+	"name"
+>;
+
 // ============================================================================
 // Metadata Types (strongly typed)
 // ============================================================================
@@ -80,6 +107,14 @@ export type TicketWithRelations = Ticket & {
 	recommendations?: TicketRecommendation[];
 	rankings?: TicketRanking[];
 	messages?: TicketMessage[];
+	comments?: TicketComment[];
+	links?: TicketLink[];
+	/** Parents of the ticket, epic first */
+	ancestors?: TicketHierarchyNode[];
+	children?: TicketChild[];
+	/** Finished tickets among all descendants */
+	progress?: TicketProgress;
+	connection?: TicketConnection | null;
 };
 
 /**